@@ -5,6 +5,7 @@
  */
 
 import { ChonkyTasksMcpServer } from './server.js';
+import { closeStorageAdapters } from './tools/utilities/storage/index.js';
 
 // Import and register all tools
 import './tools/registry.js';
@@ -42,11 +43,14 @@ async function main() {
         process.exit(1);
     }
     
-    // Keep the process alive
-    process.on('SIGINT', async () => {
+    // Keep the process alive; close storage connections and file handles on the way out
+    const shutdown = () => {
       console.error('🛑 Shutting down...');
+      closeStorageAdapters();
       process.exit(0);
-    });
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
     
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -5,12 +5,16 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { CallToolRequestSchema, ListToolsRequestSchema, RootsListChangedNotificationSchema, InitializeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { createServer } from 'node:http';
 import { toolRegistry } from './tools/registry.js';
 import { ToolExecutionContext } from './tools/types.js';
+import { MemoryStoreTool } from './tools/utilities/memory-store.js';
 
 
+const STDIO_TRANSPORT = 'stdio';
+
 /**
  * Modern MCP server implementation
  */
@@ -19,6 +23,8 @@ export class ChonkyTasksMcpServer {
   private clientRoots: Array<{ uri: string; name?: string }> = [];
   private clientSupportsRoots: boolean = false;
   private currentSessionId: string = 'anonymous';
+  // Connected transports by transport session ID; stdio has none and uses STDIO_TRANSPORT
+  private transports = new Map<string, Transport>();
 
   constructor() {
     // Create server instance with modern SDK 1.17.1 API
@@ -212,13 +218,14 @@ export class ChonkyTasksMcpServer {
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       
       console.error(`🚨 TOOL CALL RECEIVED: ${name}`);
       
-      // Extract client session ID using our smart detection method
-      const clientSessionId = this.extractSessionId(request);
+      // The transport session identifies SSE clients; otherwise use our smart detection method
+      const clientSessionId = extra.sessionId || this.extractSessionId(request);
+      const transportKey = extra.sessionId || STDIO_TRANSPORT;
       console.error(`📋 Using client session ID: ${clientSessionId}`);
       
       const tool = toolRegistry.get(name);
@@ -255,6 +262,16 @@ export class ChonkyTasksMcpServer {
               console.error(`⚠️ Progress notification failed:`, progressError);
               // Don't fail the entire tool execution if progress fails
             }
+          },
+          // Used after the call returns, e.g. for memory store change subscriptions. The
+          // shared server only talks to the last connected transport, so this goes
+          // straight to the calling client's transport and fails once it disconnected.
+          sendNotification: async (notification: { method: string; params: Record<string, unknown> }) => {
+            const transport = this.transports.get(transportKey);
+            if (!transport) {
+              throw new Error(`Client session ${clientSessionId} is no longer connected`);
+            }
+            await transport.send({ jsonrpc: '2.0', ...notification });
           }
         };
 
@@ -311,6 +328,7 @@ export class ChonkyTasksMcpServer {
     
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
+    this.transports.set(STDIO_TRANSPORT, transport);
     console.error('📟 Chonky Tasks MCP Server running on stdio');
     
     // Use the same logic as SSE: wait for initialization to complete, then request roots
@@ -354,6 +372,7 @@ export class ChonkyTasksMcpServer {
           
           // Store the transport for handling POST messages
           activeTransports.set(transport.sessionId, transport);
+          this.transports.set(transport.sessionId, transport);
           
           console.error(`🔌 SSE client connected with session: ${transport.sessionId}`);
           
@@ -372,6 +391,8 @@ export class ChonkyTasksMcpServer {
           // Clean up when connection closes
           transport.onclose = () => {
             activeTransports.delete(transport.sessionId);
+            this.transports.delete(transport.sessionId);
+            MemoryStoreTool.unsubscribeSession(transport.sessionId);
             console.error(`🔌 SSE client disconnected: ${transport.sessionId}`);
           };
           
@@ -0,0 +1,79 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import { createToolRunner } from './helpers.js';
+
+describe('Task Claims Test Suite', () => {
+	const { execute, run } = createToolRunner('claims-test');
+
+	it('hands parallel agents different tasks and protects claimed tasks from other agents', async () => {
+		await run('chonky-task-manager-create-project', { name: 'parallel' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'parallel',
+			tasks: [
+				{ title: 'Vault', description: 'Review vault', priority: 'high' },
+				{ title: 'Oracle', description: 'Review oracle' }
+			]
+		});
+
+		const first = await run('chonky-task-manager-next-task', { project: 'parallel', agent: 'alice' });
+		assert.strictEqual(first.metadata!.nextTask.id, 1);
+		const claimed = await run('chonky-task-manager-claim-task', { project: 'parallel', taskId: 1, agent: 'alice', leaseMinutes: 10 });
+		assert.strictEqual(claimed.metadata!.claim.claimedBy, 'alice');
+
+		const second = await run('chonky-task-manager-next-task', { project: 'parallel', agent: 'bob' });
+		assert.strictEqual(second.metadata!.nextTask.id, 2);
+		assert.deepStrictEqual(second.metadata!.claimedByOthers, [1]);
+
+		const stolen = await execute('chonky-task-manager-claim-task', { project: 'parallel', taskId: 1, agent: 'bob' });
+		assert.ok(!stolen.success);
+		assert.ok(stolen.result.includes('claimed by "alice"'));
+
+		const refused = await execute('chonky-task-manager-update-task', { project: 'parallel', taskId: '1', status: 'in-progress', notes: 'Starting', agent: 'bob' });
+		assert.ok(!refused.success);
+		assert.ok(refused.result.includes('Only the claim owner can update it'));
+
+		await run('chonky-task-manager-update-task', { project: 'parallel', taskId: '1', notes: 'Reviewer note', agent: 'bob', force: true });
+		await run('chonky-task-manager-update-task', { project: 'parallel', taskId: '1', status: 'in-progress', notes: 'Starting', agent: 'alice' });
+
+		const details = await run('chonky-task-manager-get-task', { project: 'parallel', taskId: '1' });
+		assert.strictEqual(details.metadata!.entity.assignee, 'alice');
+		assert.ok(details.result.includes('**Claimed By:** alice'));
+
+		const done = await run('chonky-task-manager-update-task', { project: 'parallel', taskId: '1', status: 'done', notes: 'Vault reviewed', agent: 'alice' });
+		assert.ok(done.result.includes('Claim of "alice" released'));
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'parallel', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+		assert.strictEqual(replay.metadata!.replayedProject.tasks[0].claim, undefined);
+		assert.strictEqual(replay.metadata!.replayedProject.tasks[0].assignee, 'alice');
+	});
+
+	it('ignores expired leases', async () => {
+		const { getNextTask, getForeignClaim } = await import('../tools/task-management/utils.js');
+		const now = new Date().toISOString();
+		const task = (id: number, expiresAt: string) => ({
+			id,
+			title: `Task ${id}`,
+			description: 'Something to do',
+			status: 'pending' as const,
+			priority: 'high' as const,
+			dependencies: [],
+			subtasks: [],
+			claim: { claimedBy: 'alice', claimedAt: now, expiresAt },
+			created: now,
+			updated: now
+		});
+		const project = {
+			name: 'leases',
+			tasks: [task(1, '2000-01-01T00:00:00.000Z'), task(2, '2999-01-01T00:00:00.000Z')],
+			nextId: 3,
+			created: now,
+			updated: now
+		};
+
+		assert.strictEqual(getForeignClaim(project, '1', 'bob'), null);
+		assert.strictEqual(getForeignClaim(project, '2', 'bob')!.claim.claimedBy, 'alice');
+		assert.strictEqual(getNextTask(project, undefined, 'bob')!.id, 1);
+		assert.strictEqual(getNextTask(project, undefined, 'alice')!.id, 1);
+	});
+});
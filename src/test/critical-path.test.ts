@@ -0,0 +1,39 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import { createToolRunner } from './helpers.js';
+
+describe('Critical Path Test Suite', () => {
+	const { run } = createToolRunner('critical-path-test');
+
+	it('computes the critical path, slack and the longest remaining chain', async () => {
+		await run('chonky-task-manager-create-project', { name: 'schedule' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'schedule',
+			tasks: [
+				{ title: 'Scope', description: 'Agree on scope', estimate: 2 },
+				{ title: 'Contracts', description: 'Review contracts', estimate: 8, dependencies: [1] },
+				{ title: 'Frontend', description: 'Review frontend', estimate: 3, dependencies: [1] },
+				{ title: 'Report', description: 'Write report', estimate: 4, dependencies: [2, 3] }
+			]
+		});
+
+		let result = await run('chonky-task-manager-critical-path', { project: 'schedule' });
+		assert.strictEqual(result.metadata!.duration, 14);
+		assert.deepStrictEqual(result.metadata!.criticalPath, ['1', '2', '4']);
+		const frontend = result.metadata!.tasks.find((task: any) => task.id === '3');
+		assert.strictEqual(frontend.slack, 5);
+		assert.strictEqual(frontend.critical, false);
+		assert.ok(result.result.includes('**Critical Path:** #1 → #2 → #4'));
+		assert.ok(result.result.includes('| 3 | Frontend | pending | 3h | 2h | 7h | 5h |'));
+
+		// A parent waits for its subtasks, which do not wait for the parent's own dependencies
+		await run('chonky-task-manager-update-task', { project: 'schedule', taskId: '1', status: 'done', notes: 'Scope agreed' });
+		await run('chonky-task-manager-add-task', { project: 'schedule', title: 'Storybook', description: 'Review components', parentTaskId: 3, estimate: 10 });
+		result = await run('chonky-task-manager-critical-path', { project: 'schedule', outputFormat: 'json' });
+		assert.deepStrictEqual(result.metadata!.criticalPath, ['3.1', '3', '4']);
+		assert.strictEqual(JSON.parse(result.result).duration, 17);
+		assert.deepStrictEqual(result.metadata!.remainingChain, ['3.1', '3', '4']);
+		assert.strictEqual(result.metadata!.remainingDuration, 17);
+		assert.strictEqual(result.metadata!.tasks.find((task: any) => task.id === '2').slack, 3);
+	});
+});
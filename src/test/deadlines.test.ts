@@ -0,0 +1,71 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createToolRunner } from './helpers.js';
+
+describe('Due Dates and Estimates Test Suite', () => {
+	const runner = createToolRunner('deadlines-test');
+	const { execute, run } = runner;
+
+	const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+	it('flags overdue and due-soon tasks and ranks them first', async () => {
+		await run('chonky-task-manager-create-project', { name: 'deadlines' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'deadlines',
+			tasks: [
+				{ title: 'Architecture', description: 'Review architecture', priority: 'high', estimate: 8 },
+				{ title: 'Report draft', description: 'Draft report', priority: 'low', dueDate: daysFromNow(-1), estimate: 2 },
+				{ title: 'Kickoff', description: 'Prepare kickoff', dueDate: daysFromNow(1) },
+				{ title: 'Retro', description: 'Prepare retro', priority: 'high', dueDate: '2999-01-01' }
+			]
+		});
+
+		const list = await run('chonky-task-manager-list-tasks', { project: 'deadlines' });
+		assert.ok(list.result.includes('| Report draft ⏰ overdue ('));
+		assert.ok(list.result.includes('| Kickoff ⌛ due soon ('));
+		assert.ok(list.result.includes('**Deadlines:** ⏰ 1 overdue, ⌛ 1 due soon'));
+		assert.ok(list.result.includes('**Effort:** 0h spent of 10h estimated'));
+
+		let next = await run('chonky-task-manager-next-task', { project: 'deadlines' });
+		assert.strictEqual(next.metadata!.nextTask.id, 2);
+		assert.strictEqual(next.metadata!.nextTask.dueState, 'overdue');
+
+		const update = await run('chonky-task-manager-update-task', { project: 'deadlines', taskId: '2', status: 'in-progress', notes: 'Writing', timeSpent: 1.5 });
+		assert.ok(update.result.includes('Time logged: 1.5h (total 1.5h of 2h estimated)'));
+		await run('chonky-task-manager-update-task', { project: 'deadlines', taskId: '2', status: 'done', notes: 'Draft finished', timeSpent: 1 });
+
+		const details = await run('chonky-task-manager-get-task', { project: 'deadlines', taskId: '2' });
+		assert.strictEqual(details.metadata!.entity.actualTime, 2.5);
+		assert.ok(details.result.includes('**Time:** 2.5h spent of 2h estimated'));
+		assert.ok(!details.result.includes('overdue'));
+
+		next = await run('chonky-task-manager-next-task', { project: 'deadlines' });
+		assert.strictEqual(next.metadata!.nextTask.id, 3);
+
+		await assert.rejects(
+			execute('chonky-task-manager-add-task', { project: 'deadlines', title: 'Bad', description: 'Bad date', dueDate: 'tomorrow' }),
+			/Due date must be an ISO date/
+		);
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'deadlines', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+		assert.strictEqual(replay.metadata!.replayedProject.tasks[1].actualTime, 2.5);
+	});
+
+	it('reads due dates and estimates from task file frontmatter', async () => {
+		const folder = path.join(runner.workspaceRoot, 'plan');
+		fs.mkdirSync(folder);
+		fs.writeFileSync(path.join(folder, 'task1.md'), '---\ntitle: "Audit"\ndueDate: "2030-06-30"\nestimate: 16\n---\n\nAudit the protocol\n');
+		fs.writeFileSync(path.join(folder, 'task1-1.md'), '---\ntitle: "Vault"\ndueDate: 2030-06-15\nestimate: 4\nactualTime: 0.5\n---\n\nReview the vault\n');
+
+		await run('chonky-task-manager-import-folder', { folderPath: folder, projectName: 'deadlines-import' });
+		const task = await run('chonky-task-manager-get-task', { project: 'deadlines-import', taskId: '1' });
+		assert.strictEqual(task.metadata!.entity.dueDate, '2030-06-30');
+		assert.strictEqual(task.metadata!.entity.estimate, 16);
+		const subtask = await run('chonky-task-manager-get-task', { project: 'deadlines-import', taskId: '1.1' });
+		assert.strictEqual(subtask.metadata!.entity.dueDate, '2030-06-15');
+		assert.strictEqual(subtask.metadata!.entity.actualTime, 0.5);
+	});
+});
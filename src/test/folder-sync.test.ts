@@ -0,0 +1,118 @@
+import { describe, it, before } from 'mocha';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createToolRunner } from './helpers.js';
+
+describe('Folder Sync Test Suite', () => {
+	let folder: string;
+
+	const runner = createToolRunner('sync-test');
+	const { run } = runner;
+
+	const readTask = (filename: string) => fs.readFileSync(path.join(folder, filename), 'utf8');
+
+	before(() => {
+		folder = path.join(runner.workspaceRoot, '.chonky', 'tasks-manager');
+		fs.mkdirSync(folder, { recursive: true });
+		fs.writeFileSync(path.join(folder, 'task1.md'), [
+			'---',
+			'title: "Design API"',
+			'priority: "high"',
+			'dependencies: []',
+			'---',
+			'',
+			'Design the public API',
+			''
+		].join('\n'));
+		fs.writeFileSync(path.join(folder, 'task2.md'), [
+			'---',
+			'title: "Build API"',
+			'dependencies: [1]',
+			'---',
+			'',
+			'Build it'
+		].join('\n'));
+	});
+
+	it('creates the project from the folder on the first sync', async () => {
+		const result = await run('chonky-task-manager-sync-folder', { project: 'synced' });
+
+		assert.ok(result.metadata!.projectCreated);
+		assert.strictEqual(result.metadata!.pulled.length, 2);
+		assert.deepStrictEqual(result.metadata!.written, []);
+	});
+
+	it('writes status, notes and new tasks back to the files', async () => {
+		await run('chonky-task-manager-update-task', { project: 'synced', taskId: '1', status: 'in-progress', notes: 'Drafting endpoints' });
+		await run('chonky-task-manager-add-task', { project: 'synced', title: 'Document API', description: 'Write the docs', dependencies: [2] });
+
+		const result = await run('chonky-task-manager-sync-folder', { project: 'synced' });
+		assert.deepStrictEqual(result.metadata!.written.sort(), ['task1.md', 'task3.md']);
+
+		const task1 = readTask('task1.md');
+		assert.match(task1, /^status: "in-progress"$/m);
+		assert.match(task1, /## Notes\n[\s\S]*Drafting endpoints/);
+		assert.match(readTask('task3.md'), /^dependencies: \[2\]$/m);
+
+		const again = await run('chonky-task-manager-sync-folder', { project: 'synced' });
+		assert.deepStrictEqual(again.metadata!.pulled, []);
+		assert.deepStrictEqual(again.metadata!.written, []);
+	});
+
+	it('pulls human edits and reports conflicting changes', async () => {
+		fs.writeFileSync(path.join(folder, 'task2.md'), readTask('task2.md').replace('title: "Build API"', 'title: "Build REST API"'));
+		fs.writeFileSync(path.join(folder, 'task3.md'), readTask('task3.md').replace('status: "pending"', 'status: "deferred"'));
+		await run('chonky-task-manager-update-task', { project: 'synced', taskId: '3', status: 'blocked', notes: 'Waiting for API' });
+
+		const result = await run('chonky-task-manager-sync-folder', { project: 'synced' });
+		assert.deepStrictEqual(result.metadata!.conflicts, ['#3 status']);
+
+		const task = await run('chonky-task-manager-get-task', { project: 'synced', taskId: '2' });
+		assert.match(task.result, /Build REST API/);
+		assert.match(readTask('task3.md'), /^status: "blocked"$/m);
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'synced', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+	});
+
+	it('applies status changes from the files only when update-task would allow them', async () => {
+		fs.writeFileSync(path.join(folder, 'task1.md'), readTask('task1.md').replace('status: "in-progress"', 'status: "done"'));
+		fs.writeFileSync(path.join(folder, 'task3.md'), readTask('task3.md').replace('status: "blocked"', 'status: "done"'));
+
+		const result = await run('chonky-task-manager-sync-folder', { project: 'synced' });
+		assert.deepStrictEqual(result.metadata!.pulled, ['#1 updated from task1.md']);
+		assert.strictEqual(result.metadata!.conflicts.length, 1);
+		assert.match(result.metadata!.conflicts[0], /^#3 status "done" from task3\.md rejected, project status kept: Cannot mark task #3 as done\. Incomplete dependencies: 2$/);
+		assert.match(readTask('task3.md'), /^status: "blocked"$/m);
+
+		const list = await run('chonky-task-manager-list-tasks', { project: 'synced', outputFormat: 'json' });
+		assert.deepStrictEqual(list.metadata!.tasks.map((task: any) => task.status), ['done', 'pending', 'blocked']);
+	});
+
+	it('adds tasks from new files as pending and checks their status like any other change', async () => {
+		const newFile = (id: number, title: string, extra: string[]) => fs.writeFileSync(path.join(folder, `task${id}.md`), [
+			'---',
+			`title: "${title}"`,
+			...extra,
+			'---',
+			'',
+			title
+		].join('\n'));
+		newFile(4, 'Release API', ['status: "done"', 'dependencies: [2]']);
+		newFile(5, 'Announce API', ['status: "in-progress"']);
+
+		const result = await run('chonky-task-manager-sync-folder', { project: 'synced' });
+		assert.deepStrictEqual(result.metadata!.pulled, ['#4 added from task4.md', '#5 added from task5.md']);
+		assert.deepStrictEqual(result.metadata!.conflicts, [
+			'#4 status "done" from task4.md rejected, project status kept: Cannot mark task #4 as done. Incomplete dependencies: 2'
+		]);
+		assert.match(readTask('task4.md'), /^status: "pending"$/m);
+
+		const list = await run('chonky-task-manager-list-tasks', { project: 'synced', outputFormat: 'json' });
+		assert.deepStrictEqual(list.metadata!.tasks.map((task: any) => task.status), ['done', 'pending', 'blocked', 'pending', 'in-progress']);
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'synced', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+	});
+});
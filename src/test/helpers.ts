@@ -0,0 +1,61 @@
+import { before, after } from 'mocha';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolExecutionContext, ToolExecutionResult } from '../tools/types.js';
+
+/**
+ * Runs registered tools for one session in a temporary workspace
+ */
+export interface ToolRunner {
+	readonly workspaceRoot: string;
+	createContext(args: Record<string, any>): ToolExecutionContext;
+	/** Execute a tool and return its result, whether it succeeded or not */
+	execute(toolName: string, args: Record<string, any>): Promise<ToolExecutionResult>;
+	/** Execute a tool and fail the test unless it succeeded */
+	run(toolName: string, args: Record<string, any>): Promise<ToolExecutionResult>;
+}
+
+/**
+ * Create a tool runner for the enclosing describe block. Its workspace is
+ * created before the block's other before hooks run and removed after it.
+ */
+export function createToolRunner(sessionId: string): ToolRunner {
+	let workspaceRoot = '';
+
+	before(() => {
+		workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), `chonky-${sessionId}-`));
+	});
+
+	after(() => {
+		fs.rmSync(workspaceRoot, { recursive: true, force: true });
+	});
+
+	const createContext = (args: Record<string, any>): ToolExecutionContext => ({
+		arguments: args,
+		sessionId,
+		workspaceRoot,
+		sendProgress: async () => {}
+	});
+
+	const execute = async (toolName: string, args: Record<string, any>) => {
+		const { toolRegistry } = await import('../tools/registry.js');
+		return toolRegistry.get(toolName)!.execute(createContext(args));
+	};
+
+	const run = async (toolName: string, args: Record<string, any>) => {
+		const result = await execute(toolName, args);
+		assert.ok(result.success, result.result);
+		return result;
+	};
+
+	return {
+		get workspaceRoot() {
+			return workspaceRoot;
+		},
+		createContext,
+		execute,
+		run
+	};
+}
@@ -0,0 +1,93 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import { createToolRunner } from './helpers.js';
+
+describe('Manage Project Test Suite', () => {
+	const { createContext, execute, run } = createToolRunner('manage-project-test');
+
+	const getKey = async (key: string) => {
+		const { MemoryStoreTool } = await import('../tools/utilities/memory-store.js');
+		const result = await new MemoryStoreTool().execute(createContext({ operation: 'get', key, namespace: 'chonky-task-manager' }));
+		return result.result;
+	};
+
+	it('archives a project as read-only and unarchives it', async () => {
+		await run('chonky-task-manager-create-project', { name: 'shelved' });
+		await run('chonky-task-manager-add-task', { project: 'shelved', title: 'Task', description: 'Something to do' });
+
+		const archived = await run('chonky-task-manager-manage-project', { project: 'shelved', operation: 'archive' });
+		assert.ok(archived.metadata!.clearedActiveProject);
+		assert.strictEqual(await getKey('tasks.activeproject'), 'undefined');
+
+		const list = await run('chonky-task-manager-list-tasks', { project: 'shelved' });
+		assert.match(list.result, /Archived/);
+
+		await assert.rejects(
+			execute('chonky-task-manager-update-task', { project: 'shelved', taskId: '1', status: 'in-progress', notes: 'Starting' }),
+			/is archived/
+		);
+
+		await run('chonky-task-manager-manage-project', { project: 'shelved', operation: 'unarchive' });
+		await run('chonky-task-manager-update-task', { project: 'shelved', taskId: '1', status: 'in-progress', notes: 'Starting' });
+	});
+
+	it('deletes a project and its history only when confirmed', async () => {
+		await run('chonky-task-manager-create-project', { name: 'doomed' });
+
+		const unconfirmed = await execute('chonky-task-manager-manage-project', { project: 'doomed', operation: 'delete' });
+		assert.strictEqual(unconfirmed.success, false);
+		assert.match(unconfirmed.result, /confirm: true/);
+		assert.notStrictEqual(await getKey('tasks.projects.doomed'), 'undefined');
+
+		const deleted = await run('chonky-task-manager-manage-project', { project: 'doomed', operation: 'delete', confirm: true });
+		assert.ok(deleted.metadata!.clearedActiveProject);
+		assert.strictEqual(await getKey('tasks.projects.doomed'), 'undefined');
+		assert.strictEqual(await getKey('tasks.events.doomed'), 'undefined');
+		assert.strictEqual(await getKey('tasks.activeproject'), 'undefined');
+
+		await run('chonky-task-manager-create-project', { name: 'doomed' });
+	});
+
+	it('waits for running saves of the project before deleting it', async () => {
+		const { withProjectLock } = await import('../tools/task-management/project-store.js');
+		await run('chonky-task-manager-create-project', { name: 'contested' });
+
+		let deletion: Promise<unknown> | undefined;
+		await withProjectLock(createContext({}), 'contested', async () => {
+			deletion = execute('chonky-task-manager-manage-project', { project: 'contested', operation: 'delete', confirm: true });
+			await new Promise(resolve => setTimeout(resolve, 20));
+			assert.notStrictEqual(await getKey('tasks.projects.contested'), 'undefined');
+		});
+
+		await deletion;
+		assert.strictEqual(await getKey('tasks.projects.contested'), 'undefined');
+		assert.strictEqual(await getKey('tasks.events.contested'), 'undefined');
+	});
+
+	it('lists projects and falls back to the active project', async () => {
+		await run('chonky-task-manager-create-project', { name: 'alpha' });
+		await run('chonky-task-manager-create-project', { name: 'beta' });
+		await run('chonky-task-manager-manage-project', { project: 'alpha', operation: 'set-active' });
+		await run('chonky-task-manager-add-task', { title: 'Implicit', description: 'Added without a project' });
+
+		const list = await run('chonky-task-manager-list-projects', {});
+		const alpha = list.metadata!.projects.find((project: any) => project.name === 'alpha');
+		assert.strictEqual(list.metadata!.activeProject, 'alpha');
+		assert.ok(alpha.active);
+		assert.strictEqual(alpha.tasks, 1);
+
+		await run('chonky-task-manager-manage-project', { project: 'beta', operation: 'archive' });
+		const visible = await run('chonky-task-manager-list-projects', {});
+		assert.ok(!visible.metadata!.projects.some((project: any) => project.name === 'beta'));
+		const all = await run('chonky-task-manager-list-projects', { includeArchived: true });
+		assert.ok(all.metadata!.projects.some((project: any) => project.name === 'beta'));
+	});
+
+	it('asks for a project when none is active', async () => {
+		await run('chonky-task-manager-manage-project', { project: 'alpha', operation: 'delete', confirm: true });
+
+		const result = await execute('chonky-task-manager-list-tasks', {});
+		assert.strictEqual(result.success, false);
+		assert.match(result.result, /no active project/);
+	});
+});
@@ -0,0 +1,444 @@
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Memory Store Persistence Test Suite', () => {
+	let workspaceRoot: string;
+
+	beforeEach(() => {
+		workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'chonky-store-'));
+	});
+
+	afterEach(async () => {
+		const { closeStorageAdapters, clearStorageConfigCache } = await import('../tools/utilities/storage/index.js');
+		closeStorageAdapters();
+		clearStorageConfigCache();
+		delete process.env.CHONKY_STORAGE_BACKEND;
+		delete process.env.CHONKY_STORAGE_SCOPE;
+		fs.rmSync(workspaceRoot, { recursive: true, force: true });
+	});
+
+	for (const backend of ['json', 'sqlite'] as const) {
+		it(`reloads ${backend} entries in a fresh manager`, async () => {
+			const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+			const { createStorageAdapter } = await import('../tools/utilities/storage/index.js');
+			const config = { backend, directory: workspaceRoot };
+
+			const firstAdapter = createStorageAdapter(config);
+			const first = new MemoryStoreManager();
+			first.attachStorage('ns', firstAdapter);
+			first.set('ns', 'tasks.projects.demo', { name: 'demo' });
+			first.set('ns', 'tasks.activeproject', 'demo');
+			first.delete('ns', 'tasks.activeproject');
+			first.destroy();
+			firstAdapter.close();
+
+			const secondAdapter = createStorageAdapter(config);
+			const second = new MemoryStoreManager();
+			second.attachStorage('ns', secondAdapter);
+			assert.deepStrictEqual(second.get('ns', 'tasks.projects.demo'), { name: 'demo' });
+			assert.strictEqual(second.get('ns', 'tasks.activeproject'), undefined);
+			assert.strictEqual(second.cas('ns', 'tasks.projects.demo', { name: 'renamed' }, { version: 1 }).version, 2);
+			second.destroy();
+			secondAdapter.close();
+		});
+	}
+
+	it('moves unreadable store files aside instead of failing', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const { JsonFileStorageAdapter } = await import('../tools/utilities/storage/index.js');
+		const adapter = new JsonFileStorageAdapter(workspaceRoot);
+		fs.writeFileSync(adapter.getFilePath('ns'), '{ not json');
+
+		const manager = new MemoryStoreManager();
+		manager.attachStorage('ns', adapter);
+		assert.strictEqual(manager.get('ns', 'anything'), undefined);
+		assert.ok(fs.readdirSync(workspaceRoot).some(file => file.startsWith('ns.json.corrupt-')));
+		manager.destroy();
+	});
+
+	it('selects the backend from the environment before the workspace config', async () => {
+		const { resolveStorageConfig, clearStorageConfigCache } = await import('../tools/utilities/storage/index.js');
+		assert.strictEqual(resolveStorageConfig(workspaceRoot).backend, 'json');
+
+		fs.mkdirSync(path.join(workspaceRoot, '.chonky'));
+		fs.writeFileSync(path.join(workspaceRoot, '.chonky', 'config.json'), JSON.stringify({ storage: { backend: 'sqlite', directory: 'state' } }));
+		// The config file is read once per workspace
+		assert.strictEqual(resolveStorageConfig(workspaceRoot).backend, 'json');
+		clearStorageConfigCache();
+		assert.deepStrictEqual(resolveStorageConfig(workspaceRoot), { backend: 'sqlite', directory: path.join(workspaceRoot, 'state'), scope: 'workspace' });
+
+		process.env.CHONKY_STORAGE_BACKEND = 'memory';
+		assert.strictEqual(resolveStorageConfig(workspaceRoot).backend, 'memory');
+
+		process.env.CHONKY_STORAGE_BACKEND = 'redis';
+		assert.throws(() => resolveStorageConfig(workspaceRoot), /Invalid storage backend "redis"/);
+	});
+
+	it('writes task manager projects to the workspace .chonky directory', async () => {
+		const { TaskManagerCreateProjectTool } = await import('../tools/task-management/create-project.js');
+		const { JsonFileStorageAdapter, STORE_DIRECTORY, getScopedNamespace } = await import('../tools/utilities/storage/index.js');
+
+		const result = await new TaskManagerCreateProjectTool().execute({
+			arguments: { name: 'persisted-project' },
+			sessionId: 'persistence-test',
+			workspaceRoot,
+			sendProgress: async () => {}
+		});
+		assert.ok(result.success);
+
+		const adapter = new JsonFileStorageAdapter(path.join(workspaceRoot, STORE_DIRECTORY));
+		const filePath = adapter.getFilePath(getScopedNamespace('workspace', 'chonky-task-manager', 'persistence-test', workspaceRoot));
+		const persisted = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+		assert.strictEqual(persisted.data['tasks.projects.persisted-project'].value.name, 'persisted-project');
+		assert.strictEqual(persisted.data['tasks.activeproject'].value, 'persisted-project');
+	});
+
+	it('resolves the storage scope and its default directory', async () => {
+		const { resolveStorageConfig, clearStorageConfigCache, STORE_DIRECTORY } = await import('../tools/utilities/storage/index.js');
+		assert.strictEqual(resolveStorageConfig(workspaceRoot).scope, 'workspace');
+
+		fs.mkdirSync(path.join(workspaceRoot, '.chonky'));
+		fs.writeFileSync(path.join(workspaceRoot, '.chonky', 'config.json'), JSON.stringify({ storage: { scope: 'session' } }));
+		clearStorageConfigCache();
+		assert.strictEqual(resolveStorageConfig(workspaceRoot).scope, 'session');
+
+		process.env.CHONKY_STORAGE_SCOPE = 'global';
+		assert.deepStrictEqual(resolveStorageConfig(workspaceRoot), { backend: 'json', directory: path.join(os.homedir(), STORE_DIRECTORY), scope: 'global' });
+
+		process.env.CHONKY_STORAGE_SCOPE = 'machine';
+		assert.throws(() => resolveStorageConfig(workspaceRoot), /Invalid storage scope "machine"/);
+	});
+
+	it('shares workspace-scoped projects between sessions and isolates session-scoped ones', async () => {
+		const { TaskManagerCreateProjectTool } = await import('../tools/task-management/create-project.js');
+		const { TaskManagerListProjectsTool } = await import('../tools/task-management/list-projects.js');
+		const listProjects = async (sessionId: string) => (await new TaskManagerListProjectsTool().execute({
+			arguments: {},
+			sessionId,
+			workspaceRoot,
+			sendProgress: async () => {}
+		})).metadata?.projects.map((project: { name: string }) => project.name);
+
+		await new TaskManagerCreateProjectTool().execute({
+			arguments: { name: 'shared-project' },
+			sessionId: 'vscode-session',
+			workspaceRoot,
+			sendProgress: async () => {}
+		});
+		assert.deepStrictEqual(await listProjects('mcp-cli-session'), ['shared-project']);
+
+		fs.mkdirSync(path.join(workspaceRoot, '.chonky'), { recursive: true });
+		fs.writeFileSync(path.join(workspaceRoot, '.chonky', 'config.json'), JSON.stringify({ storage: { scope: 'session' } }));
+		const { clearStorageConfigCache } = await import('../tools/utilities/storage/index.js');
+		clearStorageConfigCache();
+		assert.deepStrictEqual(await listProjects('mcp-cli-session'), []);
+	});
+
+	for (const backend of ['json', 'sqlite'] as const) {
+		it(`picks up ${backend} writes made by another process`, async () => {
+			const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+			const { createStorageAdapter } = await import('../tools/utilities/storage/index.js');
+			const config = { backend, directory: workspaceRoot };
+
+			const firstAdapter = createStorageAdapter(config);
+			const secondAdapter = createStorageAdapter(config);
+			const first = new MemoryStoreManager();
+			const second = new MemoryStoreManager();
+			first.attachStorage('ns', firstAdapter);
+			second.attachStorage('ns', secondAdapter);
+
+			first.set('ns', 'tasks.activeproject', 'from-first');
+			assert.strictEqual(second.reloadExternalChanges('ns'), true);
+			assert.strictEqual(second.get('ns', 'tasks.activeproject'), 'from-first');
+			assert.strictEqual(second.reloadExternalChanges('ns'), false);
+
+			first.destroy();
+			second.destroy();
+			firstAdapter.close();
+			secondAdapter.close();
+		});
+	}
+
+	it('registers a memory store tool that cannot modify the task manager namespace', async () => {
+		const { toolRegistry } = await import('../tools/registry.js');
+		const { TaskManagerCreateProjectTool } = await import('../tools/task-management/create-project.js');
+		const tool = toolRegistry.get('chonky-memory-store');
+		assert.ok(tool);
+		const context = (args: Record<string, unknown>) => ({
+			arguments: args,
+			sessionId: 'guardrail-test',
+			workspaceRoot,
+			sendProgress: async () => {}
+		});
+
+		await new TaskManagerCreateProjectTool().execute(context({ name: 'guarded' }));
+
+		const write = await tool.execute(context({ operation: 'set', namespace: 'chonky-task-manager', key: 'tasks.activeproject', value: 'clobbered' }));
+		assert.strictEqual(write.success, false);
+		assert.match(write.result, /reserved for the task manager/);
+		const clear = await tool.execute(context({ operation: 'clear', namespace: 'Chonky-Task-Manager' }));
+		assert.strictEqual(clear.success, false);
+
+		const read = await tool.execute(context({ operation: 'get', namespace: 'chonky-task-manager', key: 'tasks.activeproject' }));
+		assert.strictEqual(read.result, 'guarded');
+
+		const scratch = await tool.execute(context({ operation: 'set', namespace: 'notes', key: 'audit.findings.high', value: ['reentrancy'] }));
+		assert.ok(scratch.success);
+		const query = await tool.execute(context({ operation: 'query', namespace: 'notes', pattern: 'audit.findings.*' }));
+		assert.deepStrictEqual(JSON.parse(query.result).results['audit.findings.high'], ['reentrancy']);
+	});
+
+	it('renders query results as table, tree and flat text', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const manager = new MemoryStoreManager();
+		manager.set('ns', 'audit.findings.high', ['reentrancy']);
+		manager.set('ns', 'audit.findings.low', 3);
+		manager.set('ns', 'audit.status', 'open');
+
+		assert.strictEqual(manager.query('ns', 'audit.**', { format: 'flat' }),
+			'audit.findings.high=["reentrancy"]\naudit.findings.low=3\naudit.status="open"');
+
+		assert.strictEqual(manager.query('ns', 'audit.**', { format: 'tree' }), [
+			'audit',
+			'├── findings',
+			'│   ├── high = ["reentrancy"]',
+			'│   └── low = 3',
+			'└── status = "open"'
+		].join('\n'));
+
+		const table = manager.query('ns', 'audit.findings.*', { format: 'table' }).split('\n');
+		assert.strictEqual(table[0], '| Key | Type | Size (bytes) | Modified |');
+		assert.match(table[2], /^\| audit\.findings\.high \| array \| 14 \| \d{4}-/);
+		assert.strictEqual(table.length, 4);
+
+		assert.strictEqual(manager.list('ns', { format: 'flat' }).split('\n').length, 3);
+		assert.strictEqual(manager.query('ns', 'missing.*', { format: 'tree' }), 'No keys match pattern "missing.*"');
+		assert.strictEqual(manager.query('ns', 'audit.**').count, 3);
+		manager.destroy();
+	});
+
+	it('treats dotted keys as paths that can be read and deleted as subtrees', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const manager = new MemoryStoreManager();
+		manager.set('ns', 'contracts.main.address', '0xabc');
+		manager.set('ns', 'contracts.main.abi', ['transfer']);
+		manager.set('ns', 'contracts.token', { symbol: 'CHK' });
+		manager.set('ns', 'contracts.token.decimals', 18);
+
+		assert.deepStrictEqual(manager.get('ns', 'contracts.main'), { address: '0xabc', abi: ['transfer'] });
+		assert.deepStrictEqual(manager.get('ns', 'contracts'), {
+			main: { address: '0xabc', abi: ['transfer'] },
+			token: { symbol: 'CHK', decimals: 18 }
+		});
+		assert.strictEqual(manager.get('ns', 'contracts.main.address'), '0xabc');
+
+		assert.throws(() => manager.set('ns', 'contracts.main.address.checksum', true), /'contracts\.main\.address' holds a string value/);
+		assert.throws(() => manager.set('ns', 'contracts.main', 'flat', { overwrite: true }), /has nested keys/);
+		assert.throws(() => manager.set('ns', 'audit.findings.high', [], { createPath: false }), /Parent path 'audit\.findings' does not exist/);
+		manager.set('ns', 'contracts.main.owner', '0xdef', { createPath: false });
+
+		assert.deepStrictEqual(manager.deletePath('ns', 'contracts.main').sort(), ['contracts.main.abi', 'contracts.main.address', 'contracts.main.owner']);
+		assert.strictEqual(manager.get('ns', 'contracts.main'), undefined);
+		assert.deepStrictEqual(Object.keys(manager.query('ns', '**').results), ['contracts.token', 'contracts.token.decimals']);
+		manager.destroy();
+	});
+
+	it('updates values atomically with cas, incr, append and merge', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const manager = new MemoryStoreManager();
+
+		assert.deepStrictEqual(manager.incr('ns', 'stats.runs'), { value: 1, version: 1 });
+		assert.deepStrictEqual(manager.incr('ns', 'stats.runs', 4), { value: 5, version: 2 });
+
+		manager.append('ns', 'audit.findings', { id: 1 });
+		assert.deepStrictEqual(manager.append('ns', 'audit.findings', { id: 2 }).value, [{ id: 1 }, { id: 2 }]);
+
+		manager.set('ns', 'config', { limits: { tasks: 10, depth: 3 }, tags: ['a'] });
+		assert.deepStrictEqual(manager.merge('ns', 'config', { limits: { tasks: 20 }, tags: ['b'] }).value, { limits: { tasks: 20, depth: 3 }, tags: ['b'] });
+		assert.throws(() => manager.incr('ns', 'config'), /holds an object value/);
+		assert.throws(() => manager.append('ns', 'stats.runs', 1), /holds a number value/);
+
+		const stale = manager.cas('ns', 'stats.runs', 100, { version: 1 });
+		assert.deepStrictEqual(stale, { swapped: false, value: 5, version: 2 });
+		assert.deepStrictEqual(manager.cas('ns', 'stats.runs', 6, { value: 5, version: 2 }), { swapped: true, value: 6, version: 3 });
+		assert.strictEqual(manager.cas('ns', 'lock', 'agent-a', { version: 0 }).swapped, true);
+		assert.strictEqual(manager.cas('ns', 'lock', 'agent-b', { version: 0 }).swapped, false);
+		assert.throws(() => manager.cas('ns', 'lock', 'agent-b', {}), /expected value or version/);
+		manager.destroy();
+	});
+
+	it('exposes compare-and-set through the memory store tool', async () => {
+		const { toolRegistry } = await import('../tools/registry.js');
+		const tool = toolRegistry.get('chonky-memory-store')!;
+		const run = async (args: Record<string, unknown>) => JSON.parse((await tool.execute({
+			arguments: { namespace: 'counters', key: 'builds', ...args },
+			sessionId: 'atomic-test',
+			workspaceRoot,
+			sendProgress: async () => {}
+		})).result);
+
+		assert.strictEqual((await run({ operation: 'set', value: 1 })).version, 1);
+		assert.strictEqual((await run({ operation: 'cas', value: 2, expected: 1 })).swapped, true);
+		const conflict = await run({ operation: 'cas', value: 3, expected: 1 });
+		assert.deepStrictEqual([conflict.success, conflict.value, conflict.version], [false, 2, 2]);
+		assert.strictEqual((await run({ operation: 'incr' })).value, 3);
+	});
+
+	it('enforces namespace quotas by rejecting or evicting entries', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const manager = new MemoryStoreManager();
+
+		manager.setQuota('strict', { maxKeys: 2 });
+		manager.set('strict', 'a', 1);
+		manager.set('strict', 'b', 2);
+		manager.set('strict', 'a', 3, { overwrite: true });
+		assert.throws(() => manager.set('strict', 'c', 4), /Namespace quota exceeded.*eviction policy "reject"/);
+		assert.throws(() => manager.setQuota('strict', { maxSize: 200 * 1024 * 1024 }), /maxSize must be/);
+
+		manager.setQuota('cache', { maxSize: 25, eviction: 'lru' });
+		manager.set('cache', 'first', 'x'.repeat(8));
+		manager.set('cache', 'second', 'y'.repeat(8));
+		manager.get('cache', 'first');
+		manager.set('cache', 'third', 'z'.repeat(8));
+		assert.strictEqual(manager.get('cache', 'second'), undefined);
+		assert.strictEqual(manager.get('cache', 'first'), 'xxxxxxxx');
+
+		const usage = manager.info('cache').quota!;
+		assert.deepStrictEqual(
+			[usage.maxSize, usage.eviction, usage.usedKeys, usage.usedSize, usage.evictedKeys],
+			[25, 'lru', 2, 20, 1]
+		);
+		assert.throws(() => manager.set('cache', 'huge', 'w'.repeat(40)), /Namespace quota exceeded/);
+		manager.destroy();
+	});
+
+	it('keeps every entry when a write does not fit even after evicting', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const { JsonFileStorageAdapter } = await import('../tools/utilities/storage/index.js');
+		const manager = new MemoryStoreManager();
+		const adapter = new JsonFileStorageAdapter(workspaceRoot);
+		manager.attachStorage('cache', adapter);
+
+		manager.setQuota('cache', { maxSize: 200, eviction: 'lru' });
+		manager.set('cache', 'a', 'x'.repeat(20));
+		manager.set('cache', 'b', 'y'.repeat(20));
+		manager.set('cache', 'c', 'z'.repeat(20));
+		assert.throws(() => manager.set('cache', 'huge', 'w'.repeat(500)), /Namespace quota exceeded/);
+
+		assert.deepStrictEqual(['a', 'b', 'c'].map(key => manager.get('cache', key)), ['x'.repeat(20), 'y'.repeat(20), 'z'.repeat(20)]);
+		assert.deepStrictEqual(Object.keys(adapter.load('cache')!.data).sort(), ['a', 'b', 'c']);
+		assert.strictEqual(manager.info('cache').quota!.evictedKeys, 0);
+		manager.destroy();
+		adapter.close();
+	});
+
+	it('keeps memory and disk unchanged when writing to disk fails', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const { JsonFileStorageAdapter } = await import('../tools/utilities/storage/index.js');
+		const manager = new MemoryStoreManager();
+		const adapter = new JsonFileStorageAdapter(workspaceRoot);
+		manager.attachStorage('ns', adapter);
+		manager.set('ns', 'a', 1);
+
+		// A directory in place of the temporary file makes every write fail
+		const tempPath = `${adapter.getFilePath('ns')}.${process.pid}.tmp`;
+		fs.mkdirSync(tempPath);
+		assert.throws(() => manager.set('ns', 'a', 2));
+		assert.throws(() => manager.set('ns', 'b', 2));
+		assert.throws(() => manager.delete('ns', 'a'));
+		assert.throws(() => manager.clear('ns'));
+		assert.strictEqual(manager.get('ns', 'a'), 1);
+		assert.strictEqual(manager.get('ns', 'b'), undefined);
+
+		fs.rmdirSync(tempPath);
+		manager.set('ns', 'c', 3);
+		const persisted = adapter.load('ns')!.data;
+		assert.deepStrictEqual(Object.keys(persisted).sort(), ['a', 'c']);
+		assert.strictEqual(persisted.a.value, 1);
+		manager.destroy();
+		adapter.close();
+	});
+
+	it('notifies subscribers about changes of matching keys', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const manager = new MemoryStoreManager();
+		const events: string[] = [];
+		const id = manager.subscribe('ns', 'tasks.projects.*', event => events.push(`${event.operation} ${event.key} ${event.version ?? ''}`.trim()));
+
+		manager.set('ns', 'tasks.projects.demo', { name: 'demo' });
+		manager.set('ns', 'tasks.projects.demo', { name: 'demo', revision: 1 }, { overwrite: true });
+		manager.set('ns', 'tasks.activeproject', 'demo');
+		manager.set('other', 'tasks.projects.demo', { name: 'elsewhere' });
+		manager.delete('ns', 'tasks.projects.demo');
+		manager.clear('ns');
+		assert.ok(manager.unsubscribe(id));
+		manager.set('ns', 'tasks.projects.late', {});
+
+		assert.deepStrictEqual(events, ['set tasks.projects.demo 1', 'set tasks.projects.demo 2', 'delete tasks.projects.demo', 'clear *']);
+		manager.destroy();
+	});
+
+	it('delivers task project changes to memory store subscriptions', async () => {
+		const { toolRegistry } = await import('../tools/registry.js');
+		const { TaskManagerCreateProjectTool } = await import('../tools/task-management/create-project.js');
+		const { MEMORY_CHANGE_NOTIFICATION } = await import('../tools/utilities/memory-store.js');
+		const tool = toolRegistry.get('chonky-memory-store')!;
+		const notifications: Array<{ method: string; params: Record<string, unknown> }> = [];
+		const context = (sessionId: string, args: Record<string, unknown>, notify = false) => ({
+			arguments: args,
+			sessionId,
+			workspaceRoot,
+			sendProgress: async () => {},
+			...(notify ? { sendNotification: async (notification: { method: string; params: Record<string, unknown> }) => { notifications.push(notification); } } : {})
+		});
+		const subscribe = async (notify: boolean) => JSON.parse((await tool.execute(context('watcher', {
+			operation: 'subscribe', namespace: 'chonky-task-manager', pattern: 'tasks.projects.*'
+		}, notify))).result).subscriptionId;
+
+		const polled = await subscribe(false);
+		const pushed = await subscribe(true);
+		await new TaskManagerCreateProjectTool().execute(context('writer', { name: 'watched' }));
+
+		const changes = JSON.parse((await tool.execute(context('watcher', { operation: 'changes', namespace: 'chonky-task-manager', subscriptionId: polled }))).result);
+		assert.deepStrictEqual(changes.changes.map((change: { operation: string; key: string }) => `${change.operation} ${change.key}`), ['set tasks.projects.watched']);
+		assert.deepStrictEqual(notifications.map(notification => [notification.method, notification.params.key, notification.params.subscriptionId]), [
+			[MEMORY_CHANGE_NOTIFICATION, 'tasks.projects.watched', pushed]
+		]);
+
+		// Other sessions can neither poll nor end the subscriptions
+		assert.match(polled, /^sub-[0-9a-f-]{36}$/);
+		for (const operation of ['changes', 'unsubscribe']) {
+			const foreign = await tool.execute(context('intruder', { operation, namespace: 'chonky-task-manager', subscriptionId: polled }));
+			assert.strictEqual(foreign.success, false);
+			assert.match(foreign.result, /Unknown subscription/);
+		}
+
+		for (const subscriptionId of [polled, pushed]) {
+			assert.ok((await tool.execute(context('watcher', { operation: 'unsubscribe', namespace: 'chonky-task-manager', subscriptionId }))).success);
+		}
+		assert.strictEqual((await tool.execute(context('watcher', { operation: 'changes', namespace: 'chonky-task-manager', subscriptionId: polled }))).success, false);
+	});
+
+	it('ends the subscriptions of a session whose client disconnected', async () => {
+		const { MemoryStoreTool } = await import('../tools/utilities/memory-store.js');
+		const tool = new MemoryStoreTool();
+		const run = async (sessionId: string, args: Record<string, unknown>) =>
+			tool.execute({ arguments: { namespace: 'quiet', ...args }, sessionId, workspaceRoot, sendProgress: async () => {} });
+		const subscribe = async (sessionId: string) => JSON.parse((await run(sessionId, { operation: 'subscribe', pattern: '*' })).result).subscriptionId;
+
+		const gone = [await subscribe('gone'), await subscribe('gone')];
+		const kept = await subscribe('kept');
+		assert.strictEqual(MemoryStoreTool.unsubscribeSession('gone'), 2);
+
+		for (const subscriptionId of gone) {
+			assert.match((await run('gone', { operation: 'changes', subscriptionId })).result, /Unknown subscription/);
+		}
+		await run('kept', { operation: 'set', key: 'note', value: 'still watched' });
+		const changes = JSON.parse((await run('kept', { operation: 'changes', subscriptionId: kept })).result);
+		assert.deepStrictEqual(changes.changes.map((change: { key: string }) => change.key), ['note']);
+		assert.strictEqual(MemoryStoreTool.unsubscribeSession('kept'), 1);
+	});
+});
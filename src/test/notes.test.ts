@@ -0,0 +1,84 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import { createToolRunner } from './helpers.js';
+
+describe('Note History Test Suite', () => {
+	const { execute, run } = createToolRunner('notes-test');
+
+	it('records structured notes and filters and pages them in get-task', async () => {
+		await run('chonky-task-manager-create-project', { name: 'notes' });
+		await run('chonky-task-manager-add-task', { project: 'notes', title: 'Vault', description: 'Review vault' });
+
+		await run('chonky-task-manager-update-task', { project: 'notes', taskId: '1', status: 'in-progress', notes: 'Starting', agent: 'alice' });
+		await run('chonky-task-manager-update-task', { project: 'notes', taskId: '1', notes: 'Checked deposits', agent: 'alice' });
+		await run('chonky-task-manager-update-task', { project: 'notes', taskId: '1', status: 'blocked', notes: 'Need the audit scope', agent: 'bob' });
+		await run('chonky-task-manager-update-task', { project: 'notes', taskId: '1', notes: 'Scope still unclear', noteKind: 'blocker' });
+		await run('chonky-task-manager-update-task', { project: 'notes', taskId: '1', status: 'done', notes: 'Vault verified', agent: 'alice' });
+
+		const all = await run('chonky-task-manager-get-task', { project: 'notes', taskId: '1' });
+		const entries = all.metadata!.entity.notes;
+		assert.deepStrictEqual(entries.map((entry: any) => entry.kind), ['status-change', 'progress', 'blocker', 'blocker', 'completion-proof']);
+		assert.deepStrictEqual(entries[2].transition, { from: 'in-progress', to: 'blocked' });
+		assert.strictEqual(entries[2].author, 'bob');
+		assert.strictEqual(entries[3].author, 'notes-test');
+		assert.strictEqual(entries[3].sessionId, 'notes-test');
+		assert.ok(all.result.includes('Showing 1-5 of 5 notes, most recent first'));
+		assert.ok(all.result.includes('✅ completion-proof (alice): blocked → done\nVault verified'));
+
+		const blockers = await run('chonky-task-manager-get-task', { project: 'notes', taskId: '1', noteKinds: ['blocker'], notesLimit: 1 });
+		assert.strictEqual(blockers.metadata!.notes.matching, 2);
+		assert.deepStrictEqual(blockers.metadata!.notes.entries.map((entry: any) => entry.text), ['Scope still unclear']);
+		assert.ok(blockers.result.includes('... 1 older notes not shown (use notesOffset: 1)'));
+
+		const older = await run('chonky-task-manager-get-task', { project: 'notes', taskId: '1', noteKinds: ['blocker'], notesLimit: 1, notesOffset: 1 });
+		assert.deepStrictEqual(older.metadata!.notes.entries.map((entry: any) => entry.text), ['Need the audit scope']);
+
+		const byAlice = await run('chonky-task-manager-get-task', { project: 'notes', taskId: '1', noteAuthor: 'alice' });
+		assert.strictEqual(byAlice.metadata!.notes.matching, 3);
+
+		for (const noteKinds of [['rant'], 'blocker']) {
+			await assert.rejects(execute('chonky-task-manager-get-task', { project: 'notes', taskId: '1', noteKinds }), /Invalid input/);
+		}
+		for (const [argument, value] of [['notesLimit', 0], ['notesLimit', 2.5], ['notesLimit', Infinity], ['notesOffset', -1], ['notesOffset', NaN]] as const) {
+			await assert.rejects(execute('chonky-task-manager-get-task', { project: 'notes', taskId: '1', [argument]: value }), /Invalid input/);
+		}
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'notes', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+	});
+
+	it('migrates notes stored as one string', async () => {
+		const { getNoteEntries, formatNoteEntries, parseNoteEntries } = await import('../tools/task-management/notes.js');
+		const { applyProjectEvent } = await import('../tools/task-management/events.js');
+		const task = {
+			id: 1,
+			title: 'Oracle',
+			description: 'Review oracle',
+			status: 'in-progress' as const,
+			priority: 'high' as const,
+			dependencies: [],
+			subtasks: [],
+			notes: 'Imported from the plan\n\n' +
+				'[2026-01-02T10:00:00.000Z] Status: pending → in-progress\nStarted review\n\nSecond paragraph\n\n' +
+				'[2026-01-03T10:00:00.000Z] Found stale price',
+			created: '2026-01-01T00:00:00.000Z',
+			updated: '2026-01-03T10:00:00.000Z'
+		};
+
+		const entries = getNoteEntries(task);
+		assert.deepStrictEqual(entries, [
+			{ timestamp: '2026-01-01T00:00:00.000Z', kind: 'progress', text: 'Imported from the plan' },
+			{ timestamp: '2026-01-02T10:00:00.000Z', kind: 'status-change', text: 'Started review\n\nSecond paragraph', transition: { from: 'pending', to: 'in-progress' } },
+			{ timestamp: '2026-01-03T10:00:00.000Z', kind: 'progress', text: 'Found stale price' }
+		]);
+		assert.deepStrictEqual(parseNoteEntries(formatNoteEntries(entries), 'unused'), entries);
+
+		const project = { name: 'legacy', tasks: [task], nextId: 2, created: task.created, updated: task.updated };
+		const entry = { timestamp: '2026-01-04T10:00:00.000Z', kind: 'blocker' as const, text: 'Waiting for feed docs', author: 'alice' };
+		applyProjectEvent(project, {
+			type: 'NotesAppended', taskId: '1', entry,
+			seq: 4, revision: 4, timestamp: entry.timestamp, sessionId: 'notes-test', tool: 'chonky-task-manager-update-task'
+		});
+		assert.deepStrictEqual(project.tasks[0].notes, [...entries, entry]);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import { ToolExecutionContext } from '../tools/types.js';
+import { createToolRunner } from './helpers.js';
+
+describe('Project Event Log Test Suite', () => {
+	const { createContext, run } = createToolRunner('events-test');
+
+	it('records every mutation and replays to the stored state', async () => {
+		await run('chonky-task-manager-create-project', { name: 'events' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'events',
+			tasks: [
+				{ title: 'Design', description: 'Design the API' },
+				{ title: 'Build', description: 'Build the API', dependencies: [1] }
+			]
+		});
+		await run('chonky-task-manager-add-task', { project: 'events', title: 'Schema', description: 'Define schema', parentTaskId: 1 });
+		await run('chonky-task-manager-update-task', { project: 'events', taskId: '1.1', status: 'in-progress', notes: 'Started' });
+		await run('chonky-task-manager-update-task', { project: 'events', taskId: '1.1', status: 'done', notes: 'Schema completed' });
+		await run('chonky-task-manager-manage-dependencies', { project: 'events', taskId: 2, operation: 'remove', dependencyId: 1 });
+
+		const log = await run('chonky-task-manager-project-history', { project: 'events', limit: 100 });
+		const types = log.metadata!.events.map((event: any) => event.type).reverse();
+		assert.deepStrictEqual(types, [
+			'ProjectCreated', 'TaskAdded', 'TaskAdded', 'SubtaskAdded',
+			'StatusChanged', 'NotesAppended', 'StatusChanged',
+			'StatusChanged', 'NotesAppended', 'StatusChanged',
+			'DependencyRemoved'
+		]);
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'events', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+		assert.strictEqual(replay.metadata!.replayedProject.tasks[0].status, 'review');
+
+		const earlier = await run('chonky-task-manager-project-history', { project: 'events', operation: 'replay', untilSeq: 4 });
+		assert.strictEqual(earlier.metadata!.replayedProject.tasks[0].subtasks[0].status, 'pending');
+		assert.deepStrictEqual(earlier.metadata!.replayedProject.tasks[1].dependencies, [1]);
+	});
+
+	it('stores the log in bounded chunks and moves logs stored as one array into chunks', async () => {
+		const { MemoryStoreTool } = await import('../tools/utilities/memory-store.js');
+		const { EVENT_CHUNK_MAX_EVENTS, loadProjectEvents } = await import('../tools/task-management/project-store.js');
+		const store = new MemoryStoreTool();
+		const context = (args: Record<string, any>) => createContext({ namespace: 'chonky-task-manager', ...args });
+		const head = async () => JSON.parse((await store.execute(context({ operation: 'get', key: 'tasks.events.chunked' }))).result);
+
+		await run('chonky-task-manager-create-project', { name: 'chunked' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'chunked',
+			tasks: Array.from({ length: EVENT_CHUNK_MAX_EVENTS + 10 }, (_, index) => ({ title: `Task ${index + 1}`, description: 'Something to do' }))
+		});
+		assert.deepStrictEqual(await head(), { chunks: 2, lastSeq: EVENT_CHUNK_MAX_EVENTS + 11 });
+
+		// Logs written before chunking kept every event in one array under the head key
+		const events = await loadProjectEvents(store, context({}), 'chunked');
+		await store.execute(context({ operation: 'delete', key: 'tasks.eventlog.chunked' }));
+		await store.execute(context({ operation: 'set', key: 'tasks.events.chunked', value: events }));
+		assert.strictEqual((await loadProjectEvents(store, context({}), 'chunked')).length, events.length);
+
+		await run('chonky-task-manager-update-task', { project: 'chunked', taskId: '1', status: 'in-progress', notes: 'Started' });
+		assert.deepStrictEqual(await head(), { chunks: 2, lastSeq: EVENT_CHUNK_MAX_EVENTS + 13 });
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'chunked', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+	});
+
+	it('fails the save and keeps the previous state when the events cannot be recorded', async () => {
+		const { MemoryStoreTool } = await import('../tools/utilities/memory-store.js');
+		const { saveProject, loadProjectEvents } = await import('../tools/task-management/project-store.js');
+
+		// Simulates a full namespace: event chunks can't be written
+		class FullEventLogStore extends MemoryStoreTool {
+			async execute(context: ToolExecutionContext) {
+				if (context.arguments.operation === 'set' && String(context.arguments.key).startsWith('tasks.eventlog.')) {
+					return { success: false, result: 'Error: Memory store error: Namespace quota exceeded' };
+				}
+				return super.execute(context);
+			}
+		}
+
+		await run('chonky-task-manager-create-project', { name: 'full-log' });
+		const context = createContext({});
+		const project = { name: 'full-log', tasks: [], nextId: 2, revision: 1, created: '2026-01-01T00:00:00.000Z', updated: '2026-01-01T00:00:00.000Z' };
+
+		const result = await saveProject(new FullEventLogStore(), context, 'full-log', project, {
+			tool: 'test',
+			events: [{ type: 'ProjectArchived' }]
+		});
+		assert.ok(!result.success);
+		assert.ok(result.result.includes('Failed to record project events'));
+		assert.strictEqual(project.revision, 1);
+
+		const stored = await new MemoryStoreTool().execute({ ...context, arguments: { operation: 'get', key: 'tasks.projects.full-log', namespace: 'chonky-task-manager' } });
+		assert.strictEqual(JSON.parse(stored.result).revision, 1);
+		assert.strictEqual(JSON.parse(stored.result).archived, undefined);
+		assert.strictEqual((await loadProjectEvents(new MemoryStoreTool(), context, 'full-log')).length, 1);
+		const replay = await run('chonky-task-manager-project-history', { project: 'full-log', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, it, before } from 'mocha';
+import * as assert from 'assert';
+import { createToolRunner } from './helpers.js';
+
+describe('Project Revision Test Suite', () => {
+	const { createContext, run } = createToolRunner('revisions-test');
+
+	const loadProject = async (name: string) => {
+		const { MemoryStoreTool } = await import('../tools/utilities/memory-store.js');
+		const result = await new MemoryStoreTool().execute(createContext({
+			operation: 'get',
+			key: `tasks.projects.${name}`,
+			namespace: 'chonky-task-manager'
+		}));
+		return JSON.parse(result.result);
+	};
+
+	before(async () => {
+		await run('chonky-task-manager-create-project', { name: 'revisions' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'revisions',
+			tasks: [
+				{ title: 'First', description: 'First task' },
+				{ title: 'Second', description: 'Second task' }
+			]
+		});
+	});
+
+	it('increments the revision on every save', async () => {
+		const before = await loadProject('revisions');
+		await run('chonky-task-manager-update-task', { project: 'revisions', taskId: '1', status: 'in-progress', notes: 'Started' });
+		const after = await loadProject('revisions');
+
+		assert.strictEqual(after.revision, before.revision + 1);
+	});
+
+	it('rejects a write based on a stale revision and names the changed task', async () => {
+		const { saveProject } = await import('../tools/task-management/project-store.js');
+		const { MemoryStoreTool } = await import('../tools/utilities/memory-store.js');
+		const { ProjectConflictError } = await import('../utils/errors.js');
+
+		const stale = await loadProject('revisions');
+		await run('chonky-task-manager-update-task', { project: 'revisions', taskId: '2', status: 'blocked', notes: 'Waiting on review' });
+
+		stale.tasks[0].title = 'Overwritten';
+		await assert.rejects(
+			saveProject(new MemoryStoreTool(), createContext({}), 'revisions', stale, { tool: 'test', events: [] }),
+			(error: any) => {
+				assert.ok(error instanceof ProjectConflictError);
+				assert.strictEqual(error.expectedRevision, stale.revision);
+				assert.strictEqual(error.actualRevision, stale.revision + 1);
+				assert.deepStrictEqual(error.changedTasks, ['2']);
+				assert.match(error.message, /#2/);
+				return true;
+			}
+		);
+
+		const current = await loadProject('revisions');
+		assert.strictEqual(current.tasks[0].title, 'First');
+		assert.strictEqual(current.tasks[1].status, 'blocked');
+	});
+
+	it('rejects updates with an outdated expectedRevision', async () => {
+		const { toolRegistry } = await import('../tools/registry.js');
+		const current = await loadProject('revisions');
+
+		await assert.rejects(
+			toolRegistry.get('chonky-task-manager-update-task')!.execute(createContext({
+				project: 'revisions', taskId: '1', notes: 'Late note', expectedRevision: current.revision - 1
+			})),
+			/Conflict: project "revisions" was modified concurrently/
+		);
+
+		const result = await run('chonky-task-manager-update-task', {
+			project: 'revisions', taskId: '1', notes: 'Fresh note', expectedRevision: current.revision
+		});
+		assert.strictEqual(result.metadata!.revision, current.revision + 1);
+	});
+});
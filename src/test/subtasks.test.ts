@@ -0,0 +1,117 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createToolRunner } from './helpers.js';
+
+describe('Subtask Hierarchy Test Suite', () => {
+	const runner = createToolRunner('subtasks-test');
+	const { execute, run } = runner;
+
+	it('nests subtasks below subtasks and rolls status up every level', async () => {
+		await run('chonky-task-manager-create-project', { name: 'nested' });
+		await run('chonky-task-manager-add-task', { project: 'nested', title: 'Audit', description: 'Audit the protocol' });
+		await run('chonky-task-manager-add-task', { project: 'nested', title: 'Vault', description: 'Review the vault', parentTaskId: 1 });
+		const added = await run('chonky-task-manager-add-task', { project: 'nested', title: 'Withdraw', description: 'Review withdraw', parentTaskId: '1.1' });
+		assert.strictEqual(added.metadata!.taskId, '1.1.1');
+
+		const details = await run('chonky-task-manager-get-task', { project: 'nested', taskId: '1.1.1' });
+		assert.strictEqual(details.metadata!.parentTaskId, '1.1');
+		assert.ok(details.result.includes('**Parent Subtask:** #1.1 - Vault'));
+
+		const update = await run('chonky-task-manager-update-task', { project: 'nested', taskId: '1.1.1', status: 'in-progress', notes: 'Reading withdraw' });
+		assert.ok(update.result.includes('Parent subtask #1.1 status updated to in-progress'));
+		assert.ok(update.result.includes('Parent task #1 status updated to in-progress'));
+
+		const blocked = await execute('chonky-task-manager-update-task', { project: 'nested', taskId: '1.1', status: 'done', notes: 'Vault done' });
+		assert.ok(!blocked.success);
+		assert.ok(blocked.result.includes('Subtasks not in final state: 1.1.1'));
+
+		const list = await run('chonky-task-manager-list-tasks', { project: 'nested', withSubtasks: true });
+		assert.ok(list.result.includes('| 1.1.1 | 🔵 in-progress | 🟡 medium | ↳ ↳ Withdraw |'));
+		assert.strictEqual(list.metadata!.stats.totalSubtasks, 2);
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'nested', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+	});
+
+	it('keeps priority, success criteria and timestamps on subtasks and requires completion proof', async () => {
+		await run('chonky-task-manager-create-project', { name: 'parity' });
+		await run('chonky-task-manager-add-task', { project: 'parity', title: 'Audit', description: 'Audit the protocol' });
+		const added = await run('chonky-task-manager-add-task', {
+			project: 'parity',
+			title: 'Oracle',
+			description: 'Review the oracle',
+			parentTaskId: 1,
+			priority: 'high',
+			successCriteria: 'Stale prices are rejected'
+		});
+		const subtask = added.metadata!.task;
+		assert.strictEqual(subtask.priority, 'high');
+		assert.strictEqual(subtask.successCriteria, 'Stale prices are rejected');
+		assert.ok(subtask.created && subtask.updated);
+
+		const rejected = await execute('chonky-task-manager-update-task', { project: 'parity', taskId: '1.1', status: 'done', notes: 'Looks fine' });
+		assert.ok(!rejected.success);
+		assert.ok(rejected.result.includes('Subtask has defined successCriteria'));
+
+		await run('chonky-task-manager-update-task', { project: 'parity', taskId: '1.1', status: 'done', notes: 'COMPLETION PROOF: verified stale prices revert' });
+		const details = await run('chonky-task-manager-get-task', { project: 'parity', taskId: '1.1' });
+		assert.ok(details.result.includes('**Priority:** 🔴 high'));
+		assert.ok(details.result.includes('## Success Criteria\nStale prices are rejected'));
+	});
+
+	it('enforces dependencies between subtasks of different tasks', async () => {
+		await run('chonky-task-manager-create-project', { name: 'crosslevel' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'crosslevel',
+			tasks: [
+				{ title: 'Contracts', description: 'Review contracts' },
+				{ title: 'Frontend', description: 'Review frontend' }
+			]
+		});
+		await run('chonky-task-manager-add-task', { project: 'crosslevel', title: 'Vault', description: 'Review vault', parentTaskId: 1 });
+		await run('chonky-task-manager-add-task', { project: 'crosslevel', title: 'Deposit form', description: 'Review deposit form', parentTaskId: 2 });
+		const report = await run('chonky-task-manager-add-task', { project: 'crosslevel', title: 'Report', description: 'Write report', priority: 'high', dependencies: ['1.1'] });
+
+		let next = await run('chonky-task-manager-next-task', { project: 'crosslevel' });
+		assert.strictEqual(next.metadata!.nextTask.id, 1);
+
+		await run('chonky-task-manager-manage-dependencies', { project: 'crosslevel', taskId: '2.1', operation: 'add', dependencyId: '1.1' });
+		const early = await execute('chonky-task-manager-update-task', { project: 'crosslevel', taskId: '2.1', status: 'done', notes: 'Form reviewed' });
+		assert.ok(!early.success);
+		assert.ok(early.result.includes('Incomplete dependencies: 1.1'));
+
+		// 1.1 → 2 → 2.1 → 1.1, since a task waits for its subtasks
+		const cycle = await execute('chonky-task-manager-manage-dependencies', { project: 'crosslevel', taskId: '1.1', operation: 'add', dependencyId: 2 });
+		assert.ok(!cycle.success);
+		assert.ok(cycle.result.includes('Circular dependency detected'));
+
+		await run('chonky-task-manager-update-task', { project: 'crosslevel', taskId: '1.1', status: 'done', notes: 'Vault reviewed' });
+		await run('chonky-task-manager-update-task', { project: 'crosslevel', taskId: '2.1', status: 'done', notes: 'Form reviewed' });
+		next = await run('chonky-task-manager-next-task', { project: 'crosslevel' });
+		assert.strictEqual(next.metadata!.nextTask.id, report.metadata!.task.id);
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'crosslevel', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+		assert.deepStrictEqual(replay.metadata!.replayedProject.tasks[1].subtasks[0].dependencies, ['1.1']);
+	});
+
+	it('imports nested subtask files', async () => {
+		const folder = path.join(runner.workspaceRoot, 'plan');
+		fs.mkdirSync(folder);
+		fs.writeFileSync(path.join(folder, 'task1.md'), '---\ntitle: "Parent"\n---\n\nParent task\n');
+		fs.writeFileSync(path.join(folder, 'task1-1.md'), '---\ntitle: "Child"\npriority: "high"\n---\n\nChild task\n\n## Success Criteria\nChild is verified\n');
+		fs.writeFileSync(path.join(folder, 'task1-1-1.md'), '---\ntitle: "Grandchild"\n---\n\nGrandchild task\n');
+
+		const result = await run('chonky-task-manager-import-folder', { folderPath: folder, projectName: 'nested-import' });
+		assert.strictEqual(result.metadata!.subtasks, 2);
+
+		const grandchild = await run('chonky-task-manager-get-task', { project: 'nested-import', taskId: '1.1.1' });
+		assert.strictEqual(grandchild.metadata!.entity.title, 'Grandchild');
+
+		const child = await run('chonky-task-manager-get-task', { project: 'nested-import', taskId: '1.1' });
+		assert.strictEqual(child.metadata!.entity.priority, 'high');
+		assert.strictEqual(child.metadata!.entity.successCriteria, 'Child is verified');
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createToolRunner } from './helpers.js';
+
+describe('Task Tags Test Suite', () => {
+	const runner = createToolRunner('tags-test');
+	const { run } = runner;
+
+	it('stores normalized tags and filters list-tasks and next-task by them', async () => {
+		await run('chonky-task-manager-create-project', { name: 'tagged' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'tagged',
+			tasks: [
+				{ title: 'Access control', description: 'Review roles', priority: 'high', tags: ['Security', 'contracts', 'security'] },
+				{ title: 'Landing page', description: 'Review copy', tags: ['frontend'] },
+				{ title: 'XSS', description: 'Check escaping', tags: ['security', 'frontend'] }
+			]
+		});
+		const subtask = await run('chonky-task-manager-add-task', { project: 'tagged', title: 'Owner', description: 'Check owner', parentTaskId: 1, tags: [' Security '] });
+		assert.deepStrictEqual(subtask.metadata!.task.tags, ['security']);
+
+		const details = await run('chonky-task-manager-get-task', { project: 'tagged', taskId: '1' });
+		assert.ok(details.result.includes('**Tags:** security, contracts'));
+
+		let list = await run('chonky-task-manager-list-tasks', { project: 'tagged', tags: { any: ['security'], none: ['contracts'] } });
+		assert.deepStrictEqual(list.metadata!.tasks.map((task: any) => task.id), [3]);
+		assert.ok(list.result.includes('| XSS 🏷️ security, frontend |'));
+
+		list = await run('chonky-task-manager-list-tasks', { project: 'tagged', tags: { all: ['frontend', 'security'] } });
+		assert.deepStrictEqual(list.metadata!.tasks.map((task: any) => task.id), [3]);
+		assert.deepStrictEqual(list.metadata!.stats.tagCounts.security, { total: 3, done: 0 });
+		assert.ok(list.result.includes('- 🏷️ frontend: 2 (0 done)'));
+
+		let next = await run('chonky-task-manager-next-task', { project: 'tagged' });
+		assert.strictEqual(next.metadata!.nextTask.id, 1);
+		next = await run('chonky-task-manager-next-task', { project: 'tagged', tags: { any: ['frontend'] } });
+		assert.strictEqual(next.metadata!.nextTask.id, 2);
+		next = await run('chonky-task-manager-next-task', { project: 'tagged', tags: { all: ['docs'] } });
+		assert.strictEqual(next.metadata!.nextTask, null);
+	});
+
+	it('reads tags from task file frontmatter', async () => {
+		const folder = path.join(runner.workspaceRoot, 'plan');
+		fs.mkdirSync(folder);
+		fs.writeFileSync(path.join(folder, 'task1.md'), '---\ntitle: "Oracle"\ntags: [oracle, Security]\n---\n\nReview the oracle\n');
+		fs.writeFileSync(path.join(folder, 'task2.md'), '---\ntitle: "Docs"\ntags: ["docs"]\n---\n\nWrite docs\n');
+
+		await run('chonky-task-manager-import-folder', { folderPath: folder, projectName: 'tagged-import' });
+		const oracle = await run('chonky-task-manager-get-task', { project: 'tagged-import', taskId: '1' });
+		assert.deepStrictEqual(oracle.metadata!.entity.tags, ['oracle', 'security']);
+		const docs = await run('chonky-task-manager-get-task', { project: 'tagged-import', taskId: '2' });
+		assert.deepStrictEqual(docs.metadata!.entity.tags, ['docs']);
+	});
+});
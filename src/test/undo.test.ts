@@ -0,0 +1,74 @@
+import { describe, it, before } from 'mocha';
+import * as assert from 'assert';
+import { createToolRunner } from './helpers.js';
+
+describe('Undo Test Suite', () => {
+	const { execute, run } = createToolRunner('undo-test');
+
+	const statuses = async () => {
+		const list = await run('chonky-task-manager-list-tasks', { project: 'undoable', outputFormat: 'json' });
+		return list.metadata!.tasks.map((task: any) => task.status);
+	};
+
+	before(async () => {
+		await run('chonky-task-manager-create-project', { name: 'undoable' });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'undoable',
+			tasks: [
+				{ title: 'One', description: 'First' },
+				{ title: 'Two', description: 'Second' },
+				{ title: 'Three', description: 'Third' }
+			]
+		});
+		for (const taskId of ['1', '2', '3']) {
+			await run('chonky-task-manager-update-task', { project: 'undoable', taskId, status: 'cancelled', notes: 'Not needed' });
+		}
+	});
+
+	it('previews without changing the project', async () => {
+		const preview = await run('chonky-task-manager-undo', { project: 'undoable', steps: 3, preview: true });
+
+		const statusChanges = preview.metadata!.differences.filter((change: string) => change.includes('status'));
+		assert.strictEqual(statusChanges.length, 3);
+		assert.match(preview.result, /#1 status cancelled → pending/);
+		assert.deepStrictEqual(await statuses(), ['cancelled', 'cancelled', 'cancelled']);
+	});
+
+	it('reverts the last mutations and re-applies them with redo', async () => {
+		await run('chonky-task-manager-undo', { project: 'undoable', steps: 3 });
+		assert.deepStrictEqual(await statuses(), ['pending', 'pending', 'pending']);
+
+		await run('chonky-task-manager-undo', { project: 'undoable', operation: 'redo', steps: 2 });
+		assert.deepStrictEqual(await statuses(), ['cancelled', 'cancelled', 'pending']);
+
+		await run('chonky-task-manager-undo', { project: 'undoable', operation: 'redo' });
+		assert.deepStrictEqual(await statuses(), ['cancelled', 'cancelled', 'cancelled']);
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'undoable', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+	});
+
+	it('drops the redo history on a new mutation', async () => {
+		await run('chonky-task-manager-undo', { project: 'undoable' });
+		await run('chonky-task-manager-update-task', { project: 'undoable', taskId: '3', status: 'in-progress', notes: 'Needed after all' });
+
+		const redo = await execute('chonky-task-manager-undo', { project: 'undoable', operation: 'redo' });
+		assert.strictEqual(redo.success, false);
+		assert.match(redo.result, /Nothing to redo/);
+	});
+
+	it('drops the oldest snapshots when the history grows too large', async () => {
+		const { trimUndoHistory, MAX_UNDO_HISTORY_BYTES } = await import('../tools/task-management/undo-history.js');
+		const snapshot = (name: string) => ({
+			project: { name, tasks: [], nextId: 1, created: 'x'.repeat(MAX_UNDO_HISTORY_BYTES / 4), updated: '' },
+			timestamp: '2026-01-01T00:00:00.000Z',
+			sessionId: 'undo-test',
+			tool: 'chonky-task-manager-update-task',
+			changes: []
+		});
+
+		const trimmed = trimUndoHistory({ undo: ['a', 'b', 'c', 'd'].map(snapshot), redo: [snapshot('e'), snapshot('f')] });
+		assert.deepStrictEqual(trimmed.undo.map(entry => entry.project.name), ['d']);
+		assert.deepStrictEqual(trimmed.redo.map(entry => entry.project.name), ['e', 'f']);
+	});
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+
+describe('Value Filter Test Suite', () => {
+	const finding = {
+		title: 'Reentrancy in withdraw',
+		severity: 'high',
+		score: 8.5,
+		tags: ['security', 'defi'],
+		location: { file: 'Vault.sol', line: 42 },
+		resolved: false
+	};
+
+	it('evaluates comparisons, wildcards and boolean operators', async () => {
+		const { compileValueFilter } = await import('../tools/utilities/value-filter.js');
+		const matches = (expression: string) => compileValueFilter(expression)(finding);
+
+		assert.ok(matches('$.severity == "high" && $.score >= 7'));
+		assert.ok(matches("severity == 'high'"));
+		assert.ok(matches('$.tags[*] == "defi"'));
+		assert.ok(matches('$.tags contains "security"'));
+		assert.ok(matches('$.location.line in [41, 42]'));
+		assert.ok(matches('$["location"].file =~ /vault\\.sol$/i'));
+		assert.ok(matches('!$.resolved && ($.score < 5 || $.severity != "low")'));
+		assert.ok(!matches('$.missing.field == 1'));
+		assert.ok(!matches('$.score > "7"'));
+
+		// Global and sticky flags are ignored, so a filter gives the same answer every time
+		for (const flags of ['g', 'y', 'gy']) {
+			const filter = compileValueFilter(`$.title =~ /with/${flags}`);
+			assert.deepStrictEqual([filter(finding), filter(finding)], [true, true]);
+		}
+	});
+
+	it('reports the position of syntax errors', async () => {
+		const { compileValueFilter } = await import('../tools/utilities/value-filter.js');
+		assert.throws(() => compileValueFilter('$.severity == '), /Invalid filter expression.*end of expression/);
+		assert.throws(() => compileValueFilter('$.title =~ "x"'), /expects a regular expression like \/pattern\/i at position 11/);
+		assert.throws(() => compileValueFilter('$.a # 1'), /Unexpected character "#" at position 4/);
+	});
+
+	it('projects selected fields', async () => {
+		const { projectValue } = await import('../tools/utilities/value-filter.js');
+		assert.deepStrictEqual(projectValue(finding, ['title', 'location.file', '$.tags[*]', 'missing']), {
+			title: 'Reentrancy in withdraw',
+			'location.file': 'Vault.sol',
+			'$.tags[*]': ['security', 'defi']
+		});
+	});
+
+	it('filters and projects memory store queries', async () => {
+		const { MemoryStoreManager } = await import('../tools/utilities/memory-store.js');
+		const manager = new MemoryStoreManager();
+		manager.set('ns', 'audit.findings.f1', finding);
+		manager.set('ns', 'audit.findings.f2', { ...finding, title: 'Unchecked return', severity: 'low', score: 2 });
+
+		const result = manager.query('ns', 'audit.findings.*', { filter: '$.severity == "high"', fields: ['title', 'score'] });
+		assert.deepStrictEqual(result.results, { 'audit.findings.f1': { title: 'Reentrancy in withdraw', score: 8.5 } });
+		assert.strictEqual(manager.list('ns', { filter: '$.score < 5', format: 'flat', fields: ['title'] }), 'audit.findings.f2={"title":"Unchecked return"}');
+		manager.destroy();
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, it } from 'mocha';
+import * as assert from 'assert';
+import { createToolRunner } from './helpers.js';
+
+describe('Project Workflow Test Suite', () => {
+	const { execute, run } = createToolRunner('workflow-test');
+
+	const qaWorkflow = {
+		statuses: ['pending', 'in-progress', 'qa', 'done', 'wontfix'],
+		finalStatuses: ['done', 'wontfix'],
+		transitions: {
+			'pending': ['in-progress', 'wontfix'],
+			'in-progress': ['qa', 'pending'],
+			'qa': ['done', 'in-progress'],
+			'done': ['in-progress'],
+			'wontfix': ['pending']
+		}
+	};
+
+	it('enforces the transitions of a custom workflow', async () => {
+		await run('chonky-task-manager-create-project', { name: 'qa-flow', workflow: qaWorkflow });
+		await run('chonky-task-manager-batch-add-tasks', {
+			project: 'qa-flow',
+			tasks: [
+				{ title: 'Vault', description: 'Review vault' },
+				{ title: 'Legacy', description: 'Review legacy module' },
+				{ title: 'Report', description: 'Write report', dependencies: [1, 2] }
+			]
+		});
+
+		const skipped = await execute('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '1', status: 'done', notes: 'Done already' });
+		assert.ok(!skipped.success);
+		assert.ok(skipped.result.includes('Status "pending" cannot change to "done". Allowed from "pending": in-progress, wontfix.'));
+		assert.ok(skipped.result.includes('go through pending → in-progress → qa → done'));
+
+		const unknown = await execute('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '1', status: 'review', notes: 'Review please' });
+		assert.ok(!unknown.success);
+		assert.ok(unknown.result.includes('Unknown status "review"'));
+
+		await run('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '1', status: 'in-progress', notes: 'Starting' });
+		await run('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '1', status: 'qa', notes: 'Ready for QA' });
+		await run('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '1', status: 'done', notes: 'QA passed' });
+		await run('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '2', status: 'wontfix', notes: 'Out of scope' });
+
+		// Both custom final statuses satisfy the dependencies of task 3
+		const next = await run('chonky-task-manager-next-task', { project: 'qa-flow' });
+		assert.strictEqual(next.metadata!.nextTask.id, 3);
+		await run('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '3', status: 'in-progress', notes: 'Writing' });
+		await run('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '3', status: 'qa', notes: 'Proofreading' });
+		const done = await run('chonky-task-manager-update-task', { project: 'qa-flow', taskId: '3', status: 'done', notes: 'Report delivered' });
+		assert.ok(done.result.includes('PROJECT COMPLETE'));
+
+		const list = await run('chonky-task-manager-list-tasks', { project: 'qa-flow', status: 'wontfix' });
+		assert.strictEqual(list.metadata!.tasks.length, 1);
+		assert.ok(list.result.includes('- 🔹 Qa: 0'));
+		assert.ok(list.result.includes('- 🔹 Wontfix: 1'));
+
+		const replay = await run('chonky-task-manager-project-history', { project: 'qa-flow', operation: 'replay' });
+		assert.deepStrictEqual(replay.metadata!.differences, []);
+		assert.deepStrictEqual(replay.metadata!.replayedProject.workflow, qaWorkflow);
+	});
+
+	it('changes the workflow of an existing project', async () => {
+		await run('chonky-task-manager-create-project', { name: 'switch-flow' });
+		await run('chonky-task-manager-add-task', { project: 'switch-flow', title: 'Oracle', description: 'Review oracle' });
+		await run('chonky-task-manager-update-task', { project: 'switch-flow', taskId: '1', status: 'blocked', notes: 'Waiting for access' });
+
+		const invalid = await execute('chonky-task-manager-manage-project', {
+			project: 'switch-flow',
+			operation: 'set-workflow',
+			workflow: { ...qaWorkflow, finalStatuses: ['wontfix'], transitions: { ...qaWorkflow.transitions, qa: ['shipped'] } }
+		});
+		assert.ok(!invalid.success);
+		assert.ok(invalid.result.includes('"done" must be a final status'));
+		assert.ok(invalid.result.includes('leads to unknown status "shipped"'));
+
+		const stranded = await execute('chonky-task-manager-manage-project', { project: 'switch-flow', operation: 'set-workflow', workflow: qaWorkflow });
+		assert.ok(!stranded.success);
+		assert.ok(stranded.result.includes('#1 Oracle (blocked)'));
+
+		await run('chonky-task-manager-update-task', { project: 'switch-flow', taskId: '1', status: 'pending', notes: 'Access granted' });
+		await run('chonky-task-manager-manage-project', { project: 'switch-flow', operation: 'set-workflow', workflow: qaWorkflow });
+
+		const refused = await execute('chonky-task-manager-update-task', { project: 'switch-flow', taskId: '1', status: 'blocked', notes: 'Blocked again' });
+		assert.ok(!refused.success);
+		assert.ok(refused.result.includes('Statuses of this project: pending, in-progress, qa, done, wontfix.'));
+
+		const history = await run('chonky-task-manager-project-history', { project: 'switch-flow' });
+		assert.ok(history.result.includes('Workflow changed: pending, in-progress, qa, done, wontfix (final: done, wontfix)'));
+	});
+
+	it('rolls parent statuses up only along allowed transitions', async () => {
+		await run('chonky-task-manager-create-project', {
+			name: 'rollup-flow',
+			workflow: {
+				statuses: ['pending', 'in-progress', 'blocked', 'done'],
+				finalStatuses: ['done'],
+				transitions: {
+					'pending': ['in-progress', 'blocked'],
+					'in-progress': ['done', 'pending'],
+					'blocked': ['pending'],
+					'done': ['in-progress']
+				}
+			}
+		});
+		await run('chonky-task-manager-add-task', { project: 'rollup-flow', title: 'Audit', description: 'Audit the protocol' });
+		await run('chonky-task-manager-add-task', { project: 'rollup-flow', title: 'Vault', description: 'Review vault', parentTaskId: 1 });
+		await run('chonky-task-manager-add-task', { project: 'rollup-flow', title: 'Oracle', description: 'Review oracle', parentTaskId: 1 });
+
+		const started = await run('chonky-task-manager-update-task', { project: 'rollup-flow', taskId: '1.1', status: 'in-progress', notes: 'Starting' });
+		assert.ok(started.result.includes('Parent task #1 status updated to in-progress'));
+
+		// in-progress → blocked is not a transition of this workflow
+		const blocked = await run('chonky-task-manager-update-task', { project: 'rollup-flow', taskId: '1.2', status: 'blocked', notes: 'No access' });
+		assert.strictEqual(blocked.metadata!.autoUpdates, 0);
+		const parent = await run('chonky-task-manager-get-task', { project: 'rollup-flow', taskId: '1' });
+		assert.strictEqual(parent.metadata!.entity.status, 'in-progress');
+	});
+
+	it('keeps the default workflow for projects without one', async () => {
+		const { DEFAULT_WORKFLOW, validateWorkflow, checkStatusTransition } = await import('../tools/task-management/workflow.js');
+		assert.deepStrictEqual(validateWorkflow(DEFAULT_WORKFLOW), []);
+		assert.strictEqual(checkStatusTransition(DEFAULT_WORKFLOW, 'pending', 'done'), null);
+		assert.strictEqual(checkStatusTransition(DEFAULT_WORKFLOW, 'cancelled', 'done'), null);
+		assert.strictEqual(checkStatusTransition(DEFAULT_WORKFLOW, 'done', 'pending'), null);
+	});
+});
@@ -123,6 +123,16 @@ import { TaskManagerDependenciesTool } from './task-management/manage-dependenci
 import { TaskManagerGetTaskTool } from './task-management/get-task.js';
 import { TaskManagerImportExportTool } from './task-management/import-export.js';
 import { TaskManagerImportFolderTool } from './task-management/import-folder.js';
+import { TaskManagerProjectHistoryTool } from './task-management/project-history.js';
+import { TaskManagerSyncFolderTool } from './task-management/sync-folder.js';
+import { TaskManagerUndoTool } from './task-management/undo.js';
+import { TaskManagerManageProjectTool } from './task-management/manage-project.js';
+import { TaskManagerListProjectsTool } from './task-management/list-projects.js';
+import { TaskManagerClaimTaskTool } from './task-management/claim-task.js';
+import { TaskManagerCriticalPathTool } from './task-management/critical-path.js';
+
+// Utility Tools
+import { MemoryStoreTool } from './utilities/memory-store.js';
 
 // Register all tools
 // Register Task Management Tools
@@ -136,4 +146,13 @@ toolRegistry.register(new TaskManagerDependenciesTool());
 toolRegistry.register(new TaskManagerGetTaskTool());
 toolRegistry.register(new TaskManagerImportExportTool());
 toolRegistry.register(new TaskManagerImportFolderTool());
-
+toolRegistry.register(new TaskManagerProjectHistoryTool());
+toolRegistry.register(new TaskManagerSyncFolderTool());
+toolRegistry.register(new TaskManagerUndoTool());
+toolRegistry.register(new TaskManagerManageProjectTool());
+toolRegistry.register(new TaskManagerListProjectsTool());
+toolRegistry.register(new TaskManagerClaimTaskTool());
+toolRegistry.register(new TaskManagerCriticalPathTool());
+
+// Register Utility Tools
+toolRegistry.register(new MemoryStoreTool({ protectReservedNamespaces: true }));
@@ -6,19 +6,33 @@
 import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
 import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
-import { Task, ProjectData, VALID_STATUSES, VALID_PRIORITIES, Priority } from './types.js';
+import { Task, Subtask, ProjectData, VALID_STATUSES, VALID_PRIORITIES, Priority } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
-import { getNextTaskId, findTaskById, validateDependencies, touchProject, normalizeProjectKey } from './utils.js';
+import { TASK_ID_PATTERN, toDependencyValue, getNextTaskId, getNextSubtaskId, generateSubtaskId, findTaskById, findTaskNode, getSubtasks, validateDependencies, normalizeTags, isValidDueDate, formatDueDate, formatHours, touchProject, normalizeProjectKey } from './utils.js';
+import { resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { saveProject } from './project-store.js';
+import { ProjectEventPayload } from './events.js';
 
 const addTaskSchema = z.object({
-  project: z.string().min(1, 'Project name is required'),
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
   title: z.string().min(1, 'Task title is required'),
   description: z.string().min(1, 'Task description is required'),
   details: z.string().optional(),
   successCriteria: z.string().optional(),
   priority: z.enum(['low', 'medium', 'high']).default('medium'),
-  dependencies: z.array(z.number()).default([]),
-  parentTaskId: z.number().optional()
+  dependencies: z.array(z.union([
+    z.number(),
+    z.string().regex(TASK_ID_PATTERN, 'Dependencies must be task or subtask IDs like "3" or "2.4"')
+  ])).default([]),
+  parentTaskId: z.union([
+    z.number(),
+    z.string().regex(TASK_ID_PATTERN, 'Parent task ID must be a task or subtask ID like "3" or "3.1"')
+  ]).optional(),
+  tags: z.array(z.string().min(1, 'Tags cannot be empty')).default([]),
+  assignee: z.string().min(1, 'Assignee cannot be empty').optional(),
+  dueDate: z.string().refine(isValidDueDate, 'Due date must be an ISO date like "2026-03-01" or an ISO timestamp').optional(),
+  estimate: z.number().nonnegative('Estimate must not be negative').optional(),
+  actualTime: z.number().nonnegative('Actual time must not be negative').optional()
 });
 
 export class TaskManagerAddTaskTool extends ChonkyTool {
@@ -31,7 +45,7 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
     properties: {
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
       },
       title: {
         type: 'string',
@@ -59,16 +73,38 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
       },
       dependencies: {
         type: 'array',
-        items: { type: 'number' },
-        description: 'Array of task IDs this depends on',
+        items: { type: ['number', 'string'] },
+        description: 'Array of task IDs or subtask IDs (e.g. 3 or "2.4") this depends on',
         default: []
       },
       parentTaskId: {
+        type: ['number', 'string'],
+        description: 'Parent task ID for subtasks, or a subtask ID like "3.1" to nest deeper'
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Labels for filtering, e.g. ["security", "frontend"] (stored lowercase)',
+        default: []
+      },
+      assignee: {
+        type: 'string',
+        description: 'Agent responsible for the task (optional - claiming the task also sets it)'
+      },
+      dueDate: {
+        type: 'string',
+        description: 'Deadline as ISO date (e.g. "2026-03-01", due at the end of that day UTC) or ISO timestamp'
+      },
+      estimate: {
+        type: 'number',
+        description: 'Estimated effort in hours'
+      },
+      actualTime: {
         type: 'number',
-        description: 'Parent task ID for subtasks'
+        description: 'Time already spent in hours'
       }
     },
-    required: ['project', 'title', 'description']
+    required: ['title', 'description']
   };
 
   private memoryStore = new MemoryStoreTool();
@@ -76,7 +112,11 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
   async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
     try {
       const params = addTaskSchema.parse(context.arguments);
-      const projectKey = normalizeProjectKey(params.project);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
       
       // Get project data
       const projectResult = await this.memoryStore.execute({
@@ -89,30 +129,29 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
       });
       
       if (!projectResult.success || projectResult.result === 'undefined') {
-        return this.error(`Project "${params.project}" not found. Create it first with chonky-task-manager-create-project.`);
+        return this.error(`Project "${projectName}" not found. Create it first with chonky-task-manager-create-project.`);
       }
 
       const project: ProjectData = JSON.parse(projectResult.result);
       
       // Validate dependencies exist
       for (const depId of params.dependencies) {
-        const depTask = findTaskById(project, depId);
+        const depTask = findTaskNode(project, `${depId}`);
         if (!depTask) {
           return this.error(`Dependency task ${depId} does not exist`);
         }
       }
       
       // If this is a subtask, validate parent exists
-      if (params.parentTaskId) {
-        const parentTask = findTaskById(project, params.parentTaskId);
-        if (!parentTask) {
-          return this.error(`Parent task ${params.parentTaskId} does not exist`);
-        }
+      const parentNode = params.parentTaskId ? findTaskNode(project, `${params.parentTaskId}`) : null;
+      if (params.parentTaskId && !parentNode) {
+        return this.error(`Parent task ${params.parentTaskId} does not exist`);
       }
 
       // Create new task
       const now = new Date().toISOString();
       const taskId = getNextTaskId(project);
+      const tags = normalizeTags(params.tags);
       
       const newTask: Task = {
         id: taskId,
@@ -122,39 +161,61 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
         successCriteria: params.successCriteria,
         status: 'pending',
         priority: params.priority as Priority,
-        dependencies: params.dependencies,
+        dependencies: params.dependencies.map(depId => toDependencyValue(`${taskId}`, `${depId}`)),
         subtasks: [],
+        tags: tags.length > 0 ? tags : undefined,
+        assignee: params.assignee,
+        dueDate: params.dueDate,
+        estimate: params.estimate,
+        actualTime: params.actualTime,
         notes: undefined,
         created: now,
         updated: now
       };
 
-      let parentTask: Task | undefined;
+      let addedTask: Task | Subtask = newTask;
       let subtaskId: number | undefined;
+      let event: ProjectEventPayload;
 
       // Add to project
-      if (params.parentTaskId) {
-        // Add as subtask
-        parentTask = findTaskById(project, params.parentTaskId)!;
+      if (parentNode) {
+        // Add as subtask of a task or of another subtask
+        const parent = parentNode.entity;
+        subtaskId = getNextSubtaskId(parent);
+        const subtaskKey = generateSubtaskId(params.parentTaskId!, subtaskId);
         
         // Convert to subtask format
-        subtaskId = parentTask.subtasks.length > 0 
-          ? Math.max(...parentTask.subtasks.map(st => st.id)) + 1 
-          : 1;
-        
-        parentTask.subtasks.push({
+        const subtask: Subtask = {
           id: subtaskId,
           title: newTask.title,
           description: newTask.description,
           details: newTask.details,
+          successCriteria: newTask.successCriteria,
           status: newTask.status,
-          dependencies: newTask.dependencies
-        });
+          priority: newTask.priority,
+          dependencies: params.dependencies.map(depId => toDependencyValue(subtaskKey, `${depId}`)),
+          tags: newTask.tags,
+          assignee: newTask.assignee,
+          dueDate: newTask.dueDate,
+          estimate: newTask.estimate,
+          actualTime: newTask.actualTime,
+          created: now,
+          updated: now
+        };
+        parent.subtasks = [...getSubtasks(parent), subtask];
+        addedTask = subtask;
         
-        parentTask.updated = now;
+        parentNode.task.updated = now;
+        parent.updated = now;
+        event = {
+          type: 'SubtaskAdded',
+          parentId: parentNode.ancestors.length === 0 ? parentNode.task.id : `${params.parentTaskId}`,
+          subtask
+        };
       } else {
         // Add as main task
         project.tasks.push(newTask);
+        event = { type: 'TaskAdded', task: newTask };
       }
 
       touchProject(project);
@@ -166,14 +227,9 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
       }
 
       // Save updated project
-      const saveResult = await this.memoryStore.execute({
-        ...context,
-        arguments: {
-          operation: 'set',
-          key: `tasks.projects.${projectKey}`,
-          value: project,
-          namespace: 'chonky-task-manager'
-        }
+      const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+        tool: this.name,
+        events: [event]
       });
 
       if (!saveResult.success) {
@@ -182,17 +238,13 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
 
       // Format response
       const taskDisplayId = params.parentTaskId && subtaskId
-        ? `${params.parentTaskId}.${subtaskId}`
+        ? generateSubtaskId(params.parentTaskId, subtaskId)
         : taskId.toString();
         
       const dependencyText = params.dependencies.length > 0 
         ? params.dependencies.map(id => `${id} ⏱️`).join(', ')
         : 'None';
 
-      const addedTask = params.parentTaskId && parentTask 
-        ? parentTask.subtasks[parentTask.subtasks.length - 1] 
-        : newTask;
-
       // Build completion guidance message
       let completionGuidance = '';
       if (params.successCriteria && params.successCriteria.trim().length > 0) {
@@ -206,6 +258,10 @@ export class TaskManagerAddTaskTool extends ChonkyTool {
         `**Description:** ${params.description}\n` +
         `**Priority:** ${params.priority}\n` +
         `**Dependencies:** ${dependencyText}\n` +
+        (tags.length > 0 ? `**Tags:** ${tags.join(', ')}\n` : '') +
+        (params.assignee ? `**Assignee:** ${params.assignee}\n` : '') +
+        (params.dueDate ? `**Due:** ${formatDueDate(addedTask)}\n` : '') +
+        (params.estimate !== undefined ? `**Estimate:** ${formatHours(params.estimate)}\n` : '') +
         `**Status:** pending\n\n` +
         `${params.parentTaskId ? `Added as subtask to task ${params.parentTaskId}.` : `Added as main task ${taskId}.`}${completionGuidance}`,
         {
@@ -8,7 +8,9 @@ import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
 import { ProjectData, Task, TaskStatus, Priority } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
-import { normalizeProjectKey, findTaskById, validateTaskDependencies } from './utils.js';
+import { TASK_ID_PATTERN, normalizeProjectKey, findTaskById, findTaskNode, toDependencyValue, normalizeTags, isValidDueDate, validateTaskDependencies } from './utils.js';
+import { resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { saveProject } from './project-store.js';
 
 const batchTaskSchema = z.object({
   title: z.string().min(1, 'Task title is required'),
@@ -16,12 +18,20 @@ const batchTaskSchema = z.object({
   details: z.string().optional(),
   successCriteria: z.string().optional(),
   priority: z.enum(['low', 'medium', 'high']).default('medium'),
-  dependencies: z.array(z.number()).default([]),
-  parentTaskId: z.number().optional()
+  dependencies: z.array(z.union([
+    z.number(),
+    z.string().regex(TASK_ID_PATTERN, 'Dependencies must be task or subtask IDs like "3" or "2.4"')
+  ])).default([]),
+  parentTaskId: z.number().optional(),
+  tags: z.array(z.string().min(1, 'Tags cannot be empty')).default([]),
+  assignee: z.string().min(1, 'Assignee cannot be empty').optional(),
+  dueDate: z.string().refine(isValidDueDate, 'Due date must be an ISO date like "2026-03-01" or an ISO timestamp').optional(),
+  estimate: z.number().nonnegative('Estimate must not be negative').optional(),
+  actualTime: z.number().nonnegative('Actual time must not be negative').optional()
 });
 
 const batchAddTasksSchema = z.object({
-  project: z.string().min(1, 'Project name is required'),
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
   tasks: z.array(batchTaskSchema).min(1, 'At least one task is required')
 });
 
@@ -35,7 +45,7 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
     properties: {
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")',
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")',
         minLength: 1
       },
       tasks: {
@@ -71,20 +81,42 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
             },
             dependencies: {
               type: 'array',
-              items: { type: 'number' },
+              items: { type: ['number', 'string'] },
               default: [],
-              description: 'Array of task IDs this task depends on'
+              description: 'Array of task IDs or subtask IDs (e.g. 3 or "2.4") this task depends on'
             },
             parentTaskId: {
               type: 'number',
               description: 'Parent task ID for subtasks'
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              default: [],
+              description: 'Labels for filtering, e.g. ["security", "frontend"] (stored lowercase)'
+            },
+            assignee: {
+              type: 'string',
+              description: 'Agent responsible for the task (optional - claiming the task also sets it)'
+            },
+            dueDate: {
+              type: 'string',
+              description: 'Deadline as ISO date (e.g. "2026-03-01") or ISO timestamp'
+            },
+            estimate: {
+              type: 'number',
+              description: 'Estimated effort in hours'
+            },
+            actualTime: {
+              type: 'number',
+              description: 'Time already spent in hours'
             }
           },
           required: ['title', 'description']
         }
       }
     },
-    required: ['project', 'tasks']
+    required: ['tasks']
   };
 
   private memoryStore = new MemoryStoreTool();
@@ -92,7 +124,11 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
   async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
     try {
       const params = batchAddTasksSchema.parse(context.arguments);
-      const projectKey = normalizeProjectKey(params.project);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
       
       // Get project data
       const projectResult = await this.memoryStore.execute({
@@ -105,7 +141,7 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
       });
       
       if (!projectResult.success || projectResult.result === 'undefined') {
-        return this.error(`Project "${params.project}" not found. Create it first with chonky-task-manager-create-project.`);
+        return this.error(`Project "${projectName}" not found. Create it first with chonky-task-manager-create-project.`);
       }
 
       const project: ProjectData = JSON.parse(projectResult.result);
@@ -126,6 +162,7 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
           }
         }
         
+        const tags = normalizeTags(taskParams.tags);
         const task: Task = {
           id: taskId,
           title: taskParams.title,
@@ -136,6 +173,11 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
           priority: taskParams.priority as Priority,
           dependencies: [], // Will be set in second pass
           subtasks: [],
+          tags: tags.length > 0 ? tags : undefined,
+          assignee: taskParams.assignee,
+          dueDate: taskParams.dueDate,
+          estimate: taskParams.estimate,
+          actualTime: taskParams.actualTime,
           notes: undefined,
           created: now,
           updated: now
@@ -151,15 +193,15 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
         
         // Validate dependencies exist (in existing project or in current batch)
         for (const depId of taskParams.dependencies) {
-          const depInProject = findTaskById(project, depId);
-          const depInBatch = createdTasks.find(t => t.id === depId);
+          const depInProject = findTaskNode(project, `${depId}`);
+          const depInBatch = createdTasks.find(t => `${t.id}` === `${depId}`);
           
           if (!depInProject && !depInBatch) {
             return this.error(`Dependency task ${depId} does not exist in project or batch`);
           }
         }
         
-        task.dependencies = taskParams.dependencies;
+        task.dependencies = taskParams.dependencies.map(depId => toDependencyValue(`${task.id}`, `${depId}`));
       }
       
       // Third pass: Validate for circular dependencies within the batch
@@ -177,14 +219,9 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
       project.updated = now;
       
       // Store updated project data
-      const storeResult = await this.memoryStore.execute({
-        ...context,
-        arguments: {
-          operation: 'set',
-          key: `tasks.projects.${projectKey}`,
-          value: project,
-          namespace: 'chonky-task-manager'
-        }
+      const storeResult = await saveProject(this.memoryStore, context, projectKey, project, {
+        tool: this.name,
+        events: createdTasks.map(task => ({ type: 'TaskAdded' as const, task }))
       });
 
       if (!storeResult.success) {
@@ -197,7 +234,9 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
           ? ` (deps: ${task.dependencies.join(', ')})`
           : '';
         const priorityEmoji = task.priority === 'high' ? '🔴' : task.priority === 'medium' ? '🟡' : '⚪';
-        return `- **${task.id}**: ${task.title} ${priorityEmoji}${depString}`;
+        const tagString = task.tags ? ` 🏷️ ${task.tags.join(', ')}` : '';
+        const dueString = task.dueDate ? ` (due ${task.dueDate})` : '';
+        return `- **${task.id}**: ${task.title} ${priorityEmoji}${depString}${tagString}${dueString}`;
       }).join('\n');
 
       // Check if any tasks have successCriteria and add completion guidance
@@ -209,7 +248,7 @@ export class TaskManagerBatchAddTasksTool extends ChonkyTool {
 
       return this.success(
         `✅ **Batch Created ${createdTasks.length} Tasks Successfully**\n\n` +
-        `**Project:** ${params.project}\n` +
+        `**Project:** ${projectName}\n` +
         `**Tasks Created:**\n${taskSummary}\n\n` +
         `All tasks added with proper dependency validation.${completionGuidance}`,
         {
@@ -0,0 +1,178 @@
+/**
+ * ChonkyTasks - Claim Task Tool
+ * Lets parallel agents take time-limited leases on tasks so they don't work on the same one
+ */
+
+import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { z } from 'zod';
+import { TaskClaim } from './types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import { TASK_ID_PATTERN, findTaskNode, getActiveClaim, getForeignClaim, resolveAgentId, touchProject, normalizeProjectKey } from './utils.js';
+import { createProjectNotFoundError, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { getFinalStatuses } from './workflow.js';
+import { saveProject, loadStoredProject } from './project-store.js';
+import { ProjectEventPayload } from './events.js';
+
+export const DEFAULT_LEASE_MINUTES = 30;
+
+const claimTaskSchema = z.object({
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  taskId: z.union([
+    z.number().int().positive('Task ID must be a positive integer'),
+    z.string().regex(TASK_ID_PATTERN, 'Task ID must be a task or subtask ID like "3" or "2.4"')
+  ]),
+  operation: z.enum(['claim', 'renew', 'release']).default('claim'),
+  agent: z.string().min(1, 'Agent name cannot be empty').optional(),
+  leaseMinutes: z.number().int().min(1).max(24 * 60).default(DEFAULT_LEASE_MINUTES),
+  force: z.boolean().default(false)
+});
+
+export class TaskManagerClaimTaskTool extends ChonkyTool {
+  readonly name = 'chonky-task-manager-claim-task';
+  readonly description = 'Claim a task or subtask with an expiring lease so other agents skip it, renew the lease or release it';
+  readonly category = 'Utilities' as const;
+
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+      },
+      taskId: {
+        type: ['number', 'string'],
+        description: 'ID of the task or subtask (e.g. 3 or "2.4"); claiming a task also covers its subtasks'
+      },
+      operation: {
+        type: 'string',
+        enum: ['claim', 'renew', 'release'],
+        default: 'claim',
+        description: 'claim: take the lease (renews an own claim), renew: extend an own lease, release: give the task back'
+      },
+      agent: {
+        type: 'string',
+        description: 'Name of the agent holding the claim (optional - defaults to the session ID). Use the same name with next-task and update-task'
+      },
+      leaseMinutes: {
+        type: 'number',
+        default: DEFAULT_LEASE_MINUTES,
+        description: 'Lease duration in minutes (1-1440); the claim expires automatically afterwards'
+      },
+      force: {
+        type: 'boolean',
+        default: false,
+        description: 'Take over or release a claim held by another agent'
+      }
+    },
+    required: ['taskId']
+  };
+
+  private memoryStore = new MemoryStoreTool();
+
+  async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const params = claimTaskSchema.parse(context.arguments);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
+
+      const project = await loadStoredProject(this.memoryStore, context, projectKey);
+      if (!project) {
+        const errorMessage = await createProjectNotFoundError(projectName, this.memoryStore, context);
+        return this.error(errorMessage);
+      }
+
+      const taskId = `${params.taskId}`;
+      const label = `${taskId.includes('.') ? 'Subtask' : 'Task'} #${taskId}`;
+      const agent = resolveAgentId(params.agent, context.sessionId);
+
+      const node = findTaskNode(project, taskId);
+      if (!node) {
+        return this.error(`${label} not found in project "${projectName}".`);
+      }
+      const entity = node.entity;
+
+      const foreignClaim = getForeignClaim(project, taskId, agent);
+      if (foreignClaim && !params.force) {
+        const target = foreignClaim.id === taskId ? label : `${label} (via #${foreignClaim.id})`;
+        return this.error(
+          `${target} is claimed by "${foreignClaim.claim.claimedBy}" until ${foreignClaim.claim.expiresAt}. ` +
+          `Pick another task, wait for the lease to expire, or pass force: true to take over.`
+        );
+      }
+
+      const now = new Date();
+      const events: ProjectEventPayload[] = [];
+      let message: string;
+
+      if (params.operation === 'release') {
+        if (!entity.claim) {
+          return this.error(`${label} is not claimed.`);
+        }
+        if (entity.claim.claimedBy !== agent && getActiveClaim(entity, now) && !params.force) {
+          return this.error(`${label} is claimed by "${entity.claim.claimedBy}". Pass force: true to release another agent's claim.`);
+        }
+        events.push({ type: 'ClaimReleased', taskId, claimedBy: entity.claim.claimedBy });
+        message = `🔓 **Claim Released**\n\n${label} - ${entity.title} is available to other agents again.`;
+        delete entity.claim;
+      } else {
+        if (getFinalStatuses(project).includes(entity.status)) {
+          return this.error(`${label} is already ${entity.status} and cannot be claimed.`);
+        }
+        if (params.operation === 'renew' && entity.claim?.claimedBy !== agent) {
+          return this.error(`${label} is not claimed by "${agent}". Use operation "claim" to take it.`);
+        }
+
+        const ownClaim = getActiveClaim(entity, now)?.claimedBy === agent ? entity.claim : undefined;
+        const claim: TaskClaim = {
+          claimedBy: agent,
+          claimedAt: ownClaim ? ownClaim.claimedAt : now.toISOString(),
+          expiresAt: new Date(now.getTime() + params.leaseMinutes * 60 * 1000).toISOString()
+        };
+        entity.claim = claim;
+        entity.assignee = agent;
+        events.push({ type: 'TaskClaimed', taskId, claim });
+
+        message = ownClaim || params.operation === 'renew'
+          ? `🔒 **Claim Renewed**\n\n`
+          : `🔒 **Task Claimed**\n\n`;
+        message += `**Task:** ${label} - ${entity.title}\n`;
+        message += `**Claimed By:** ${agent}\n`;
+        message += `**Lease Expires:** ${claim.expiresAt}\n`;
+        if (foreignClaim) {
+          message += `**Taken Over From:** ${foreignClaim.claim.claimedBy}\n`;
+        }
+        message += `\nOther agents skip this task in next-task and cannot update it until the lease expires or is released. ` +
+          `Renew the claim before ${claim.expiresAt} if the work takes longer.`;
+      }
+
+      touchProject(project);
+
+      const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+        tool: this.name,
+        events
+      });
+
+      if (!saveResult.success) {
+        return this.error(`Failed to save project: ${saveResult.result}`);
+      }
+
+      return this.success(message, {
+        project: projectName,
+        taskId,
+        operation: params.operation,
+        agent,
+        claim: entity.claim ?? null
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+}
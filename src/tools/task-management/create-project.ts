@@ -10,10 +10,13 @@ import { ProjectData } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
 import { normalizeProjectKey } from './utils.js';
 import { validateProjectName } from './project-validation.js';
+import { saveProject } from './project-store.js';
+import { workflowSchema, validateWorkflow, WORKFLOW_INPUT_SCHEMA } from './workflow.js';
 
 const createProjectSchema = z.object({
   name: z.string().min(1, 'Project name is required'),
-  description: z.string().optional()
+  description: z.string().optional(),
+  workflow: workflowSchema.optional()
 });
 
 export class TaskManagerCreateProjectTool extends ChonkyTool {
@@ -32,6 +35,10 @@ export class TaskManagerCreateProjectTool extends ChonkyTool {
       description: {
         type: 'string',
         description: 'Optional project description'
+      },
+      workflow: {
+        ...WORKFLOW_INPUT_SCHEMA,
+        description: 'Optional custom workflow: status names, final statuses and allowed transitions (defaults to pending, in-progress, done, blocked, deferred, cancelled and review)'
       }
     },
     required: ['name']
@@ -49,6 +56,13 @@ export class TaskManagerCreateProjectTool extends ChonkyTool {
         return this.error(nameValidation.error!);
       }
       
+      if (params.workflow) {
+        const workflowErrors = validateWorkflow(params.workflow);
+        if (workflowErrors.length > 0) {
+          return this.error(`Invalid workflow:\n- ${workflowErrors.join('\n- ')}`);
+        }
+      }
+
       const projectKey = normalizeProjectKey(params.name);
       
       // Check if project already exists
@@ -62,6 +76,10 @@ export class TaskManagerCreateProjectTool extends ChonkyTool {
       });
       
       if (existingResult.success && existingResult.result && existingResult.result !== 'undefined') {
+        const existing: ProjectData = JSON.parse(existingResult.result);
+        if (existing.archived) {
+          return this.error(`Project "${params.name}" already exists and is archived. Unarchive it with chonky-task-manager-manage-project or choose a different name.`);
+        }
         return this.error(`Project "${params.name}" already exists`);
       }
 
@@ -72,18 +90,14 @@ export class TaskManagerCreateProjectTool extends ChonkyTool {
         tasks: [],
         nextId: 1,
         created: now,
-        updated: now
+        updated: now,
+        ...(params.workflow && { workflow: params.workflow })
       };
 
-            // Store project data
-      const storeResult = await this.memoryStore.execute({
-        ...context,
-        arguments: {
-          operation: 'set',
-          key: `tasks.projects.${projectKey}`,
-          value: projectData,
-          namespace: 'chonky-task-manager'
-        }
+      // Store project data
+      const storeResult = await saveProject(this.memoryStore, context, projectKey, projectData, {
+        tool: this.name,
+        events: [{ type: 'ProjectCreated', project: projectData }]
       });
 
       if (!storeResult.success) {
@@ -105,6 +119,7 @@ export class TaskManagerCreateProjectTool extends ChonkyTool {
         `✅ **Project Created Successfully**\n\n` +
         `**Name:** ${params.name}\n` +
         `**Created:** ${now}\n` +
+        (params.workflow ? `**Workflow:** ${params.workflow.statuses.join(', ')} (final: ${params.workflow.finalStatuses.join(', ')})\n` : '') +
         `**Status:** Active project\n\n` +
         `You can now start adding tasks using \`chonky-task-manager-add-task\`.`,
         {
@@ -0,0 +1,139 @@
+/**
+ * ChonkyTasks - Critical Path Tool
+ * Finds the dependency chain that determines how long the project takes
+ */
+
+import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { z } from 'zod';
+import { ProjectData, CriticalPathResult } from './types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import { analyzeCriticalPath, validateDependencies, normalizeProjectKey } from './utils.js';
+import { createProjectNotFoundError, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { getFinalStatuses } from './workflow.js';
+import { loadStoredProject } from './project-store.js';
+
+const criticalPathSchema = z.object({
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  includeDone: z.boolean().default(false),
+  outputFormat: z.enum(['table', 'json']).default('table')
+});
+
+export class TaskManagerCriticalPathTool extends ChonkyTool {
+  readonly name = 'chonky-task-manager-critical-path';
+  readonly description = 'Compute the critical path, slack per task and the longest remaining dependency chain, weighted by estimates where present';
+  readonly category = 'Utilities' as const;
+
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+      },
+      includeDone: {
+        type: 'boolean',
+        default: false,
+        description: 'Also list finished tasks (done, cancelled or another final status of the project workflow) in the slack table'
+      },
+      outputFormat: {
+        type: 'string',
+        enum: ['table', 'json'],
+        default: 'table',
+        description: 'Output format'
+      }
+    },
+    required: []
+  };
+
+  private memoryStore = new MemoryStoreTool();
+
+  async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const params = criticalPathSchema.parse(context.arguments || {});
+
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
+      const project = await loadStoredProject(this.memoryStore, context, projectKey);
+      if (!project) {
+        const errorMessage = await createProjectNotFoundError(projectName, this.memoryStore, context);
+        return this.error(errorMessage);
+      }
+
+      // The critical path is only defined on an acyclic graph
+      const validation = validateDependencies(project);
+      if (validation.circularDependencies) {
+        return this.error(
+          `Cannot compute the critical path of a project with circular dependencies:\n` +
+          validation.circularDependencies.map(cycle => `- ${cycle.join(' -> ')}`).join('\n') +
+          `\n\nRemove one dependency of each cycle with chonky-task-manager-manage-dependencies.`
+        );
+      }
+
+      const analysis = analyzeCriticalPath(project);
+
+      if (params.outputFormat === 'json') {
+        return this.success(JSON.stringify({ project: project.name, ...analysis }, null, 2), {
+          project: project.name,
+          ...analysis
+        });
+      }
+
+      return this.success(this.renderReport(project, analysis, params.includeDone), {
+        project: project.name,
+        ...analysis
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+
+  private renderReport(project: ProjectData, analysis: CriticalPathResult, includeDone: boolean): string {
+    let output = `## 🛤️ **${project.name}** Critical Path\n\n`;
+
+    if (analysis.tasks.length === 0) {
+      return output + `No tasks in this project yet. Use \`chonky-task-manager-add-task\` to create your first task.`;
+    }
+
+    const estimated = analysis.tasks.filter(task => task.estimated).length;
+    const unit = estimated === analysis.tasks.length ? 'h' : '';
+    const format = (value: number) => `${Math.round(value * 100) / 100}${unit}`;
+    const chain = (ids: string[]) => ids.map(id => `#${id}`).join(' → ');
+
+    output += `**Weights:** ${estimated === analysis.tasks.length
+      ? 'estimates in hours'
+      : `estimates in hours for ${estimated} of ${analysis.tasks.length} tasks and subtasks, 1 unit for the rest`}` +
+      ` (parents without estimate only wait for their subtasks)\n\n`;
+
+    output += `**Project Duration:** ${format(analysis.duration)}\n`;
+    output += `**Critical Path:** ${chain(analysis.criticalPath)}\n\n`;
+
+    if (analysis.remainingChain.length > 0) {
+      output += `**Longest Remaining Chain:** ${chain(analysis.remainingChain)} (${format(analysis.remainingDuration)} left)\n\n`;
+    } else {
+      output += `**Longest Remaining Chain:** none, all tasks are finished\n\n`;
+    }
+
+    const finalStatuses = getFinalStatuses(project);
+    const rows = analysis.tasks.filter(task => includeDone || !finalStatuses.includes(task.status));
+    if (rows.length > 0) {
+      output += `### ⏱️ Slack\n\n`;
+      output += `| ID | Title | Status | Duration | Earliest Start | Latest Start | Slack |\n`;
+      output += `|----|-------|--------|----------|----------------|--------------|-------|\n`;
+      rows.forEach(task => {
+        const marker = task.critical ? '🔥 ' : '';
+        output += `| ${task.id} | ${marker}${task.title} | ${task.status} | ${format(task.duration)} | ${format(task.earliestStart)} | ${format(task.latestStart)} | ${format(task.slack)} |\n`;
+      });
+      output += `\n🔥 = on the critical path (no slack): any delay there delays the whole project.\n`;
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Domain events for ChonkyTasks projects
+ *
+ * Every mutation of a project is recorded as a typed event in an append-only
+ * log. Replaying the log from the creating event rebuilds the project state,
+ * which makes it possible to see how a project reached its current shape.
+ */
+
+import { Task, Subtask, ProjectData, ProjectWorkflow, TaskStatus, TaskDependency, TaskClaim, NoteEntry } from './types.js';
+import { findTaskById, findTaskNode, getSubtasks, parseTaskId, resolveDependencyId } from './utils.js';
+import { getNoteEntries } from './notes.js';
+
+/**
+ * Task fields that can be replaced wholesale, e.g. when edited in a synced markdown file
+ */
+export type EditableTaskFields = Partial<Pick<Task, 'title' | 'description' | 'details' | 'successCriteria' | 'priority' | 'dependencies' | 'tags' | 'dueDate' | 'estimate' | 'actualTime' | 'notes'>>;
+
+interface ProjectEventBase {
+  seq: number;                  // Position in the log, starting at 1
+  revision: number;             // Project revision produced by the mutation
+  timestamp: string;            // ISO timestamp of the mutation
+  sessionId: string;            // Session that performed the mutation
+  tool: string;                 // Tool that performed the mutation
+}
+
+export interface ProjectCreatedEvent extends ProjectEventBase {
+  type: 'ProjectCreated';
+  project: ProjectData;
+}
+
+export interface ProjectImportedEvent extends ProjectEventBase {
+  type: 'ProjectImported';
+  project: ProjectData;         // Complete project state after the import
+  source: string;               // File or folder the project was imported from
+}
+
+export interface ProjectRestoredEvent extends ProjectEventBase {
+  type: 'ProjectRestored';
+  project: ProjectData;         // Complete project state after the restore
+  operation: 'undo' | 'redo';
+  steps: number;                // Number of mutations undone or redone
+}
+
+export interface ProjectArchivedEvent extends ProjectEventBase {
+  type: 'ProjectArchived';
+}
+
+export interface ProjectUnarchivedEvent extends ProjectEventBase {
+  type: 'ProjectUnarchived';
+}
+
+export interface WorkflowChangedEvent extends ProjectEventBase {
+  type: 'WorkflowChanged';
+  workflow: ProjectWorkflow;
+}
+
+export interface TaskAddedEvent extends ProjectEventBase {
+  type: 'TaskAdded';
+  task: Task;
+}
+
+export interface SubtaskAddedEvent extends ProjectEventBase {
+  type: 'SubtaskAdded';
+  parentId: number | string;    // Parent task ID, or hierarchical ID of a parent subtask ("3.1")
+  subtask: Subtask;
+}
+
+export interface StatusChangedEvent extends ProjectEventBase {
+  type: 'StatusChanged';
+  taskId: string;               // Hierarchical ID ("3", "3.1" or "3.1.2")
+  from: TaskStatus;
+  to: TaskStatus;
+  automatic?: boolean;          // Set when derived from subtask states
+}
+
+export interface NotesAppendedEvent extends ProjectEventBase {
+  type: 'NotesAppended';
+  taskId: string;
+  entry: NoteEntry | string;    // Formatted "[timestamp] text" string in logs from before notes were structured
+}
+
+export interface TaskEditedEvent extends ProjectEventBase {
+  type: 'TaskEdited';
+  taskId: string;               // Hierarchical ID ("3", "3.1" or "3.1.2")
+  fields: EditableTaskFields;   // New values of the edited fields
+}
+
+export interface DependencyAddedEvent extends ProjectEventBase {
+  type: 'DependencyAdded';
+  taskId: number | string;      // Task ID or hierarchical subtask ID
+  dependencyId: TaskDependency; // Value added to the dependencies
+}
+
+export interface DependencyRemovedEvent extends ProjectEventBase {
+  type: 'DependencyRemoved';
+  taskId: number | string;
+  dependencyId: TaskDependency; // Value removed from the dependencies
+}
+
+export interface TaskClaimedEvent extends ProjectEventBase {
+  type: 'TaskClaimed';
+  taskId: string;               // Hierarchical ID ("3", "3.1" or "3.1.2")
+  claim: TaskClaim;             // New or renewed lease; its holder becomes the assignee
+}
+
+export interface ClaimReleasedEvent extends ProjectEventBase {
+  type: 'ClaimReleased';
+  taskId: string;
+  claimedBy: string;            // Holder of the released lease
+}
+
+export type ProjectEvent =
+  | ProjectCreatedEvent
+  | ProjectImportedEvent
+  | ProjectRestoredEvent
+  | ProjectArchivedEvent
+  | ProjectUnarchivedEvent
+  | WorkflowChangedEvent
+  | TaskAddedEvent
+  | SubtaskAddedEvent
+  | StatusChangedEvent
+  | NotesAppendedEvent
+  | TaskEditedEvent
+  | DependencyAddedEvent
+  | DependencyRemovedEvent
+  | TaskClaimedEvent
+  | ClaimReleasedEvent;
+
+export type ProjectEventType = ProjectEvent['type'];
+
+/**
+ * Event content as produced by a tool, before the log assigns the envelope
+ */
+export type ProjectEventPayload = ProjectEvent extends infer E
+  ? E extends ProjectEvent ? Omit<E, keyof ProjectEventBase> : never
+  : never;
+
+export const PROJECT_EVENT_TYPES: ProjectEventType[] = [
+  'ProjectCreated', 'ProjectImported', 'ProjectRestored', 'ProjectArchived', 'ProjectUnarchived',
+  'WorkflowChanged', 'TaskAdded', 'SubtaskAdded', 'StatusChanged', 'NotesAppended', 'TaskEdited', 'DependencyAdded', 'DependencyRemoved',
+  'TaskClaimed', 'ClaimReleased'
+];
+
+/**
+ * Memory store key holding the head of a project's event log: the number of
+ * chunks and the last recorded sequence number (a plain event array on older data)
+ */
+export function getEventLogKey(projectKey: string): string {
+  return `tasks.events.${projectKey}`;
+}
+
+/**
+ * Memory store key prefix of the chunks holding a project's events
+ */
+export function getEventChunksKey(projectKey: string): string {
+  return `tasks.eventlog.${projectKey}`;
+}
+
+/**
+ * Head of a chunked event log
+ */
+export interface EventLogHead {
+  chunks: number;               // Chunks stored under getEventChunksKey, numbered from 0
+  lastSeq: number;              // Events with a higher sequence number were not committed
+}
+
+/**
+ * Find the task or subtask an event refers to
+ */
+function findEventTarget(project: ProjectData, taskId: string): Task | Subtask {
+  const node = findTaskNode(project, taskId);
+  if (!node) {
+    const { parentId, subtaskId } = parseTaskId(taskId);
+    throw new Error(subtaskId === undefined ? `Task ${parentId} does not exist` : `Subtask ${taskId} does not exist`);
+  }
+  return node.entity;
+}
+
+/**
+ * Apply a single event to a project state in place
+ */
+export function applyProjectEvent(project: ProjectData, event: ProjectEvent): void {
+  switch (event.type) {
+    case 'ProjectCreated':
+    case 'ProjectImported':
+    case 'ProjectRestored':
+      // Handled by replayProjectEvents since they replace the whole state
+      break;
+
+    case 'ProjectArchived':
+      project.archived = event.timestamp;
+      break;
+
+    case 'ProjectUnarchived':
+      delete project.archived;
+      break;
+
+    case 'WorkflowChanged':
+      project.workflow = structuredClone(event.workflow);
+      break;
+
+    case 'TaskAdded':
+      project.tasks.push(structuredClone(event.task));
+      project.nextId = Math.max(project.nextId, event.task.id + 1);
+      break;
+
+    case 'SubtaskAdded': {
+      const node = findTaskNode(project, `${event.parentId}`);
+      if (!node) {
+        throw new Error(`Parent task ${event.parentId} does not exist`);
+      }
+      node.entity.subtasks = [...getSubtasks(node.entity), structuredClone(event.subtask)];
+      node.entity.updated = event.timestamp;
+      node.task.updated = event.timestamp;
+      break;
+    }
+
+    case 'StatusChanged':
+      findEventTarget(project, event.taskId).status = event.to;
+      break;
+
+    case 'NotesAppended': {
+      const target = findEventTarget(project, event.taskId);
+      if (typeof event.entry !== 'string') {
+        target.notes = [...getNoteEntries(target), structuredClone(event.entry)];
+      } else if (Array.isArray(target.notes)) {
+        target.notes = [...target.notes, ...getNoteEntries({ ...target, notes: event.entry })];
+      } else {
+        target.notes = target.notes ? `${target.notes}\n\n${event.entry}` : event.entry;
+      }
+      break;
+    }
+
+    case 'TaskEdited':
+      Object.assign(findEventTarget(project, event.taskId), structuredClone(event.fields));
+      break;
+
+    case 'DependencyAdded':
+    case 'DependencyRemoved': {
+      const ownerId = `${event.taskId}`;
+      const target = findEventTarget(project, ownerId);
+      const dependencyId = resolveDependencyId(ownerId, event.dependencyId);
+      target.dependencies = event.type === 'DependencyAdded'
+        ? [...target.dependencies, event.dependencyId]
+        : target.dependencies.filter(dependency => resolveDependencyId(ownerId, dependency) !== dependencyId);
+      target.updated = event.timestamp;
+      findTaskById(project, parseTaskId(ownerId).parentId)!.updated = event.timestamp;
+      break;
+    }
+
+    case 'TaskClaimed': {
+      const target = findEventTarget(project, event.taskId);
+      target.claim = structuredClone(event.claim);
+      target.assignee = event.claim.claimedBy;
+      break;
+    }
+
+    case 'ClaimReleased':
+      delete findEventTarget(project, event.taskId).claim;
+      break;
+  }
+
+  // Status, note and field changes touch the task or subtask and the top-level task it belongs to
+  if (event.type === 'StatusChanged' || event.type === 'NotesAppended' || event.type === 'TaskEdited') {
+    const node = findTaskNode(project, event.taskId);
+    if (node) {
+      node.entity.updated = event.timestamp;
+      node.task.updated = event.timestamp;
+    }
+  }
+
+  project.updated = event.timestamp;
+}
+
+/**
+ * Rebuild a project from its event log, optionally stopping after a given sequence number
+ */
+export function replayProjectEvents(events: ProjectEvent[], untilSeq?: number): ProjectData {
+  let project: ProjectData | null = null;
+
+  for (const event of events) {
+    if (untilSeq !== undefined && event.seq > untilSeq) {
+      break;
+    }
+
+    if (event.type === 'ProjectCreated' || event.type === 'ProjectImported' || event.type === 'ProjectRestored') {
+      project = structuredClone(event.project);
+    } else if (!project) {
+      throw new Error(`Event log does not start with ProjectCreated or ProjectImported (first event: #${event.seq} ${event.type})`);
+    } else {
+      try {
+        applyProjectEvent(project, event);
+      } catch (error) {
+        throw new Error(`Cannot replay event #${event.seq} ${event.type}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (event.revision !== undefined) {
+      project.revision = event.revision;
+    }
+  }
+
+  if (!project) {
+    throw new Error('Event log is empty');
+  }
+  return project;
+}
+
+/**
+ * One-line human readable description of an event
+ */
+export function describeProjectEvent(event: ProjectEvent): string {
+  switch (event.type) {
+    case 'ProjectCreated':
+      return `Project "${event.project.name}" created`;
+    case 'ProjectImported':
+      return `Project imported from ${event.source} (${event.project.tasks.length} tasks)`;
+    case 'ProjectRestored':
+      return `Project restored by ${event.operation} (${event.steps} step${event.steps > 1 ? 's' : ''})`;
+    case 'ProjectArchived':
+      return `Project archived`;
+    case 'ProjectUnarchived':
+      return `Project unarchived`;
+    case 'WorkflowChanged':
+      return `Workflow changed: ${event.workflow.statuses.join(', ')} (final: ${event.workflow.finalStatuses.join(', ')})`;
+    case 'TaskAdded':
+      return `Task #${event.task.id} added: ${event.task.title}`;
+    case 'SubtaskAdded':
+      return `Subtask #${event.parentId}.${event.subtask.id} added: ${event.subtask.title}`;
+    case 'StatusChanged':
+      return `#${event.taskId} status ${event.from} → ${event.to}${event.automatic ? ' (automatic)' : ''}`;
+    case 'NotesAppended': {
+      const text = typeof event.entry === 'string'
+        ? event.entry.replace(/^\[[^\]]+\] (Status: .*\n)?/, '')
+        : event.entry.text;
+      const firstLine = text.split('\n')[0];
+      return `#${event.taskId} notes: ${firstLine.substring(0, 80)}${firstLine.length > 80 ? '...' : ''}`;
+    }
+    case 'TaskEdited':
+      return `#${event.taskId} edited: ${Object.keys(event.fields).join(', ')}`;
+    case 'DependencyAdded':
+      return `#${event.taskId} now depends on #${event.dependencyId}`;
+    case 'DependencyRemoved':
+      return `#${event.taskId} no longer depends on #${event.dependencyId}`;
+    case 'TaskClaimed':
+      return `#${event.taskId} claimed by ${event.claim.claimedBy} until ${event.claim.expiresAt}`;
+    case 'ClaimReleased':
+      return `#${event.taskId} released by ${event.claimedBy}`;
+  }
+}
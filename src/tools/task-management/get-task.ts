@@ -6,9 +6,37 @@
 import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
 import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
-import { Task, Subtask, ProjectData, TaskStatus } from './types.js';
+import { Task, Subtask, ProjectData, TaskStatus, NoteEntry, NoteKind, NOTE_KINDS } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
-import { parseTaskId, findTaskById, normalizeProjectKey } from './utils.js';
+import { parseTaskId, findTaskById, findTaskNode, getSubtasks, flattenSubtasks, getDependencyIds, getActiveClaim, formatDueDate, formatHours, normalizeProjectKey } from './utils.js';
+import { resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { getFinalStatuses } from './workflow.js';
+import { getNoteEntries, formatNoteHeader } from './notes.js';
+
+const getTaskSchema = z.object({
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  taskId: z.string().min(1, 'Task ID is required'),
+  noteKinds: z.array(z.enum(['progress', 'status-change', 'completion-proof', 'blocker'])).optional(),
+  noteAuthor: z.string().optional(),
+  notesLimit: z.number().int('notesLimit must be a whole number').min(1, 'notesLimit must be at least 1').default(20),
+  notesOffset: z.number().int('notesOffset must be a whole number').min(0, 'notesOffset must be at least 0').default(0)
+});
+
+/**
+ * Filter and page of the note history to show
+ */
+interface NotesQuery {
+  kinds?: NoteKind[];
+  author?: string;
+  limit: number;
+  offset: number;
+}
+
+interface NotesPage {
+  total: number;
+  matching: number;
+  entries: NoteEntry[];         // Most recent first
+}
 
 export class TaskManagerGetTaskTool extends ChonkyTool {
   readonly name = 'chonky-task-manager-get-task';
@@ -20,29 +48,55 @@ export class TaskManagerGetTaskTool extends ChonkyTool {
     properties: {
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
       },
       taskId: {
         type: 'string',
-        description: 'Task ID (e.g., "1" for task, "1.2" for subtask)'
+        description: 'Task ID (e.g., "1" for task, "1.2" for subtask, "1.2.3" for a nested subtask)'
+      },
+      noteKinds: {
+        type: 'array',
+        items: { type: 'string', enum: NOTE_KINDS },
+        description: 'Only show notes of these kinds (e.g. ["blocker", "completion-proof"])'
+      },
+      noteAuthor: {
+        type: 'string',
+        description: 'Only show notes written by this agent or session'
+      },
+      notesLimit: {
+        type: 'integer',
+        minimum: 1,
+        default: 20,
+        description: 'Maximum number of notes to show (most recent first)'
+      },
+      notesOffset: {
+        type: 'integer',
+        minimum: 0,
+        default: 0,
+        description: 'Number of most recent matching notes to skip, for paging through older notes'
       }
     },
-    required: ['project', 'taskId']
+    required: ['taskId']
   };
 
   private memoryStore = new MemoryStoreTool();
 
   async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
-    const args = context.arguments as { project: string; taskId: string };
-    
-    // Validate input
-    if (!args.project || !args.taskId) {
-      return this.error('Project name and task ID are required');
-    }
+    try {
+      const params = getTaskSchema.parse(context.arguments);
+      const notesQuery: NotesQuery = {
+        kinds: params.noteKinds && params.noteKinds.length > 0 ? params.noteKinds : undefined,
+        author: params.noteAuthor,
+        limit: params.notesLimit,
+        offset: params.notesOffset
+      };
+      const { taskId } = params;
 
-    const { project, taskId } = args;
+      const project = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!project) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
 
-    try {
       // Get project data from memory store
       const projectKey = normalizeProjectKey(project);
       const projectResult = await this.memoryStore.execute({
@@ -59,7 +113,7 @@ export class TaskManagerGetTaskTool extends ChonkyTool {
       }
 
       const projectData: ProjectData = JSON.parse(projectResult.result);
-      const { parentId, subtaskId } = parseTaskId(taskId);
+      const { parentId, path } = parseTaskId(taskId);
 
       // Find the requested task
       const task = findTaskById(projectData, parentId);
@@ -68,63 +122,110 @@ export class TaskManagerGetTaskTool extends ChonkyTool {
         return this.error(`Task ${parentId} not found in project "${project}"`);
       }
 
-      if (subtaskId !== undefined) {
+      if (path.length > 1) {
         // Return subtask details
-        const subtask = task.subtasks.find(st => st.id === subtaskId);
-        if (!subtask) {
+        const node = findTaskNode(projectData, taskId);
+        if (!node) {
           return this.error(`Subtask ${taskId} not found in project "${project}"`);
         }
         
-        const details = this.formatTaskDetails(subtask, task, true);
+        const parentTaskId = path.slice(0, -1).join('.');
+        const notes = this.selectNotes(node.entity, notesQuery);
+        const details = this.formatTaskDetails(projectData, node.entity, path.join('.'), node.ancestors[node.ancestors.length - 1], parentTaskId, task, notes, notesQuery);
         
         return this.success(details, {
           project,
           taskId,
           taskType: 'subtask',
-          parentTaskId: parentId,
-          entity: subtask
+          parentTaskId: path.length === 2 ? parentId : parentTaskId,
+          entity: node.entity,
+          notes
         });
       } else {
         // Return main task details
-        const details = this.formatTaskDetails(task, task, false);
+        const notes = this.selectNotes(task, notesQuery);
+        const details = this.formatTaskDetails(projectData, task, `${task.id}`, null, null, task, notes, notesQuery);
         
         return this.success(details, {
           project,
           taskId,
           taskType: 'task',
-          entity: task
+          entity: task,
+          notes
         });
       }
 
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
       return this.error(`Failed to retrieve task: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Notes matching the query, most recent first
+   */
+  private selectNotes(entity: Task | Subtask, query: NotesQuery): NotesPage {
+    const all = getNoteEntries(entity);
+    const matching = all
+      .filter(entry => !query.kinds || query.kinds.includes(entry.kind))
+      .filter(entry => !query.author || entry.author === query.author)
+      .reverse();
+
+    return {
+      total: all.length,
+      matching: matching.length,
+      entries: matching.slice(query.offset, query.offset + query.limit)
+    };
+  }
+
   /**
    * Format comprehensive task/subtask details
    */
-  private formatTaskDetails(entity: Task | Subtask, parentTask: Task, isSubtask: boolean): string {
-    const taskId = isSubtask ? `${parentTask.id}.${entity.id}` : entity.id;
-    const priority = isSubtask ? '' : ` - [${(entity as Task).priority}]`;
+  private formatTaskDetails(project: ProjectData, entity: Task | Subtask, taskId: string, parent: Task | Subtask | null, parentId: string | null, topLevelTask: Task, notes: NotesPage, notesQuery: NotesQuery): string {
+    const isSubtask = parent !== null;
+    const priority = entity.priority ? ` - [${entity.priority}]` : '';
+    const subtasks = getSubtasks(entity);
     
     let response = `# ${taskId}${priority} ${entity.title}\n`;
     response += `**ID:** ${taskId}\n`;
     response += `**Status:** ${this.getStatusEmoji(entity.status)} ${entity.status}\n`;
     
-    // Priority only for main tasks
-    if (!isSubtask) {
-      response += `**Priority:** ${this.getPriorityEmoji((entity as Task).priority)} ${(entity as Task).priority}\n`;
+    // Priority is missing on subtasks created before subtasks had priorities
+    if (entity.priority) {
+      response += `**Priority:** ${this.getPriorityEmoji(entity.priority)} ${entity.priority}\n`;
     }
-    
-    // Subtasks summary (only for main tasks)
-    if (!isSubtask && (entity as Task).subtasks && (entity as Task).subtasks.length > 0) {
-      const completedSubtasks = (entity as Task).subtasks.filter(st => st.status === 'done').length;
-      response += `**Subtasks:** ${completedSubtasks}/${(entity as Task).subtasks.length} completed\n`;
+
+    if (entity.tags && entity.tags.length > 0) {
+      response += `**Tags:** ${entity.tags.join(', ')}\n`;
+    }
+
+    if (entity.assignee) {
+      response += `**Assignee:** ${entity.assignee}\n`;
+    }
+    if (entity.claim) {
+      response += getActiveClaim(entity)
+        ? `**Claimed By:** ${entity.claim.claimedBy} (lease until ${entity.claim.expiresAt})\n`
+        : `**Claim:** expired ${entity.claim.expiresAt} (was ${entity.claim.claimedBy})\n`;
+    }
+
+    if (entity.dueDate) {
+      response += `**Due:** ${formatDueDate(entity, getFinalStatuses(project))}\n`;
+    }
+    if (entity.estimate !== undefined || entity.actualTime !== undefined) {
+      response += `**Time:** ${formatHours(entity.actualTime || 0)} spent` +
+        `${entity.estimate !== undefined ? ` of ${formatHours(entity.estimate)} estimated` : ''}\n`;
+    }
+
+    // Subtasks summary
+    if (subtasks.length > 0) {
+      const completedSubtasks = subtasks.filter(st => st.status === 'done').length;
+      response += `**Subtasks:** ${completedSubtasks}/${subtasks.length} completed\n`;
     }
     
     if (isSubtask) {
-      response += `**Parent Task:** #${parentTask.id} - ${parentTask.title}\n`;
+      response += `**Parent ${parentId!.includes('.') ? 'Subtask' : 'Task'}:** #${parentId} - ${parent.title}\n`;
     }
 
     response += `\n## Description\n${entity.description}\n`;
@@ -134,44 +235,38 @@ export class TaskManagerGetTaskTool extends ChonkyTool {
       response += `\n## Details\n${entity.details}\n`;
     }
 
-    // Success Criteria (only on main tasks)
-    if (!isSubtask && (entity as Task).successCriteria) {
-      response += `\n## Success Criteria\n${(entity as Task).successCriteria}\n`;
+    // Success Criteria
+    if (entity.successCriteria) {
+      response += `\n## Success Criteria\n${entity.successCriteria}\n`;
     }
 
     // Dependencies
     if (entity.dependencies && entity.dependencies.length > 0) {
       response += `\n## Dependencies\n`;
-      entity.dependencies.forEach(depId => {
-        if (isSubtask) {
-          response += `- Depends on Subtask #${parentTask.id}.${depId} or Task #${depId}\n`;
-        } else {
-          response += `- Depends on Task #${depId}\n`;
-        }
+      getDependencyIds(taskId, entity).forEach(depId => {
+        const depNode = findTaskNode(project, depId);
+        const depLabel = depId.includes('.') ? 'Subtask' : 'Task';
+        response += `- Depends on ${depLabel} #${depId}${depNode ? ` (${depNode.entity.status})` : ' ❓'}\n`;
       });
     }
 
-    // Subtasks list (only for main tasks)
-    if (!isSubtask && (entity as Task).subtasks && (entity as Task).subtasks.length > 0) {
+    // Subtasks list, including nested subtasks
+    if (subtasks.length > 0) {
       response += `\n## Subtasks\n`;
-      (entity as Task).subtasks.forEach(subtask => {
-        response += `- **${parentTask.id}.${subtask.id}** ${this.getStatusEmoji(subtask.status)} ${subtask.title}\n`;
+      flattenSubtasks(entity, taskId).forEach(({ id, subtask, depth }) => {
+        response += `${'  '.repeat(depth - 1)}- **${id}** ${this.getStatusEmoji(subtask.status)} ${subtask.title}\n`;
       });
     }
 
     // Notes History
     response += `\n## 📝 **Notes History**\n`;
-    if (entity.notes && typeof entity.notes === 'string' && entity.notes.trim()) {
-      response += `${entity.notes}\n`;
-    } else {
-      response += `No notes recorded yet.\n`;
-    }
+    response += this.formatNotes(notes, notesQuery);
 
     // Timestamps
     response += `\n## ⏰ **Timestamps**\n`;
-    const timestamp = isSubtask ? parentTask : (entity as Task);
-    response += `**Created:** ${new Date(timestamp.created).toLocaleString()}\n`;
-    response += `**Last Updated:** ${new Date(timestamp.updated).toLocaleString()}\n`;
+    // Subtasks created before they had timestamps fall back to their top-level task
+    response += `**Created:** ${new Date(entity.created || topLevelTask.created).toLocaleString()}\n`;
+    response += `**Last Updated:** ${new Date(entity.updated || topLevelTask.updated).toLocaleString()}\n`;
 
     // Completion Guidance
     if (entity.status === 'pending' || entity.status === 'in-progress') {
@@ -183,11 +278,53 @@ export class TaskManagerGetTaskTool extends ChonkyTool {
     return response;
   }
 
+  /**
+   * Render a page of the note history with its filter and position
+   */
+  private formatNotes(notes: NotesPage, query: NotesQuery): string {
+    if (notes.total === 0) {
+      return `No notes recorded yet.\n`;
+    }
+
+    const filters = [
+      query.kinds ? `kinds ${query.kinds.join(', ')}` : '',
+      query.author ? `author ${query.author}` : ''
+    ].filter(Boolean);
+    if (notes.entries.length === 0) {
+      return `No notes${filters.length > 0 ? ` matching ${filters.join(' and ')}` : ''} on this page (${notes.matching} of ${notes.total} notes match).\n`;
+    }
+
+    let output = `Showing ${query.offset + 1}-${query.offset + notes.entries.length} of ${notes.matching}` +
+      `${notes.matching !== notes.total ? ` matching notes (${notes.total} total, ${filters.join(' and ')})` : ' notes'}, most recent first\n\n`;
+    notes.entries.forEach(entry => {
+      output += `**[${entry.timestamp || 'undated'}]** ${this.getNoteKindEmoji(entry.kind)} ${formatNoteHeader(entry)}\n${entry.text}\n\n`;
+    });
+
+    const remaining = notes.matching - query.offset - notes.entries.length;
+    if (remaining > 0) {
+      output += `... ${remaining} older notes not shown (use notesOffset: ${query.offset + notes.entries.length})\n`;
+    }
+    return output;
+  }
+
+  /**
+   * Get note kind emoji for visual clarity
+   */
+  private getNoteKindEmoji(kind: NoteKind): string {
+    const kindEmojis: Record<NoteKind, string> = {
+      'progress': '📝',
+      'status-change': '🔀',
+      'completion-proof': '✅',
+      'blocker': '🚧'
+    };
+    return kindEmojis[kind];
+  }
+
   /**
    * Get status emoji for visual clarity
    */
   private getStatusEmoji(status: TaskStatus): string {
-    const statusEmojis: { [key in TaskStatus]: string } = {
+    const statusEmojis: Record<string, string> = {
       'pending': '⏳',
       'in-progress': '🔄',
       'done': '✅',
@@ -196,7 +333,7 @@ export class TaskManagerGetTaskTool extends ChonkyTool {
       'cancelled': '❌',
       'review': '👀'
     };
-    return statusEmojis[status];
+    return statusEmojis[status] || '🔹';
   }
 
   /**
@@ -9,12 +9,14 @@ import { z } from 'zod';
 import { ProjectData } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
 import { normalizeProjectKey } from './utils.js';
+import { saveProject } from './project-store.js';
+import { resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
 const importExportSchema = z.object({
   operation: z.enum(['export', 'import']),
-  project: z.string().min(1, 'Project name is required'),
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
   filePath: z.string().min(1, 'File path is required')
 });
 
@@ -33,14 +35,14 @@ export class TaskManagerImportExportTool extends ChonkyTool {
       },
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project"). Optional for export (defaults to the active project), required for import'
       },
       filePath: {
         type: 'string',
         description: 'Absolute file path for export/import (must end with .json)'
       }
     },
-    required: ['operation', 'project', 'filePath']
+    required: ['operation', 'filePath']
   };
 
   private memoryStore = new MemoryStoreTool();
@@ -55,8 +57,16 @@ export class TaskManagerImportExportTool extends ChonkyTool {
       }
 
       if (params.operation === 'export') {
-        return await this.exportProject(context, params.project, params.filePath);
+        const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+        if (!projectName) {
+          return this.error(NO_ACTIVE_PROJECT_ERROR);
+        }
+        return await this.exportProject(context, projectName, params.filePath);
       } else {
+        // Imports never fall back to the active project since they refuse to overwrite it
+        if (!params.project) {
+          return this.error('Project name is required for import');
+        }
         return await this.importProject(context, params.project, params.filePath);
       }
 
@@ -196,18 +206,14 @@ export class TaskManagerImportExportTool extends ChonkyTool {
       const projectData: ProjectData = {
         ...importSnapshot.projectData,
         name: projectName, // Use the specified project name
-        updated: new Date().toISOString() // Update the import timestamp
+        updated: new Date().toISOString(), // Update the import timestamp
+        revision: 0 // Revisions count saves in this store, not in the exported one
       };
 
       // Import project data to memory
-      const storeResult = await this.memoryStore.execute({
-        ...context,
-        arguments: {
-          operation: 'set',
-          key: `tasks.projects.${projectKey}`,
-          value: projectData,
-          namespace: 'chonky-task-manager'
-        }
+      const storeResult = await saveProject(this.memoryStore, context, projectKey, projectData, {
+        tool: this.name,
+        events: [{ type: 'ProjectImported', project: projectData, source: filePath }]
       });
 
       if (!storeResult.success) {
@@ -6,160 +6,15 @@
 import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
 import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
-import { Task, Subtask, ProjectData, Priority } from './types.js';
+import { Task, Subtask, ProjectData } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import { validateProjectName } from './project-validation.js';
-
-/**
- * Securely validates and constructs file path within a base directory
- */
-function securePathJoin(baseDir: string, filename: string): string {
-  // Validate filename is safe (no path separators or traversal attempts)
-  if (filename.includes('/') || filename.includes('\\') || filename.includes('..')) {
-    throw new Error(`Unsafe filename: ${filename}`);
-  }
-  
-  // Use a whitelist pattern for expected task files
-  if (!/^task\d+(-\d+)?\.md$/.test(filename)) {
-    throw new Error(`Invalid task filename pattern: ${filename}`);
-  }
-  
-  // Construct the path safely using string concatenation to avoid linter issues
-  const safePath = baseDir + path.sep + filename;
-  return safePath;
-}
-
-import { validateDependencies, touchProject, normalizeProjectKey } from './utils.js';
-
-// Parse YAML frontmatter from markdown
-function parseYamlFrontmatter(content: string): { frontmatter: any; markdown: string } {
-  const lines = content.split('\n');
-  if (lines[0] !== '---') {
-    return { frontmatter: {}, markdown: content };
-  }
-
-  const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line === '---');
-  if (frontmatterEnd === -1) {
-    return { frontmatter: {}, markdown: content };
-  }
-
-  const frontmatterLines = lines.slice(1, frontmatterEnd);
-  const markdown = lines.slice(frontmatterEnd + 1).join('\n').trim();
-  
-  const frontmatter: any = {};
-  let currentKey: string | null = null;
-  let multilineValue: string[] = [];
-  let isMultiline = false;
-  
-  for (let i = 0; i < frontmatterLines.length; i++) {
-    const line = frontmatterLines[i];
-    const colonIndex = line.indexOf(':');
-    
-    // Check if this is a new key-value pair
-    if (colonIndex > 0 && !line.startsWith(' ') && !line.startsWith('\t')) {
-      // Save previous multiline value if any
-      if (currentKey && isMultiline) {
-        frontmatter[currentKey] = multilineValue.join('\n').trim();
-        multilineValue = [];
-        isMultiline = false;
-      }
-      
-      currentKey = line.slice(0, colonIndex).trim();
-      const value = line.slice(colonIndex + 1).trim();
-      
-      // Check if this starts a multiline string
-      if (value === '|') {
-        isMultiline = true;
-        multilineValue = [];
-      } else if (value.startsWith('[') && value.endsWith(']')) {
-        // Parse arrays like dependencies: [1, 2, 3]
-        try {
-          frontmatter[currentKey] = JSON.parse(value);
-        } catch {
-          frontmatter[currentKey] = value;
-        }
-        currentKey = null;
-      } else {
-        // Regular string value - remove quotes
-        frontmatter[currentKey] = value.replace(/^["']|["']$/g, '');
-        currentKey = null;
-      }
-    } else if (isMultiline && currentKey) {
-      // This is a continuation of a multiline value
-      // Remove the leading indentation (typically 2 spaces)
-      const cleanLine = line.replace(/^  /, '');
-      multilineValue.push(cleanLine);
-    }
-  }
-  
-  // Handle any remaining multiline value
-  if (currentKey && isMultiline) {
-    frontmatter[currentKey] = multilineValue.join('\n').trim();
-  }
-
-  return { frontmatter, markdown };
-}
-
-// Parse task filename to extract ID and parent info
-function parseTaskFilename(filename: string): { taskId: number; parentId?: number; isSubtask: boolean } {
-  const baseName = path.basename(filename, '.md');
-  
-  // Pattern: taskX.md or taskX-Y.md
-  const match = baseName.match(/^task(\d+)(?:-(\d+))?$/);
-  if (!match) {
-    throw new Error(`Invalid task filename format: ${filename}. Expected taskX.md or taskX-Y.md`);
-  }
-
-  const taskId = parseInt(match[1]);
-  const subtaskId = match[2] ? parseInt(match[2]) : undefined;
-  
-  return {
-    taskId: subtaskId ? taskId : taskId,
-    parentId: subtaskId ? taskId : undefined,
-    isSubtask: !!subtaskId
-  };
-}
-
-// Parse task file content
-async function parseTaskFile(filePath: string): Promise<{
-  filename: string;
-  taskId: number;
-  parentId?: number;
-  isSubtask: boolean;
-  title: string;
-  description: string;
-  details?: string;
-  successCriteria?: string;
-  priority: Priority;
-  dependencies: number[];
-}> {
-  const content = await fs.readFile(filePath, 'utf8');
-  const { frontmatter, markdown } = parseYamlFrontmatter(content);
-  const filename = path.basename(filePath);
-  const { taskId, parentId, isSubtask } = parseTaskFilename(filename);
-
-  // Extract sections from markdown
-  const sections = markdown.split(/^## /m);
-  const description = sections[0].replace(/^# /, '').trim();
-  
-  const details = sections.find(s => s.startsWith('Details'))?.replace('Details\n', '').trim();
-  const successCriteria = sections.find(s => s.startsWith('Success Criteria'))?.replace('Success Criteria\n', '').trim();
-
-  return {
-    filename,
-    taskId,
-    parentId,
-    isSubtask,
-    title: frontmatter.title || `Task ${taskId}${parentId ? `-${taskId}` : ''}`,
-    description: description || frontmatter.description || 'No description provided',
-    details: details || frontmatter.details,
-    successCriteria: successCriteria || frontmatter.successCriteria,
-    priority: (frontmatter.priority as Priority) || 'medium',
-    dependencies: frontmatter.dependencies || []
-  };
-}
+import { validateDependencies, touchProject, normalizeProjectKey, compareTaskIds, getSubtasks, countSubtasks } from './utils.js';
+import { saveProject } from './project-store.js';
+import { TASK_FILE_PATTERN, securePathJoin, parseTaskFile } from './task-files.js';
+import { parseNoteEntries } from './notes.js';
 
 const importFolderSchema = z.object({
   folderPath: z.string().min(1, 'Folder path is required'),
@@ -280,7 +135,7 @@ export class TaskManagerImportFolderTool extends ChonkyTool {
 
       // Scan for task files
       const files = await fs.readdir(resolvedFolderPath);
-      const taskFiles = files.filter(f => f.match(/^task\d+(-\d+)?\.md$/));
+      const taskFiles = files.filter(f => TASK_FILE_PATTERN.test(f));
       
       if (taskFiles.length === 0) {
         return this.error(`No task files found in ${validated.folderPath}. Expected files like task1.md, task2.md, task1-1.md`);
@@ -299,41 +154,45 @@ export class TaskManagerImportFolderTool extends ChonkyTool {
         }
       }
 
-      // Sort tasks: main tasks first, then subtasks
-      parsedTasks.sort((a, b) => {
-        if (a.isSubtask && !b.isSubtask) return 1;
-        if (!a.isSubtask && b.isSubtask) return -1;
-        if (a.parentId !== b.parentId) return (a.parentId || 0) - (b.parentId || 0);
-        return a.taskId - b.taskId;
-      });
+      // Sort tasks so every parent comes before its subtasks
+      parsedTasks.sort((a, b) => compareTaskIds(a.id, b.id));
 
       // Import tasks
       const createdTasks: Task[] = [];
-      const createdSubtasks: { parentId: number; subtask: Subtask }[] = [];
+      const createdSubtasks: { parentId: string; subtask: Subtask }[] = [];
+      const createdById = new Map<string, Task | Subtask>(); // Keyed by the ID in the filename
       const now = new Date().toISOString();
 
       for (const taskData of parsedTasks) {
         if (taskData.isSubtask && taskData.parentId) {
-          // Find parent task
-          const parentTask = createdTasks.find(t => t.id === taskData.parentId);
+          // Find parent task or subtask
+          const parentTask = createdById.get(taskData.parentId);
           if (!parentTask) {
             return this.error(`Parent task ${taskData.parentId} not found for subtask in ${taskData.filename}`);
           }
 
           // Create subtask
-          const subtaskId = parentTask.subtasks.length + 1;
+          const subtaskId = getSubtasks(parentTask).length + 1;
           const subtask: Subtask = {
             id: subtaskId,
             title: taskData.title,
             description: taskData.description,
             details: taskData.details,
-            status: 'pending',
+            successCriteria: taskData.successCriteria,
+            status: taskData.status || 'pending',
+            priority: taskData.priority,
             dependencies: taskData.dependencies,
-            notes: undefined
+            tags: taskData.tags,
+            dueDate: taskData.dueDate,
+            estimate: taskData.estimate,
+            actualTime: taskData.actualTime,
+            notes: taskData.notes ? parseNoteEntries(taskData.notes, now) : undefined,
+            created: now,
+            updated: now
           };
 
-          parentTask.subtasks.push(subtask);
-          parentTask.updated = now;
+          parentTask.subtasks = [...getSubtasks(parentTask), subtask];
+          createdById.set(taskData.id, subtask);
           createdSubtasks.push({ parentId: taskData.parentId, subtask });
         } else {
           // Create main task
@@ -343,17 +202,22 @@ export class TaskManagerImportFolderTool extends ChonkyTool {
             description: taskData.description,
             details: taskData.details,
             successCriteria: taskData.successCriteria,
-            status: 'pending',
+            status: taskData.status || 'pending',
             priority: taskData.priority,
             dependencies: taskData.dependencies,
+            tags: taskData.tags,
+            dueDate: taskData.dueDate,
+            estimate: taskData.estimate,
+            actualTime: taskData.actualTime,
             subtasks: [],
-            notes: undefined,
+            notes: taskData.notes ? parseNoteEntries(taskData.notes, now) : undefined,
             created: now,
             updated: now
           };
 
           project.tasks.push(task);
           createdTasks.push(task);
+          createdById.set(taskData.id, task);
         }
       }
 
@@ -366,14 +230,9 @@ export class TaskManagerImportFolderTool extends ChonkyTool {
       touchProject(project);
 
       // Save project
-      const saveResult = await this.memoryStore.execute({
-        ...context,
-        arguments: {
-          operation: 'set',
-          key: `tasks.projects.${projectKey}`,
-          value: project,
-          namespace: 'chonky-task-manager'
-        }
+      const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+        tool: this.name,
+        events: [{ type: 'ProjectImported', project, source: validated.folderPath }]
       });
 
       if (!saveResult.success) {
@@ -405,7 +264,8 @@ export class TaskManagerImportFolderTool extends ChonkyTool {
       if (createdTasks.length > 0) {
         summary += `**Main Tasks:**\n`;
         createdTasks.forEach(task => {
-          const subtaskInfo = task.subtasks.length > 0 ? ` (${task.subtasks.length} subtasks)` : '';
+          const subtaskCount = countSubtasks(task);
+          const subtaskInfo = subtaskCount > 0 ? ` (${subtaskCount} subtasks)` : '';
           summary += `  • #${task.id}: ${task.title}${subtaskInfo}\n`;
         });
       }
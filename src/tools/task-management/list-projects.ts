@@ -0,0 +1,146 @@
+/**
+ * ChonkyTasks - List Projects Tool
+ * Shows all projects with progress, task counts and last update
+ */
+
+import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { z } from 'zod';
+import { ProjectData } from './types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import { normalizeProjectKey, countSubtasks } from './utils.js';
+import { getActiveProjectSuggestion } from './project-validation.js';
+import { TASK_MANAGER_NAMESPACE } from './project-store.js';
+
+const listProjectsSchema = z.object({
+  includeArchived: z.boolean().default(false),
+  outputFormat: z.enum(['table', 'json']).default('table')
+});
+
+interface ProjectSummary {
+  name: string;
+  active: boolean;
+  archived?: string;
+  tasks: number;
+  done: number;
+  inProgress: number;
+  subtasks: number;
+  completion: number;
+  created: string;
+  updated: string;
+}
+
+export class TaskManagerListProjectsTool extends ChonkyTool {
+  readonly name = 'chonky-task-manager-list-projects';
+  readonly description = 'List all projects with progress, task counts and last update, marking the active project';
+  readonly category = 'Utilities' as const;
+
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      includeArchived: {
+        type: 'boolean',
+        default: false,
+        description: 'Also list archived projects'
+      },
+      outputFormat: {
+        type: 'string',
+        enum: ['table', 'json'],
+        default: 'table',
+        description: 'Output format'
+      }
+    },
+    required: []
+  };
+
+  private memoryStore = new MemoryStoreTool();
+
+  async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const params = listProjectsSchema.parse(context.arguments || {});
+
+      const queryResult = await this.memoryStore.execute({
+        ...context,
+        arguments: {
+          operation: 'query',
+          pattern: 'tasks.projects.*',
+          namespace: TASK_MANAGER_NAMESPACE
+        }
+      });
+
+      if (!queryResult.success) {
+        return this.error(`Failed to list projects: ${queryResult.result}`);
+      }
+
+      const activeProject = await getActiveProjectSuggestion(this.memoryStore, context);
+      const activeKey = activeProject ? normalizeProjectKey(activeProject) : null;
+      const projects: ProjectData[] = Object.values(JSON.parse(queryResult.result).results || {});
+
+      const summaries = projects
+        .map(project => this.summarize(project, normalizeProjectKey(project.name) === activeKey))
+        .sort((a, b) => b.updated.localeCompare(a.updated));
+      const visible = summaries.filter(summary => params.includeArchived || !summary.archived);
+      const archivedCount = summaries.filter(summary => summary.archived).length;
+
+      if (params.outputFormat === 'json') {
+        return this.success(JSON.stringify(visible, null, 2), {
+          projects: visible,
+          activeProject,
+          archivedProjects: archivedCount
+        });
+      }
+
+      let output = `## 🗂️ Projects\n\n`;
+
+      if (visible.length === 0) {
+        output += `No projects found.`;
+        if (archivedCount > 0 && !params.includeArchived) {
+          output += ` ${archivedCount} archived project${archivedCount > 1 ? 's are' : ' is'} hidden (use includeArchived).`;
+        }
+        output += `\n\nUse \`chonky-task-manager-create-project\` to create your first project.`;
+        return this.success(output, { projects: [], activeProject, archivedProjects: archivedCount });
+      }
+
+      output += `| Project | Progress | Tasks | In Progress | Subtasks | Last Update |\n`;
+      output += `|---------|----------|-------|-------------|----------|-------------|\n`;
+      visible.forEach(summary => {
+        const marker = summary.active ? '⭐ ' : summary.archived ? '📦 ' : '';
+        output += `| ${marker}${summary.name} | ${summary.completion}% (${summary.done}/${summary.tasks}) | ${summary.tasks} | ${summary.inProgress} | ${summary.subtasks} | ${summary.updated} |\n`;
+      });
+
+      output += `\n**Active Project:** ${activeProject || 'none'}`;
+      if (archivedCount > 0 && !params.includeArchived) {
+        output += `\n${archivedCount} archived project${archivedCount > 1 ? 's' : ''} hidden (use includeArchived to show).`;
+      }
+      output += `\n\nUse \`chonky-task-manager-manage-project\` with operation "set-active" to switch the active project.`;
+
+      return this.success(output, {
+        projects: visible,
+        activeProject,
+        archivedProjects: archivedCount
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+
+  private summarize(project: ProjectData, active: boolean): ProjectSummary {
+    const done = project.tasks.filter(task => task.status === 'done').length;
+    return {
+      name: project.name,
+      active,
+      archived: project.archived,
+      tasks: project.tasks.length,
+      done,
+      inProgress: project.tasks.filter(task => task.status === 'in-progress').length,
+      subtasks: project.tasks.reduce((count, task) => count + countSubtasks(task), 0),
+      completion: project.tasks.length > 0 ? Math.round((done / project.tasks.length) * 100) : 0,
+      created: project.created,
+      updated: project.updated
+    };
+  }
+}
@@ -8,12 +8,18 @@ import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
 import { Task, Subtask, ProjectData, TaskStatus, VALID_STATUSES, STATUS_COLORS, PRIORITY_COLORS } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
-import { getNextTask, getReadyTasks, formatDependencies, calculateTaskProgress, normalizeProjectKey } from './utils.js';
-import { createProjectNotFoundError } from './project-validation.js';
+import { getNextTask, getReadyTasks, formatDependencies, calculateTaskProgress, flattenSubtasks, matchesTagFilter, describeTagFilter, getActiveClaim, getDueState, formatDueFlag, formatHours, normalizeProjectKey } from './utils.js';
+import { createProjectNotFoundError, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { getWorkflow } from './workflow.js';
 
 const listTasksSchema = z.object({
-  project: z.string().min(1, 'Project name is required'),
-  status: z.enum(['pending', 'in-progress', 'done', 'blocked', 'deferred', 'cancelled', 'review']).optional(),
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  status: z.string().min(1, 'Status cannot be empty').optional(),
+  tags: z.object({
+    any: z.array(z.string()).optional(),
+    all: z.array(z.string()).optional(),
+    none: z.array(z.string()).optional()
+  }).optional(),
   withSubtasks: z.boolean().default(false),
   showStats: z.boolean().default(true),
   outputFormat: z.enum(['table', 'compact', 'json']).default('table')
@@ -29,12 +35,20 @@ export class TaskManagerListTasksTool extends ChonkyTool {
     properties: {
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
       },
       status: {
         type: 'string',
-        enum: ['pending', 'in-progress', 'done', 'blocked', 'deferred', 'cancelled', 'review'],
-        description: 'Filter by task status'
+        description: 'Filter by task status: pending, in-progress, done, blocked, deferred, cancelled, review or a status of the project\'s custom workflow'
+      },
+      tags: {
+        type: 'object',
+        properties: {
+          any: { type: 'array', items: { type: 'string' }, description: 'Tasks with at least one of these tags' },
+          all: { type: 'array', items: { type: 'string' }, description: 'Tasks with every one of these tags' },
+          none: { type: 'array', items: { type: 'string' }, description: 'Tasks with none of these tags' }
+        },
+        description: 'Filter tasks by their tags'
       },
       withSubtasks: {
         type: 'boolean',
@@ -53,7 +67,7 @@ export class TaskManagerListTasksTool extends ChonkyTool {
         description: 'Output format'
       }
     },
-    required: ['project']
+    required: []
   };
 
   private memoryStore = new MemoryStoreTool();
@@ -63,7 +77,11 @@ export class TaskManagerListTasksTool extends ChonkyTool {
       const params = listTasksSchema.parse(context.arguments);
       
       // Get project data
-      const projectKey = normalizeProjectKey(params.project);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
       const projectResult = await this.memoryStore.execute({
         ...context,
         arguments: {
@@ -74,17 +92,25 @@ export class TaskManagerListTasksTool extends ChonkyTool {
       });
       
       if (!projectResult.success || projectResult.result === 'undefined') {
-        const errorMessage = await createProjectNotFoundError(params.project, this.memoryStore, context);
+        const errorMessage = await createProjectNotFoundError(projectName, this.memoryStore, context);
         return this.error(errorMessage);
       }
 
       const project: ProjectData = JSON.parse(projectResult.result);
+      const workflow = getWorkflow(project);
+      if (params.status && !workflow.statuses.includes(params.status)) {
+        return this.error(`Unknown status "${params.status}". Statuses of project "${project.name}": ${workflow.statuses.join(', ')}.`);
+      }
       
       // Filter tasks by status if specified
       let filteredTasks = project.tasks;
       if (params.status) {
         filteredTasks = project.tasks.filter(task => task.status === params.status);
       }
+      if (params.tags) {
+        filteredTasks = filteredTasks.filter(task => matchesTagFilter(task, params.tags));
+      }
+      const tagFilterText = describeTagFilter(params.tags);
 
       // Return JSON format if requested
       if (params.outputFormat === 'json') {
@@ -93,7 +119,7 @@ export class TaskManagerListTasksTool extends ChonkyTool {
             project: project.name,
             totalTasks: project.tasks.length,
             filteredTasks: filteredTasks.length,
-            filter: { status: params.status },
+            filter: { status: params.status, tags: params.tags },
             tasks: filteredTasks
           }, null, 2),
           {
@@ -106,22 +132,30 @@ export class TaskManagerListTasksTool extends ChonkyTool {
 
       // Calculate statistics
       const stats = this.calculateStats(project);
-      const nextTask = getNextTask(project);
-      const readyTasks = getReadyTasks(project);
+      const nextTask = getNextTask(project, params.tags);
+      const readyTasks = getReadyTasks(project).filter(task => matchesTagFilter(task, params.tags));
 
       // Build output
       let output = `## 📋 **${project.name}** Task List\n\n`;
+      if (project.archived) {
+        output += `📦 **Archived** since ${project.archived} (read-only)\n\n`;
+      }
+      output += `**Revision:** ${project.revision ?? 0}\n\n`;
+      if (tagFilterText) {
+        output += `**Tag Filter:** ${tagFilterText}\n\n`;
+      }
 
       if (params.showStats) {
         output += this.renderStats(stats, nextTask, readyTasks);
       }
 
       if (filteredTasks.length === 0) {
-        output += `### Tasks\n\nNo tasks found${params.status ? ` with status "${params.status}"` : ''}.\n\n`;
+        output += `### Tasks\n\nNo tasks found${params.status ? ` with status "${params.status}"` : ''}${tagFilterText ? ` matching tags (${tagFilterText})` : ''}.\n\n`;
         output += `Use \`chonky-task-manager-add-task\` to create your first task.`;
         
         return this.success(output, { 
           project: project.name, 
+          revision: project.revision ?? 0,
           tasks: [], 
           stats 
         });
@@ -136,6 +170,7 @@ export class TaskManagerListTasksTool extends ChonkyTool {
 
       return this.success(output, {
         project: project.name,
+        revision: project.revision ?? 0,
         tasks: filteredTasks,
         stats,
         nextTask,
@@ -151,15 +186,9 @@ export class TaskManagerListTasksTool extends ChonkyTool {
   }
 
   private calculateStats(project: ProjectData) {
-    const statusCounts = {
-      pending: 0,
-      'in-progress': 0,
-      done: 0,
-      blocked: 0,
-      deferred: 0,
-      cancelled: 0,
-      review: 0
-    };
+    // One count per status of the project workflow, in workflow order
+    const statusCounts: Record<string, number> = {};
+    getWorkflow(project).statuses.forEach(status => statusCounts[status] = 0);
 
     const priorityCounts = {
       high: 0,
@@ -170,12 +199,40 @@ export class TaskManagerListTasksTool extends ChonkyTool {
     let totalSubtasks = 0;
     let completedSubtasks = 0;
 
+    // Tags are counted on tasks and subtasks alike
+    const tagCounts: Record<string, { total: number; done: number }> = {};
+    // Deadlines and effort are counted on tasks and subtasks alike as well
+    const dueCounts = { overdue: 0, 'due-soon': 0 };
+    let estimatedHours = 0;
+    let actualHours = 0;
+    const countEntity = (entity: Task | Subtask) => {
+      const dueState = getDueState(entity, new Date(), getWorkflow(project).finalStatuses);
+      if (dueState) {
+        dueCounts[dueState]++;
+      }
+      estimatedHours += entity.estimate || 0;
+      actualHours += entity.actualTime || 0;
+      countTags(entity);
+    };
+    const countTags = (entity: Task | Subtask) => {
+      (entity.tags || []).forEach(tag => {
+        tagCounts[tag] = tagCounts[tag] || { total: 0, done: 0 };
+        tagCounts[tag].total++;
+        if (entity.status === 'done') {
+          tagCounts[tag].done++;
+        }
+      });
+    };
+
     project.tasks.forEach(task => {
-      statusCounts[task.status]++;
+      statusCounts[task.status] = (statusCounts[task.status] || 0) + 1;
       priorityCounts[task.priority]++;
+      countEntity(task);
       
-      totalSubtasks += task.subtasks.length;
-      completedSubtasks += task.subtasks.filter(st => st.status === 'done').length;
+      const subtasks = flattenSubtasks(task, `${task.id}`);
+      totalSubtasks += subtasks.length;
+      completedSubtasks += subtasks.filter(({ subtask }) => subtask.status === 'done').length;
+      subtasks.forEach(({ subtask }) => countEntity(subtask));
     });
 
     const completion = project.tasks.length > 0 
@@ -189,6 +246,10 @@ export class TaskManagerListTasksTool extends ChonkyTool {
       completion,
       totalSubtasks,
       completedSubtasks,
+      tagCounts,
+      dueCounts,
+      estimatedHours,
+      actualHours,
       subtaskCompletion: totalSubtasks > 0 
         ? Math.round((completedSubtasks / totalSubtasks) * 100) 
         : 0
@@ -203,13 +264,11 @@ export class TaskManagerListTasksTool extends ChonkyTool {
     
     // Status breakdown
     output += `**Status Breakdown:**\n`;
-    output += `- 🟡 Pending: ${stats.statusCounts.pending}\n`;
-    output += `- 🔵 In Progress: ${stats.statusCounts['in-progress']}\n`;
-    output += `- ✅ Done: ${stats.statusCounts.done}\n`;
-    output += `- 🔴 Blocked: ${stats.statusCounts.blocked}\n`;
-    output += `- ⏸️ Deferred: ${stats.statusCounts.deferred}\n`;
-    output += `- ❌ Cancelled: ${stats.statusCounts.cancelled}\n`;
-    output += `- 👀 Review: ${stats.statusCounts.review}\n\n`;
+    Object.entries(stats.statusCounts as Record<string, number>).forEach(([status, count]) => {
+      const label = status.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+      output += `- ${this.getStatusEmoji(status)} ${label}: ${count}\n`;
+    });
+    output += `\n`;
 
     // Priority breakdown
     output += `**Priority Breakdown:**\n`;
@@ -222,6 +281,24 @@ export class TaskManagerListTasksTool extends ChonkyTool {
       output += `**Subtasks:** ${stats.subtaskCompletion}% complete (${stats.completedSubtasks}/${stats.totalSubtasks})\n\n`;
     }
 
+    // Deadlines and effort
+    if (stats.dueCounts.overdue > 0 || stats.dueCounts['due-soon'] > 0) {
+      output += `**Deadlines:** ⏰ ${stats.dueCounts.overdue} overdue, ⌛ ${stats.dueCounts['due-soon']} due soon\n\n`;
+    }
+    if (stats.estimatedHours > 0 || stats.actualHours > 0) {
+      output += `**Effort:** ${formatHours(stats.actualHours)} spent of ${formatHours(stats.estimatedHours)} estimated\n\n`;
+    }
+
+    // Tag breakdown
+    const tags = Object.keys(stats.tagCounts).sort();
+    if (tags.length > 0) {
+      output += `**Tags:**\n`;
+      tags.forEach(tag => {
+        output += `- 🏷️ ${tag}: ${stats.tagCounts[tag].total} (${stats.tagCounts[tag].done} done)\n`;
+      });
+      output += `\n`;
+    }
+
     // Next task recommendation
     if (nextTask) {
       const deps = nextTask.dependencies.length > 0 ? ` (depends on: ${nextTask.dependencies.join(', ')})` : '';
@@ -245,24 +322,25 @@ export class TaskManagerListTasksTool extends ChonkyTool {
     tasks.forEach(task => {
       const statusEmoji = this.getStatusEmoji(task.status);
       const priorityEmoji = this.getPriorityEmoji(task.priority);
-      const depsText = formatDependencies(project, task.dependencies);
-      const progress = calculateTaskProgress(task);
+      const depsText = formatDependencies(project, task.dependencies, `${task.id}`);
+      const progress = calculateTaskProgress(task, getWorkflow(project).finalStatuses);
       const titleWithProgress = task.subtasks.length > 0 
         ? `${task.title} (${progress}%)`
         : task.title;
+      const tagsText = this.formatBadges(task, project);
 
-      output += `| ${task.id} | ${statusEmoji} ${task.status} | ${priorityEmoji} ${task.priority} | ${titleWithProgress} | ${depsText} |\n`;
+      output += `| ${task.id} | ${statusEmoji} ${task.status} | ${priorityEmoji} ${task.priority} | ${titleWithProgress}${tagsText} | ${depsText} |\n`;
 
       // Add subtasks if requested
       if (withSubtasks && task.subtasks.length > 0) {
-        task.subtasks.forEach(subtask => {
+        flattenSubtasks(task, `${task.id}`).forEach(({ id, subtask, depth }) => {
           const subStatusEmoji = this.getStatusEmoji(subtask.status);
           const subDeps = Array.isArray(subtask.dependencies) ? subtask.dependencies : [];
-          const subDepsText = subDeps.length > 0 
-            ? subDeps.join(', ') 
-            : 'None';
+          const subDepsText = formatDependencies(project, subDeps, id);
+          
+          const subPriorityText = subtask.priority ? `${this.getPriorityEmoji(subtask.priority)} ${subtask.priority}` : '-';
           
-          output += `| ${task.id}.${subtask.id} | ${subStatusEmoji} ${subtask.status} | - | ↳ ${subtask.title} | ${subDepsText} |\n`;
+          output += `| ${id} | ${subStatusEmoji} ${subtask.status} | ${subPriorityText} | ${'↳ '.repeat(depth)}${subtask.title}${this.formatBadges(subtask, project)} | ${subDepsText} |\n`;
         });
       }
     });
@@ -278,12 +356,12 @@ export class TaskManagerListTasksTool extends ChonkyTool {
       const priorityEmoji = this.getPriorityEmoji(task.priority);
       const deps = task.dependencies.length > 0 ? ` [deps: ${task.dependencies.join(', ')}]` : '';
       
-      output += `${task.id}. ${statusEmoji} ${priorityEmoji} ${task.title}${deps}\n`;
+      output += `${task.id}. ${statusEmoji} ${priorityEmoji} ${task.title}${this.formatBadges(task, project)}${deps}\n`;
 
       if (withSubtasks && task.subtasks.length > 0) {
-        task.subtasks.forEach(subtask => {
+        flattenSubtasks(task, `${task.id}`).forEach(({ id, subtask, depth }) => {
           const subStatusEmoji = this.getStatusEmoji(subtask.status);
-          output += `  ${task.id}.${subtask.id}. ${subStatusEmoji} ${subtask.title}\n`;
+          output += `${'  '.repeat(depth)}${id}. ${subStatusEmoji} ${subtask.title}${this.formatBadges(subtask, project)}\n`;
         });
       }
     });
@@ -291,8 +369,14 @@ export class TaskManagerListTasksTool extends ChonkyTool {
     return output + '\n';
   }
 
+  private formatBadges(entity: Task | Subtask, project: ProjectData): string {
+    const tags = entity.tags && entity.tags.length > 0 ? ` 🏷️ ${entity.tags.join(', ')}` : '';
+    const claim = getActiveClaim(entity);
+    return `${tags}${claim ? ` 🔒 ${claim.claimedBy}` : ''}${formatDueFlag(entity, getWorkflow(project).finalStatuses)}`;
+  }
+
   private getStatusEmoji(status: TaskStatus): string {
-    const emojis = {
+    const emojis: Record<string, string> = {
       'pending': '🟡',
       'in-progress': '🔵', 
       'done': '✅',
@@ -301,7 +385,7 @@ export class TaskManagerListTasksTool extends ChonkyTool {
       'cancelled': '❌',
       'review': '👀'
     };
-    return emojis[status] || '❓';
+    return emojis[status] || '🔹';
   }
 
   private getPriorityEmoji(priority: string): string {
@@ -6,20 +6,28 @@
 import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
 import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
-import { ProjectData } from './types.js';
+import { ProjectData, TaskDependency } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
-import { findTaskById, validateDependencies, touchTask, touchProject, normalizeProjectKey } from './utils.js';
+import { TASK_ID_PATTERN, findTaskNode, getDependencyIds, getIncompleteDependencies, toDependencyValue, validateDependencies, touchTask, touchProject, normalizeProjectKey } from './utils.js';
+import { resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { saveProject } from './project-store.js';
+import { getFinalStatuses } from './workflow.js';
+
+const hierarchicalIdSchema = (label: string) => z.union([
+  z.number().int().positive(`${label} must be a positive integer`),
+  z.string().regex(TASK_ID_PATTERN, `${label} must be a task or subtask ID like "3" or "2.4"`)
+]);
 
 const manageDependenciesSchema = z.object({
-  project: z.string().min(1, 'Project name is required'),
-  taskId: z.number().int().positive('Task ID must be a positive integer'),
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  taskId: hierarchicalIdSchema('Task ID'),
   operation: z.enum(['add', 'remove']),
-  dependencyId: z.number().int().positive('Dependency ID must be a positive integer')
+  dependencyId: hierarchicalIdSchema('Dependency ID')
 });
 
 export class TaskManagerDependenciesTool extends ChonkyTool {
   readonly name = 'chonky-task-manager-manage-dependencies';
-  readonly description = 'Add or remove dependencies between tasks with circular dependency checking';
+  readonly description = 'Add or remove dependencies between tasks and subtasks at any level with circular dependency checking';
   readonly category = 'Utilities' as const;
   
   readonly inputSchema = {
@@ -27,11 +35,11 @@ export class TaskManagerDependenciesTool extends ChonkyTool {
     properties: {
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
       },
       taskId: {
-        type: 'number',
-        description: 'ID of the task to modify dependencies for'
+        type: ['number', 'string'],
+        description: 'ID of the task or subtask to modify dependencies for (e.g. 3 or "2.4")'
       },
       operation: {
         type: 'string',
@@ -39,11 +47,11 @@ export class TaskManagerDependenciesTool extends ChonkyTool {
         description: 'Operation to perform (add or remove dependency)'
       },
       dependencyId: {
-        type: 'number',
-        description: 'ID of the task that this task depends on'
+        type: ['number', 'string'],
+        description: 'ID of the task or subtask that this task depends on (e.g. 3 or "2.4")'
       }
     },
-    required: ['project', 'taskId', 'operation', 'dependencyId']
+    required: ['taskId', 'operation', 'dependencyId']
   };
 
   private memoryStore = new MemoryStoreTool();
@@ -53,7 +61,11 @@ export class TaskManagerDependenciesTool extends ChonkyTool {
       const params = manageDependenciesSchema.parse(context.arguments);
       
       // Get project data
-      const projectKey = normalizeProjectKey(params.project);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
       const projectResult = await this.memoryStore.execute({
         ...context,
         arguments: {
@@ -64,41 +76,51 @@ export class TaskManagerDependenciesTool extends ChonkyTool {
       });
       
       if (!projectResult.success || projectResult.result === 'undefined') {
-        return this.error(`Project "${params.project}" not found. Create it first with chonky-task-manager-create-project.`);
+        return this.error(`Project "${projectName}" not found. Create it first with chonky-task-manager-create-project.`);
       }
 
       const project: ProjectData = JSON.parse(projectResult.result);
       
-      // Find the target task
-      const task = findTaskById(project, params.taskId);
-      if (!task) {
-        return this.error(`Task #${params.taskId} not found in project "${params.project}".`);
+      const ownerId = `${params.taskId}`;
+      const depId = `${params.dependencyId}`;
+      const ownerLabel = `${ownerId.includes('.') ? 'Subtask' : 'Task'} #${ownerId}`;
+      const depLabel = `${depId.includes('.') ? 'subtask' : 'task'} #${depId}`;
+
+      // Find the target task or subtask
+      const node = findTaskNode(project, ownerId);
+      if (!node) {
+        return this.error(`${ownerLabel} not found in project "${projectName}".`);
       }
+      const task = node.entity;
 
-      // Find the dependency task
-      const depTask = findTaskById(project, params.dependencyId);
-      if (!depTask) {
-        return this.error(`Dependency task #${params.dependencyId} not found in project "${params.project}".`);
+      // Find the dependency task or subtask
+      const depNode = findTaskNode(project, depId);
+      if (!depNode) {
+        return this.error(`Dependency ${depLabel} not found in project "${projectName}".`);
       }
+      const depTask = depNode.entity;
 
       // Prevent self-dependency
-      if (params.taskId === params.dependencyId) {
-        return this.error(`Task #${params.taskId} cannot depend on itself.`);
+      if (ownerId === depId) {
+        return this.error(`${ownerLabel} cannot depend on itself.`);
       }
 
       let message: string;
+      let dependencyValue: TaskDependency;
       const oldDependencies = [...task.dependencies];
+      const currentDepIds = getDependencyIds(ownerId, task);
 
       if (params.operation === 'add') {
         // Check if dependency already exists
-        if (task.dependencies.includes(params.dependencyId)) {
-          return this.error(`Task #${params.taskId} already depends on task #${params.dependencyId}.`);
+        if (currentDepIds.includes(depId)) {
+          return this.error(`${ownerLabel} already depends on ${depLabel}.`);
         }
 
         // Add the dependency temporarily to test for circular dependencies
-        task.dependencies.push(params.dependencyId);
+        dependencyValue = toDependencyValue(ownerId, depId);
+        task.dependencies.push(dependencyValue);
         
-        // Check for circular dependencies
+        // Check for circular dependencies across the whole task tree
         const validation = validateDependencies(project);
         if (!validation.isValid) {
           // Revert the change
@@ -118,48 +140,47 @@ export class TaskManagerDependenciesTool extends ChonkyTool {
           }
         }
 
-        message = `✅ Added dependency: Task #${params.taskId} now depends on task #${params.dependencyId}`;
+        message = `✅ Added dependency: ${ownerLabel} now depends on ${depLabel}`;
         
         // Check if this blocks the task
-        if (depTask.status !== 'done' && task.status === 'pending') {
-          message += `\n⏸️ Task #${params.taskId} is now blocked until task #${params.dependencyId} is completed.`;
+        if (!getFinalStatuses(project).includes(depTask.status) && task.status === 'pending') {
+          message += `\n⏸️ ${ownerLabel} is now blocked until ${depLabel} is completed.`;
         }
 
       } else { // remove
         // Check if dependency exists
-        if (!task.dependencies.includes(params.dependencyId)) {
-          return this.error(`Task #${params.taskId} does not depend on task #${params.dependencyId}.`);
+        const index = currentDepIds.indexOf(depId);
+        if (index === -1) {
+          return this.error(`${ownerLabel} does not depend on ${depLabel}.`);
         }
 
         // Remove the dependency
-        task.dependencies = task.dependencies.filter(depId => depId !== params.dependencyId);
+        dependencyValue = task.dependencies[index];
+        task.dependencies = task.dependencies.filter((_, i) => i !== index);
         
-        message = `🗑️ Removed dependency: Task #${params.taskId} no longer depends on task #${params.dependencyId}`;
+        message = `🗑️ Removed dependency: ${ownerLabel} no longer depends on ${depLabel}`;
         
         // Check if this unblocks the task
-        const remainingBlockedDeps = task.dependencies.filter(depId => {
-          const remainingDepTask = findTaskById(project, depId);
-          return remainingDepTask?.status !== 'done';
-        });
+        const remainingBlockedDeps = getIncompleteDependencies(project, ownerId, task, getFinalStatuses(project));
 
         if (remainingBlockedDeps.length === 0 && task.status === 'pending') {
-          message += `\n🚀 Task #${params.taskId} is now ready to work on!`;
+          message += `\n🚀 ${ownerLabel} is now ready to work on!`;
         }
       }
 
       // Update timestamps
       touchTask(task);
+      touchTask(node.task);
       touchProject(project);
 
       // Save updated project
-      const saveResult = await this.memoryStore.execute({
-        ...context,
-        arguments: {
-          operation: 'set',
-          key: `tasks.projects.${projectKey}`,
-          value: project,
-          namespace: 'chonky-task-manager'
-        }
+      const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+        tool: this.name,
+        events: [{
+          type: params.operation === 'add' ? 'DependencyAdded' : 'DependencyRemoved',
+          taskId: params.taskId,
+          dependencyId: dependencyValue
+        }]
       });
 
       if (!saveResult.success) {
@@ -167,7 +188,7 @@ export class TaskManagerDependenciesTool extends ChonkyTool {
       }
 
       return this.success(message, {
-        project: params.project,
+        project: projectName,
         taskId: params.taskId,
         dependencyId: params.dependencyId,
         operation: params.operation,
@@ -0,0 +1,320 @@
+/**
+ * ChonkyTasks - Manage Project Tool
+ * Selects the active project, archives, unarchives and deletes projects and
+ * changes their workflow
+ */
+
+import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { z } from 'zod';
+import { ProjectData, ProjectWorkflow } from './types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import { normalizeProjectKey, touchProject, countSubtasks, getAllTaskNodes } from './utils.js';
+import { createProjectNotFoundError, getActiveProjectSuggestion, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { saveProject, withProjectLock, loadStoredProject, createProjectConflictError, getProjectStorageKey, TASK_MANAGER_NAMESPACE } from './project-store.js';
+import { getEventLogKey, getEventChunksKey } from './events.js';
+import { getUndoHistoryKey } from './undo-history.js';
+import { getSyncStateKey } from './sync-folder.js';
+import { workflowSchema, validateWorkflow, getWorkflow, WORKFLOW_INPUT_SCHEMA } from './workflow.js';
+
+const manageProjectSchema = z.object({
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  operation: z.enum(['set-active', 'archive', 'unarchive', 'delete', 'set-workflow']),
+  workflow: workflowSchema.optional(),
+  confirm: z.boolean().default(false)
+});
+
+export class TaskManagerManageProjectTool extends ChonkyTool {
+  readonly name = 'chonky-task-manager-manage-project';
+  readonly description = 'Set the active project used when tools are called without a project, archive, unarchive or permanently delete a project, or change its workflow';
+  readonly category = 'Utilities' as const;
+
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project"). Required for set-active, defaults to the active project otherwise'
+      },
+      operation: {
+        type: 'string',
+        enum: ['set-active', 'archive', 'unarchive', 'delete', 'set-workflow'],
+        description: 'set-active: make the project the default for all tools, archive: hide the project and make it read-only, unarchive: make it editable again, delete: remove it with its history, set-workflow: replace the statuses and allowed transitions of the project'
+      },
+      workflow: {
+        ...WORKFLOW_INPUT_SCHEMA,
+        description: 'New workflow, required for set-workflow: status names, final statuses and allowed transitions'
+      },
+      confirm: {
+        type: 'boolean',
+        default: false,
+        description: 'Required to be true for delete; without it only a summary of what would be deleted is shown'
+      }
+    },
+    required: ['operation']
+  };
+
+  private memoryStore = new MemoryStoreTool();
+
+  async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const params = manageProjectSchema.parse(context.arguments);
+      if (params.operation === 'set-active' && !params.project) {
+        return this.error('Project name is required for set-active');
+      }
+      if (params.operation === 'set-workflow' && !params.workflow) {
+        return this.error('Workflow is required for set-workflow');
+      }
+
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
+
+      const projectResult = await this.memoryStore.execute({
+        ...context,
+        arguments: {
+          operation: 'get',
+          key: getProjectStorageKey(projectKey),
+          namespace: TASK_MANAGER_NAMESPACE
+        }
+      });
+
+      if (!projectResult.success || !projectResult.result || projectResult.result === 'undefined') {
+        const errorMessage = await createProjectNotFoundError(projectName, this.memoryStore, context);
+        return this.error(errorMessage);
+      }
+
+      const project: ProjectData = JSON.parse(projectResult.result);
+
+      switch (params.operation) {
+        case 'set-active':
+          return this.setActiveProject(context, project);
+        case 'archive':
+          return this.archiveProject(context, projectKey, project);
+        case 'unarchive':
+          return this.unarchiveProject(context, projectKey, project);
+        case 'delete':
+          return this.deleteProject(context, projectKey, project, params.confirm);
+        case 'set-workflow':
+          return this.setWorkflow(context, projectKey, project, params.workflow!);
+      }
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+
+  private async setActiveProject(context: ToolExecutionContext, project: ProjectData): Promise<ToolExecutionResult> {
+    if (project.archived) {
+      return this.error(`Project "${project.name}" is archived. Unarchive it before making it the active project.`);
+    }
+
+    const previous = await getActiveProjectSuggestion(this.memoryStore, context);
+    const setResult = await this.memoryStore.execute({
+      ...context,
+      arguments: {
+        operation: 'set',
+        key: 'tasks.activeproject',
+        value: project.name,
+        namespace: TASK_MANAGER_NAMESPACE
+      }
+    });
+
+    if (!setResult.success) {
+      return this.error(`Failed to set active project: ${setResult.result}`);
+    }
+
+    return this.success(
+      `⭐ **Active Project Set**\n\n` +
+      `**Name:** ${project.name}\n` +
+      (previous && previous !== project.name ? `**Previous:** ${previous}\n` : '') +
+      `\nTools called without a project now work on "${project.name}".`,
+      {
+        project: project.name,
+        previousActiveProject: previous,
+        isActiveProject: true
+      }
+    );
+  }
+
+  private async archiveProject(context: ToolExecutionContext, projectKey: string, project: ProjectData): Promise<ToolExecutionResult> {
+    if (project.archived) {
+      return this.error(`Project "${project.name}" is already archived (since ${project.archived}).`);
+    }
+
+    project.archived = new Date().toISOString();
+    touchProject(project);
+
+    const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+      tool: this.name,
+      events: [{ type: 'ProjectArchived' }]
+    });
+
+    if (!saveResult.success) {
+      return this.error(`Failed to archive project: ${saveResult.result}`);
+    }
+
+    const wasActive = await this.clearActiveProject(context, projectKey);
+
+    return this.success(
+      `📦 **Project Archived**\n\n` +
+      `**Name:** ${project.name}\n` +
+      `**Archived:** ${project.archived}\n\n` +
+      `The project is read-only and hidden from the project list, but its tasks can still be viewed.` +
+      (wasActive ? `\nIt is no longer the active project.` : '') +
+      `\nUse operation "unarchive" to continue working on it.`,
+      {
+        project: project.name,
+        archived: project.archived,
+        clearedActiveProject: wasActive
+      }
+    );
+  }
+
+  private async unarchiveProject(context: ToolExecutionContext, projectKey: string, project: ProjectData): Promise<ToolExecutionResult> {
+    if (!project.archived) {
+      return this.error(`Project "${project.name}" is not archived.`);
+    }
+
+    delete project.archived;
+    touchProject(project);
+
+    const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+      tool: this.name,
+      events: [{ type: 'ProjectUnarchived' }]
+    });
+
+    if (!saveResult.success) {
+      return this.error(`Failed to unarchive project: ${saveResult.result}`);
+    }
+
+    return this.success(
+      `📂 **Project Unarchived**\n\n` +
+      `**Name:** ${project.name}\n\n` +
+      `The project can be modified again.`,
+      {
+        project: project.name,
+        archived: false
+      }
+    );
+  }
+
+  private async deleteProject(context: ToolExecutionContext, projectKey: string, project: ProjectData, confirm: boolean): Promise<ToolExecutionResult> {
+    const subtaskCount = project.tasks.reduce((count, task) => count + countSubtasks(task), 0);
+    const contents = `${project.tasks.length} tasks and ${subtaskCount} subtasks`;
+
+    if (!confirm) {
+      return this.error(
+        `Deleting project "${project.name}" permanently removes ${contents}, its event log and undo history. ` +
+        `This cannot be undone. Call again with confirm: true to delete it, or use operation "archive" to keep it read-only instead.`
+      );
+    }
+
+    // Under the project lock no save can land between the revision check and the deletes
+    await withProjectLock(context, projectKey, async () => {
+      const stored = await loadStoredProject(this.memoryStore, context, projectKey);
+      const storedRevision = stored?.revision ?? 0;
+      if (storedRevision !== (project.revision ?? 0)) {
+        throw await createProjectConflictError(this.memoryStore, context, projectKey, project.name, project.revision ?? 0, storedRevision);
+      }
+
+      const keys = [getProjectStorageKey, getEventLogKey, getEventChunksKey, getUndoHistoryKey, getSyncStateKey].map(getKey => getKey(projectKey));
+      for (const key of keys) {
+        await this.memoryStore.execute({
+          ...context,
+          arguments: {
+            operation: 'delete',
+            key,
+            namespace: TASK_MANAGER_NAMESPACE
+          }
+        });
+      }
+    });
+
+    const wasActive = await this.clearActiveProject(context, projectKey);
+
+    return this.success(
+      `🗑️ **Project Deleted**\n\n` +
+      `**Name:** ${project.name}\n` +
+      `**Removed:** ${contents}` +
+      (wasActive ? `\n\nThe active project has been cleared.` : ''),
+      {
+        project: project.name,
+        deleted: true,
+        clearedActiveProject: wasActive
+      }
+    );
+  }
+
+  private async setWorkflow(context: ToolExecutionContext, projectKey: string, project: ProjectData, workflow: ProjectWorkflow): Promise<ToolExecutionResult> {
+    const workflowErrors = validateWorkflow(workflow);
+    if (workflowErrors.length > 0) {
+      return this.error(`Invalid workflow:\n- ${workflowErrors.join('\n- ')}`);
+    }
+
+    // Tasks must not be left in a status the new workflow does not know
+    const stranded = getAllTaskNodes(project).filter(({ entity }) => !workflow.statuses.includes(entity.status));
+    if (stranded.length > 0) {
+      return this.error(
+        `The workflow does not contain the statuses of these tasks:\n` +
+        stranded.map(({ id, entity }) => `- #${id} ${entity.title} (${entity.status})`).join('\n') +
+        `\n\nAdd their statuses to the workflow or move the tasks to another status first.`
+      );
+    }
+
+    const previous = getWorkflow(project);
+    project.workflow = workflow;
+    touchProject(project);
+
+    const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+      tool: this.name,
+      events: [{ type: 'WorkflowChanged', workflow }]
+    });
+
+    if (!saveResult.success) {
+      return this.error(`Failed to change workflow: ${saveResult.result}`);
+    }
+
+    const transitions = workflow.statuses
+      .map(status => `- ${status} → ${(workflow.transitions[status] || []).join(', ') || '(none)'}`)
+      .join('\n');
+
+    return this.success(
+      `🔀 **Workflow Changed**\n\n` +
+      `**Name:** ${project.name}\n` +
+      `**Statuses:** ${workflow.statuses.join(', ')}\n` +
+      `**Final Statuses:** ${workflow.finalStatuses.join(', ')}\n\n` +
+      `**Allowed Transitions:**\n${transitions}`,
+      {
+        project: project.name,
+        workflow,
+        previousWorkflow: previous
+      }
+    );
+  }
+
+  /**
+   * Remove the active project pointer if it refers to the given project
+   */
+  private async clearActiveProject(context: ToolExecutionContext, projectKey: string): Promise<boolean> {
+    const activeProject = await getActiveProjectSuggestion(this.memoryStore, context);
+    if (!activeProject || normalizeProjectKey(activeProject) !== projectKey) {
+      return false;
+    }
+
+    await this.memoryStore.execute({
+      ...context,
+      arguments: {
+        operation: 'delete',
+        key: 'tasks.activeproject',
+        namespace: TASK_MANAGER_NAMESPACE
+      }
+    });
+    return true;
+  }
+}
@@ -8,10 +8,18 @@ import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
 import { Task, ProjectData } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
-import { getNextTask, getReadyTasks, formatDependencies, normalizeProjectKey } from './utils.js';
+import { getNextTask, getReadyTasks, getIncompleteDependencies, formatDependencies, flattenSubtasks, matchesTagFilter, describeTagFilter, getActiveClaim, getForeignClaim, resolveAgentId, getDueState, formatDueDate, formatDueFlag, formatHours, normalizeProjectKey } from './utils.js';
+import { resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { getFinalStatuses } from './workflow.js';
 
 const nextTaskSchema = z.object({
-  project: z.string().min(1, 'Project name is required'),
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  tags: z.object({
+    any: z.array(z.string()).optional(),
+    all: z.array(z.string()).optional(),
+    none: z.array(z.string()).optional()
+  }).optional(),
+  agent: z.string().min(1, 'Agent name cannot be empty').optional(),
   showAlternatives: z.boolean().default(true),
   includeBlocked: z.boolean().default(false)
 });
@@ -26,7 +34,20 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
     properties: {
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+      },
+      tags: {
+        type: 'object',
+        properties: {
+          any: { type: 'array', items: { type: 'string' }, description: 'Tasks with at least one of these tags' },
+          all: { type: 'array', items: { type: 'string' }, description: 'Tasks with every one of these tags' },
+          none: { type: 'array', items: { type: 'string' }, description: 'Tasks with none of these tags' }
+        },
+        description: 'Only recommend tasks whose tags match this filter'
+      },
+      agent: {
+        type: 'string',
+        description: 'Name of the agent asking (optional - defaults to the session ID); tasks claimed by other agents are skipped'
       },
       showAlternatives: {
         type: 'boolean',
@@ -39,7 +60,7 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
         description: 'Include information about blocked tasks'
       }
     },
-    required: ['project']
+    required: []
   };
 
   private memoryStore = new MemoryStoreTool();
@@ -49,7 +70,11 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
       const params = nextTaskSchema.parse(context.arguments);
       
       // Get project data
-      const projectKey = normalizeProjectKey(params.project);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
       const projectResult = await this.memoryStore.execute({
         ...context,
         arguments: {
@@ -60,19 +85,24 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
       });
       
       if (!projectResult.success || projectResult.result === 'undefined') {
-        return this.error(`Project "${params.project}" not found. Create it first with chonky-task-manager-create-project.`);
+        return this.error(`Project "${projectName}" not found. Create it first with chonky-task-manager-create-project.`);
       }
 
       const project: ProjectData = JSON.parse(projectResult.result);
       
       // Get next task recommendation
-      const nextTask = getNextTask(project);
-      const readyTasks = getReadyTasks(project);
+      const agent = resolveAgentId(params.agent, context.sessionId);
+      const nextTask = getNextTask(project, params.tags, agent);
+      const claimedByOthers = getReadyTasks(project).filter(task => getForeignClaim(project, `${task.id}`, agent));
+      const readyTasks = getReadyTasks(project).filter(task =>
+        matchesTagFilter(task, params.tags) && !claimedByOthers.includes(task)
+      );
+      const tagFilterText = describeTagFilter(params.tags);
       
       // Add project completion status at the top
       const allTasks = project.tasks || [];
-      const pendingTasks = allTasks.filter(t => !['done', 'cancelled'].includes(t.status));
-      const completedTasks = allTasks.filter(t => t.status === 'done').length;
+      const pendingTasks = allTasks.filter(t => !getFinalStatuses(project).includes(t.status));
+      const completedTasks = allTasks.filter(t => getFinalStatuses(project).includes(t.status)).length;
       const pct = allTasks.length > 0 ? Math.round((completedTasks / allTasks.length) * 100) : 0;
       
       let output = `📊 **${project.name}** - Progress: ${pct}% (${completedTasks}/${allTasks.length})\n`;
@@ -92,13 +122,24 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
       }
       
       output += `## 🎯 Next Task Recommendation\n\n`;
+      if (tagFilterText) {
+        output += `**Tag Filter:** ${tagFilterText}\n\n`;
+      }
+      if (claimedByOthers.length > 0) {
+        output += `🔒 Skipped ${claimedByOthers.length} ready task${claimedByOthers.length > 1 ? 's' : ''} claimed by other agents: ` +
+          `${claimedByOthers.map(task => `#${task.id} (${getForeignClaim(project, `${task.id}`, agent)!.claim.claimedBy})`).join(', ')}\n\n`;
+      }
 
       if (!nextTask) {
+        if (tagFilterText && getNextTask(project)) {
+          output += `No ready task matches the tag filter. Call again without tags to see other ready tasks.\n\n`;
+        }
         output += this.renderNoTasksAvailable(project, readyTasks, params.includeBlocked);
         return this.success(output, {
-          project: params.project,
+          project: projectName,
           nextTask: null,
           readyTasks: readyTasks.length,
+          claimedByOthers: claimedByOthers.map(task => task.id),
           hasRecommendation: false
         });
       }
@@ -121,16 +162,20 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
       output += this.renderBlockedTasksCompact(project);
 
       return this.success(output, {
-        project: params.project,
+        project: projectName,
         nextTask: {
           id: nextTask.id,
           title: nextTask.title,
           priority: nextTask.priority,
           status: nextTask.status,
           dependencies: nextTask.dependencies,
+          tags: nextTask.tags || [],
+          dueDate: nextTask.dueDate,
+          dueState: getDueState(nextTask, new Date(), getFinalStatuses(project)),
           subtasks: nextTask.subtasks.length
         },
         readyTasks: readyTasks.length,
+        claimedByOthers: claimedByOthers.map(task => task.id),
         hasRecommendation: true
       });
 
@@ -183,6 +228,18 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
     output += `**ID:** ${task.id}\n`;
     output += `**Status:** ${statusEmoji} ${task.status}\n`;
     output += `**Priority:** ${priorityEmoji} ${task.priority}\n`;
+    if (task.tags && task.tags.length > 0) {
+      output += `**Tags:** ${task.tags.join(', ')}\n`;
+    }
+    if (task.dueDate) {
+      output += `**Due:** ${formatDueDate(task, getFinalStatuses(project))}\n`;
+    }
+    if (task.estimate !== undefined) {
+      output += `**Estimate:** ${formatHours(task.estimate)}${task.actualTime ? ` (${formatHours(task.actualTime)} spent)` : ''}\n`;
+    }
+    if (task.claim && getActiveClaim(task)) {
+      output += `**Claimed By:** ${task.claim.claimedBy} (until ${task.claim.expiresAt})\n`;
+    }
     
     if (task.subtasks.length > 0) {
       const completedSubtasks = task.subtasks.filter(st => st.status === 'done').length;
@@ -205,15 +262,16 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
     // Show subtasks
     if (task.subtasks.length > 0) {
       output += `## Subtasks\n`;
-      task.subtasks.forEach(subtask => {
+      flattenSubtasks(task, `${task.id}`).forEach(({ id, subtask, depth }) => {
         const subtaskStatusEmoji = this.getStatusEmoji(subtask.status);
-        output += `- **${task.id}.${subtask.id}** ${subtaskStatusEmoji} ${subtask.title}\n`;
+        output += `${'  '.repeat(depth - 1)}- **${id}** ${subtaskStatusEmoji} ${subtask.title}\n`;
       });
       output += `\n`;
     }
     
     output += `### � **Next Action**\n`;
-    output += `Start working on this task using \`chonky-task-manager-update-task\` to mark it as "in-progress" with progress notes.\n\n`;
+    output += `Start working on this task using \`chonky-task-manager-update-task\` to mark it as "in-progress" with progress notes.\n`;
+    output += `When several agents share this project, claim it first with \`chonky-task-manager-claim-task\` so the others skip it.\n\n`;
 
     return output;
   }
@@ -223,9 +281,9 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
     
     alternatives.forEach((task, index) => {
       const priorityEmoji = this.getPriorityEmoji(task.priority);
-      const depsText = formatDependencies(project, task.dependencies);
+      const depsText = formatDependencies(project, task.dependencies, `${task.id}`);
       
-      output += `${index + 2}. **#${task.id} - ${task.title}**\n`;
+      output += `${index + 2}. **#${task.id} - ${task.title}**${formatDueFlag(task, getFinalStatuses(project))}\n`;
       output += `   ${priorityEmoji} ${task.priority} priority • Dependencies: ${depsText}\n\n`;
     });
 
@@ -234,12 +292,8 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
 
   private renderBlockedTasksInfo(project: ProjectData): string {
     const blockedTasks = project.tasks.filter(t => 
-      t.status !== 'done' && 
-      t.status !== 'cancelled' &&
-      t.dependencies.some(depId => {
-        const depTask = project.tasks.find(dt => dt.id === depId);
-        return depTask?.status !== 'done';
-      })
+      !getFinalStatuses(project).includes(t.status) &&
+      getIncompleteDependencies(project, `${t.id}`, t, getFinalStatuses(project)).length > 0
     );
 
     if (blockedTasks.length === 0) {
@@ -249,10 +303,7 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
     let output = `### 🚧 **Blocked Tasks** (${blockedTasks.length})\n\n`;
     
     blockedTasks.slice(0, 5).forEach(task => {
-      const incompleteDeps = task.dependencies.filter(depId => {
-        const depTask = project.tasks.find(dt => dt.id === depId);
-        return depTask?.status !== 'done';
-      });
+      const incompleteDeps = getIncompleteDependencies(project, `${task.id}`, task, getFinalStatuses(project));
 
       output += `- **#${task.id} - ${task.title}**\n`;
       output += `  Waiting for: ${incompleteDeps.join(', ')}\n\n`;
@@ -263,12 +314,8 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
 
   private renderBlockedTasksCompact(project: ProjectData): string {
     const blockedTasks = project.tasks.filter(t => 
-      t.status !== 'done' && 
-      t.status !== 'cancelled' &&
-      t.dependencies.some(depId => {
-        const depTask = project.tasks.find(dt => dt.id === depId);
-        return depTask?.status !== 'done';
-      })
+      !getFinalStatuses(project).includes(t.status) &&
+      getIncompleteDependencies(project, `${t.id}`, t, getFinalStatuses(project)).length > 0
     );
 
     if (blockedTasks.length === 0) {
@@ -278,10 +325,7 @@ export class TaskManagerNextTaskTool extends ChonkyTool {
     let output = `\n### 🚧 **Blocked Tasks** (${blockedTasks.length})\n`;
     
     blockedTasks.forEach(task => {
-      const incompleteDeps = task.dependencies.filter(depId => {
-        const depTask = project.tasks.find(dt => dt.id === depId);
-        return depTask?.status !== 'done';
-      });
+      const incompleteDeps = getIncompleteDependencies(project, `${task.id}`, task, getFinalStatuses(project));
 
       output += `${task.id} - ${task.title} (waiting for ${incompleteDeps.join(', ')})\n`;
     });
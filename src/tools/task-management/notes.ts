@@ -0,0 +1,96 @@
+/**
+ * Note history of tasks and subtasks: structured entries, their markdown form
+ * in task files and the migration of notes stored as one concatenated string
+ */
+
+import { Task, Subtask, NoteEntry, NoteKind, TaskStatus, NOTE_KINDS } from './types.js';
+
+const TIMESTAMP = '\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?Z';
+
+// Entries start with "[timestamp] " on a line of their own and are separated by a blank line
+const ENTRY_SEPARATOR = new RegExp(`\\n\\s*\\n(?=\\[${TIMESTAMP}\\] )`);
+const ENTRY_START = new RegExp(`^\\[(${TIMESTAMP})\\] (.*)$`);
+
+// Header written by formatNoteEntries, e.g. "blocker (alice): in-progress → blocked"
+const HEADER = new RegExp(`^(${NOTE_KINDS.join('|')})(?: \\((.+)\\))?(?:: (\\S+) → (\\S+))?$`);
+
+// Header of status changes in notes stored before entries were structured
+const LEGACY_STATUS_HEADER = /^Status: (\S+) → (\S+)$/;
+
+/**
+ * Default kind of a note written with an update, derived from its status change
+ */
+export function inferNoteKind(from?: TaskStatus, to?: TaskStatus): NoteKind {
+  if (!to || to === from) {
+    return 'progress';
+  }
+  if (to === 'done') {
+    return 'completion-proof';
+  }
+  return to === 'blocked' ? 'blocker' : 'status-change';
+}
+
+/**
+ * Parse notes in their markdown form, as written by formatNoteEntries or stored
+ * before notes were structured. Text without a timestamp gets the fallback one.
+ */
+export function parseNoteEntries(text: string, fallbackTimestamp: string): NoteEntry[] {
+  return text.trim().split(ENTRY_SEPARATOR).filter(chunk => chunk.trim()).map(chunk => {
+    const [firstLine, ...rest] = chunk.trim().split('\n');
+    const start = firstLine.match(ENTRY_START);
+    if (!start) {
+      return { timestamp: fallbackTimestamp, kind: 'progress', text: chunk.trim() };
+    }
+
+    const [, timestamp, header] = start;
+    const body = rest.join('\n').trim();
+
+    const structured = header.match(HEADER);
+    if (structured && body) {
+      const [, kind, author, from, to] = structured;
+      return {
+        timestamp,
+        kind: kind as NoteKind,
+        text: body,
+        ...(author && { author }),
+        ...(from && { transition: { from, to } })
+      };
+    }
+
+    const legacyStatus = header.match(LEGACY_STATUS_HEADER);
+    if (legacyStatus && body) {
+      const [, from, to] = legacyStatus;
+      return { timestamp, kind: inferNoteKind(from, to), text: body, transition: { from, to } };
+    }
+
+    return { timestamp, kind: 'progress', text: [header, body].filter(Boolean).join('\n') };
+  });
+}
+
+/**
+ * Note history of a task or subtask, migrating notes stored as one string
+ */
+export function getNoteEntries(entity: Task | Subtask): NoteEntry[] {
+  if (!entity.notes) {
+    return [];
+  }
+  if (typeof entity.notes === 'string') {
+    return parseNoteEntries(entity.notes, entity.created || '');
+  }
+  return entity.notes;
+}
+
+/**
+ * Header line of an entry without its timestamp, e.g. "status-change (alice): pending → in-progress"
+ */
+export function formatNoteHeader(entry: NoteEntry): string {
+  return `${entry.kind}${entry.author ? ` (${entry.author})` : ''}` +
+    `${entry.transition ? `: ${entry.transition.from} → ${entry.transition.to}` : ''}`;
+}
+
+/**
+ * Markdown form of a note history as kept in task files; parseNoteEntries reads it back
+ */
+export function formatNoteEntries(entries: NoteEntry[]): string {
+  return entries.map(entry => `[${entry.timestamp}] ${formatNoteHeader(entry)}\n${entry.text.trim()}`).join('\n\n');
+}
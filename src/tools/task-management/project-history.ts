@@ -0,0 +1,220 @@
+/**
+ * ChonkyTasks - Project History Tool
+ * Shows the event log of a project and rebuilds past project states by replaying it
+ */
+
+import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { z } from 'zod';
+import { ProjectData } from './types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import { normalizeProjectKey, describeProjectChanges, flattenSubtasks } from './utils.js';
+import { createProjectNotFoundError, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { loadProjectEvents, getProjectStorageKey, TASK_MANAGER_NAMESPACE } from './project-store.js';
+import { ProjectEvent, PROJECT_EVENT_TYPES, replayProjectEvents, describeProjectEvent } from './events.js';
+
+const projectHistorySchema = z.object({
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  operation: z.enum(['log', 'replay']).default('log'),
+  taskId: z.string().optional(),
+  eventType: z.enum(PROJECT_EVENT_TYPES as [string, ...string[]]).optional(),
+  untilSeq: z.number().int().positive().optional(),
+  limit: z.number().int().positive().default(20)
+});
+
+export class TaskManagerProjectHistoryTool extends ChonkyTool {
+  readonly name = 'chonky-task-manager-project-history';
+  readonly description = 'Show the append-only event log of a project or rebuild its state at any point by replaying the log';
+  readonly category = 'Utilities' as const;
+
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+      },
+      operation: {
+        type: 'string',
+        enum: ['log', 'replay'],
+        default: 'log',
+        description: 'log: list recorded events, replay: rebuild the project state from the log'
+      },
+      taskId: {
+        type: 'string',
+        description: 'Only show events for this task and its subtasks (e.g., "3" or "3.1")'
+      },
+      eventType: {
+        type: 'string',
+        enum: PROJECT_EVENT_TYPES,
+        description: 'Only show events of this type'
+      },
+      untilSeq: {
+        type: 'number',
+        description: 'Stop at this event sequence number (default: latest event)'
+      },
+      limit: {
+        type: 'number',
+        default: 20,
+        description: 'Maximum number of events to show (most recent first)'
+      }
+    },
+    required: []
+  };
+
+  private memoryStore = new MemoryStoreTool();
+
+  async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const params = projectHistorySchema.parse(context.arguments);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
+
+      const projectResult = await this.memoryStore.execute({
+        ...context,
+        arguments: {
+          operation: 'get',
+          key: getProjectStorageKey(projectKey),
+          namespace: TASK_MANAGER_NAMESPACE
+        }
+      });
+
+      if (!projectResult.success || !projectResult.result || projectResult.result === 'undefined') {
+        const errorMessage = await createProjectNotFoundError(projectName, this.memoryStore, context);
+        return this.error(errorMessage);
+      }
+
+      const project: ProjectData = JSON.parse(projectResult.result);
+      const events = await loadProjectEvents(this.memoryStore, context, projectKey);
+
+      if (events.length === 0) {
+        return this.error(`No events recorded for project "${projectName}". Events are recorded for changes made after event logging was introduced.`);
+      }
+
+      if (params.operation === 'replay') {
+        return this.replay(project, events, params.untilSeq);
+      }
+
+      return this.renderLog(project, events, params);
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+
+  private renderLog(project: ProjectData, events: ProjectEvent[], params: z.infer<typeof projectHistorySchema>): ToolExecutionResult {
+    const matching = events.filter(event => {
+      if (params.untilSeq !== undefined && event.seq > params.untilSeq) {
+        return false;
+      }
+      if (params.eventType && event.type !== params.eventType) {
+        return false;
+      }
+      if (params.taskId && !this.eventConcernsTask(event, params.taskId)) {
+        return false;
+      }
+      return true;
+    });
+
+    const shown = matching.slice(-params.limit).reverse();
+
+    let output = `## 📜 **${project.name}** Event Log\n\n`;
+    output += `**Total Events:** ${events.length}`;
+    if (matching.length !== events.length) {
+      output += ` (${matching.length} matching)`;
+    }
+    output += `\n\n`;
+
+    if (shown.length === 0) {
+      output += `No events match the given filters.\n`;
+    } else {
+      output += `| Seq | Time | Event | Tool | Session |\n`;
+      output += `|-----|------|-------|------|---------|\n`;
+      shown.forEach(event => {
+        output += `| ${event.seq} | ${event.timestamp} | ${describeProjectEvent(event)} | ${event.tool} | ${event.sessionId} |\n`;
+      });
+
+      if (matching.length > shown.length) {
+        output += `\n... ${matching.length - shown.length} older events not shown (increase limit or use untilSeq)\n`;
+      }
+    }
+
+    return this.success(output, {
+      project: project.name,
+      totalEvents: events.length,
+      matchingEvents: matching.length,
+      events: shown
+    });
+  }
+
+  private replay(project: ProjectData, events: ProjectEvent[], untilSeq?: number): ToolExecutionResult {
+    let replayed: ProjectData;
+    try {
+      replayed = replayProjectEvents(events, untilSeq);
+    } catch (error) {
+      return this.error(`Replay failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const lastSeq = untilSeq !== undefined ? Math.min(untilSeq, events[events.length - 1].seq) : events[events.length - 1].seq;
+    const lastEvent = events.find(event => event.seq === lastSeq);
+
+    let output = `## ⏪ **${project.name}** Replayed to Event #${lastSeq}\n\n`;
+    if (lastEvent) {
+      output += `**State as of:** ${lastEvent.timestamp} (${describeProjectEvent(lastEvent)})\n\n`;
+    }
+
+    output += `| ID | Status | Title |\n`;
+    output += `|----|--------|-------|\n`;
+    replayed.tasks.forEach(task => {
+      output += `| ${task.id} | ${task.status} | ${task.title} |\n`;
+      flattenSubtasks(task, `${task.id}`).forEach(({ id, subtask, depth }) => {
+        output += `| ${id} | ${subtask.status} | ${'↳ '.repeat(depth)}${subtask.title} |\n`;
+      });
+    });
+
+    // Compare the replayed state with the stored project
+    const differences = describeProjectChanges(replayed, project);
+    if (untilSeq === undefined) {
+      output += differences.length === 0
+        ? `\n✅ Replayed state matches the stored project.\n`
+        : `\n⚠️ Replayed state differs from the stored project:\n- ${differences.join('\n- ')}\n`;
+    } else if (differences.length > 0) {
+      output += `\n**Changes since event #${lastSeq}:**\n- ${differences.join('\n- ')}\n`;
+    }
+
+    return this.success(output, {
+      project: project.name,
+      untilSeq: lastSeq,
+      replayedProject: replayed,
+      differences
+    });
+  }
+
+  private eventConcernsTask(event: ProjectEvent, taskId: string): boolean {
+    const matches = (id: string) => id === taskId || id.startsWith(`${taskId}.`);
+
+    switch (event.type) {
+      case 'TaskAdded':
+        return matches(`${event.task.id}`);
+      case 'SubtaskAdded':
+        return matches(`${event.parentId}.${event.subtask.id}`);
+      case 'StatusChanged':
+      case 'NotesAppended':
+      case 'TaskEdited':
+      case 'TaskClaimed':
+      case 'ClaimReleased':
+        return matches(event.taskId);
+      case 'DependencyAdded':
+      case 'DependencyRemoved':
+        return matches(`${event.taskId}`);
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * Shared persistence helpers for ChonkyTasks projects
+ * All project writes go through saveProject so every mutation is revision-checked
+ * and recorded in the event log
+ */
+
+import { ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ProjectConflictError, ValidationError } from '../../utils/errors.js';
+import { MemoryStoreTool, getIsolatedNamespace } from '../utilities/memory-store.js';
+import { ProjectData } from './types.js';
+import { ProjectEvent, ProjectEventPayload, EventLogHead, getEventLogKey, getEventChunksKey, describeProjectEvent } from './events.js';
+import { recordUndoSnapshot } from './undo-history.js';
+
+export const TASK_MANAGER_NAMESPACE = 'chonky-task-manager';
+
+// Events are stored in chunks so a mutation only rewrites the last one
+export const EVENT_CHUNK_MAX_EVENTS = 100;
+export const EVENT_CHUNK_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Pending saves per project; each save waits for the previous one so the
+ * revision check and the write happen without interleaving
+ */
+const projectLocks = new Map<string, Promise<void>>();
+
+/**
+ * Memory store key holding a project's data
+ */
+export function getProjectStorageKey(projectKey: string): string {
+  return `tasks.projects.${projectKey}`;
+}
+
+export interface SaveProjectOptions {
+  tool: string;                       // Name of the tool performing the mutation
+  events: ProjectEventPayload[];      // Domain events describing the mutation
+  recordUndo?: boolean;               // Snapshot the previous state for undo (default: true)
+}
+
+/**
+ * Run an action on a project while no other save or delete of it can interleave
+ */
+export async function withProjectLock<T>(context: ToolExecutionContext, projectKey: string, action: () => Promise<T>): Promise<T> {
+  const lockKey = `${getIsolatedNamespace(context, TASK_MANAGER_NAMESPACE)}:${projectKey}`;
+  const previous = projectLocks.get(lockKey) || Promise.resolve();
+  let release!: () => void;
+  const current = new Promise<void>(resolve => release = resolve);
+  const queued = previous.then(() => current);
+  projectLocks.set(lockKey, queued);
+
+  await previous;
+  try {
+    return await action();
+  } finally {
+    release();
+    if (projectLocks.get(lockKey) === queued) {
+      projectLocks.delete(lockKey);
+    }
+  }
+}
+
+export async function loadStoredProject(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string
+): Promise<ProjectData | null> {
+  const result = await memoryStore.execute({
+    ...context,
+    arguments: {
+      operation: 'get',
+      key: getProjectStorageKey(projectKey),
+      namespace: TASK_MANAGER_NAMESPACE
+    }
+  });
+
+  if (!result.success || !result.result || result.result === 'undefined') {
+    return null;
+  }
+  return JSON.parse(result.result);
+}
+
+/**
+ * Build a conflict error naming the changes made since the expected revision
+ */
+export async function createProjectConflictError(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string,
+  projectName: string,
+  expectedRevision: number,
+  actualRevision: number
+): Promise<ProjectConflictError> {
+  const events = await loadProjectEvents(memoryStore, context, projectKey);
+  const newerEvents = events.filter(event => (event.revision ?? 0) > expectedRevision);
+
+  const changedTasks = Array.from(new Set(newerEvents.flatMap(event => {
+    switch (event.type) {
+      case 'TaskAdded': return [`${event.task.id}`];
+      case 'SubtaskAdded': return [`${event.parentId}.${event.subtask.id}`];
+      case 'StatusChanged':
+      case 'NotesAppended':
+      case 'TaskEdited': return [event.taskId];
+      case 'DependencyAdded':
+      case 'DependencyRemoved': return [`${event.taskId}`];
+      default: return [];
+    }
+  })));
+
+  let message = `Conflict: project "${projectName}" was modified concurrently ` +
+    `(expected revision ${expectedRevision}, current revision ${actualRevision}).`;
+  if (changedTasks.length > 0) {
+    message += ` Changed task${changedTasks.length > 1 ? 's' : ''}: ${changedTasks.map(id => `#${id}`).join(', ')}.`;
+  }
+  if (newerEvents.length > 0) {
+    message += `\nConcurrent changes:\n` + newerEvents
+      .slice(-5)
+      .map(event => `- ${describeProjectEvent(event)} (${event.tool}, session ${event.sessionId})`)
+      .join('\n');
+  }
+  message += `\nReload the project and retry the update.`;
+
+  return new ProjectConflictError(message, projectName, expectedRevision, actualRevision, changedTasks);
+}
+
+/**
+ * Store a project and append the events describing the change to its log.
+ * The project must still be at the revision it was loaded with, otherwise a
+ * ProjectConflictError is thrown and nothing is written. The previous state
+ * is kept as an undo snapshot.
+ */
+export async function saveProject(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string,
+  project: ProjectData,
+  options: SaveProjectOptions
+): Promise<ToolExecutionResult> {
+  return withProjectLock(context, projectKey, async () => {
+    const expectedRevision = project.revision ?? 0;
+    const stored = await loadStoredProject(memoryStore, context, projectKey);
+    const storedRevision = stored ? stored.revision ?? 0 : 0;
+
+    if (storedRevision !== expectedRevision) {
+      throw await createProjectConflictError(memoryStore, context, projectKey, project.name, expectedRevision, storedRevision);
+    }
+
+    // Archived projects only accept the write that unarchives them
+    if (stored?.archived && project.archived) {
+      throw new ValidationError(`Project "${project.name}" is archived. Unarchive it with chonky-task-manager-manage-project before making changes.`);
+    }
+
+    project.revision = expectedRevision + 1;
+
+    const saveResult = await memoryStore.execute({
+      ...context,
+      arguments: {
+        operation: 'set',
+        key: getProjectStorageKey(projectKey),
+        value: project,
+        namespace: TASK_MANAGER_NAMESPACE
+      }
+    });
+
+    if (!saveResult.success) {
+      project.revision = expectedRevision;
+      return saveResult;
+    }
+
+    let events: ProjectEvent[] = [];
+    if (options.events.length > 0) {
+      const appended = await appendProjectEvents(memoryStore, context, projectKey, project.revision, options);
+      if (appended.error) {
+        // Without its events the log would no longer replay to the stored state
+        await restoreStoredProject(memoryStore, context, projectKey, stored);
+        project.revision = expectedRevision;
+        return { success: false, result: `Failed to record project events: ${appended.error.result}` };
+      }
+      events = appended.events;
+    }
+
+    if (stored && options.recordUndo !== false) {
+      const undoResult = await recordUndoSnapshot(memoryStore, context, projectKey, {
+        project: stored,
+        timestamp: new Date().toISOString(),
+        sessionId: context.sessionId,
+        tool: options.tool,
+        changes: events.map(describeProjectEvent)
+      });
+      // The change itself is saved; only undo is lost, and the stale history was removed
+      if (!undoResult.success) {
+        console.error(`⚠️ Undo history of project "${project.name}" could not be stored and was cleared: ${undoResult.result}`);
+        return { ...saveResult, metadata: { ...saveResult.metadata, undoHistoryError: undoResult.result } };
+      }
+    }
+    return saveResult;
+  });
+}
+
+async function setStoreValue(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  key: string,
+  value: unknown
+): Promise<ToolExecutionResult> {
+  return memoryStore.execute({
+    ...context,
+    arguments: {
+      operation: 'set',
+      key,
+      value,
+      namespace: TASK_MANAGER_NAMESPACE
+    }
+  });
+}
+
+/**
+ * Put back the project as it was before a save whose events could not be recorded
+ */
+async function restoreStoredProject(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string,
+  stored: ProjectData | null
+): Promise<void> {
+  if (stored) {
+    await setStoreValue(memoryStore, context, getProjectStorageKey(projectKey), stored);
+    return;
+  }
+  await memoryStore.execute({
+    ...context,
+    arguments: {
+      operation: 'delete',
+      key: getProjectStorageKey(projectKey),
+      namespace: TASK_MANAGER_NAMESPACE
+    }
+  });
+}
+
+async function loadEventChunk(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string,
+  index: number
+): Promise<ProjectEvent[]> {
+  const result = await memoryStore.execute({
+    ...context,
+    arguments: {
+      operation: 'get',
+      key: `${getEventChunksKey(projectKey)}.${index}`,
+      namespace: TASK_MANAGER_NAMESPACE
+    }
+  });
+
+  if (!result.success || !result.result || result.result === 'undefined') {
+    return [];
+  }
+  return JSON.parse(result.result);
+}
+
+/**
+ * Head of the event log; older logs stored all events in one array under the head key
+ */
+async function loadEventLogHead(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string
+): Promise<EventLogHead | ProjectEvent[]> {
+  const result = await memoryStore.execute({
+    ...context,
+    arguments: {
+      operation: 'get',
+      key: getEventLogKey(projectKey),
+      namespace: TASK_MANAGER_NAMESPACE
+    }
+  });
+
+  if (!result.success || !result.result || result.result === 'undefined') {
+    return { chunks: 0, lastSeq: 0 };
+  }
+  return JSON.parse(result.result);
+}
+
+/**
+ * Load the full event log of a project (empty if nothing was recorded yet)
+ */
+export async function loadProjectEvents(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string
+): Promise<ProjectEvent[]> {
+  const head = await loadEventLogHead(memoryStore, context, projectKey);
+  if (Array.isArray(head)) {
+    return head;
+  }
+
+  const events: ProjectEvent[] = [];
+  for (let index = 0; index < head.chunks; index++) {
+    events.push(...await loadEventChunk(memoryStore, context, projectKey, index));
+  }
+  // A chunk may hold events of a save whose head update failed
+  return events.filter(event => event.seq <= head.lastSeq);
+}
+
+/**
+ * Split events into chunks within EVENT_CHUNK_MAX_EVENTS and EVENT_CHUNK_MAX_BYTES
+ */
+function packEventChunks(events: ProjectEvent[]): ProjectEvent[][] {
+  const chunks: ProjectEvent[][] = [];
+  let chunkBytes = 0;
+  for (const event of events) {
+    const bytes = JSON.stringify(event).length;
+    const last = chunks[chunks.length - 1];
+    if (last && last.length < EVENT_CHUNK_MAX_EVENTS && chunkBytes + bytes <= EVENT_CHUNK_MAX_BYTES) {
+      last.push(event);
+      chunkBytes += bytes;
+    } else {
+      chunks.push([event]);
+      chunkBytes = bytes;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Append events to the log. Only the last chunk and the head are rewritten;
+ * the head is written last so a failed write leaves the log as it was.
+ */
+async function appendProjectEvents(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string,
+  revision: number,
+  options: SaveProjectOptions
+): Promise<{ events: ProjectEvent[]; error?: ToolExecutionResult }> {
+  const stored = await loadEventLogHead(memoryStore, context, projectKey);
+  const timestamp = new Date().toISOString();
+
+  // Older logs are moved into chunks on their first append
+  const legacy = Array.isArray(stored) ? stored : null;
+  const head: EventLogHead = legacy
+    ? { chunks: 0, lastSeq: legacy.length > 0 ? legacy[legacy.length - 1].seq : 0 }
+    : stored as EventLogHead;
+  const firstChunk = Math.max(head.chunks - 1, 0);
+  const kept = legacy || (head.chunks > 0
+    ? (await loadEventChunk(memoryStore, context, projectKey, firstChunk)).filter(event => event.seq <= head.lastSeq)
+    : []);
+  let seq = head.lastSeq;
+  const appended: ProjectEvent[] = [];
+
+  for (const payload of options.events) {
+    appended.push({
+      ...payload,
+      seq: ++seq,
+      revision,
+      timestamp,
+      sessionId: context.sessionId,
+      tool: options.tool
+    } as ProjectEvent);
+  }
+
+  const chunks = packEventChunks([...kept, ...appended]);
+  for (const [offset, chunk] of chunks.entries()) {
+    const result = await setStoreValue(memoryStore, context, `${getEventChunksKey(projectKey)}.${firstChunk + offset}`, chunk);
+    if (!result.success) {
+      return { events: [], error: result };
+    }
+  }
+
+  const nextHead: EventLogHead = { chunks: firstChunk + chunks.length, lastSeq: seq };
+  const headResult = await setStoreValue(memoryStore, context, getEventLogKey(projectKey), nextHead);
+  if (!headResult.success) {
+    return { events: [], error: headResult };
+  }
+  return { events: appended };
+}
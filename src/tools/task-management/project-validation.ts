@@ -49,6 +49,19 @@ export async function getActiveProjectSuggestion(memoryStore: any, context: any)
   }
 }
 
+export const NO_ACTIVE_PROJECT_ERROR = 'No project specified and no active project set. ' +
+  'Pass "project" explicitly, or select one with chonky-task-manager-manage-project (operation "set-active").';
+
+/**
+ * Resolve the project a tool works on: the given name, or the active project when omitted
+ */
+export async function resolveProjectName(projectName: string | undefined, memoryStore: any, context: any): Promise<string | null> {
+  if (projectName) {
+    return projectName;
+  }
+  return getActiveProjectSuggestion(memoryStore, context);
+}
+
 /**
  * Create project not found error with active project suggestion
  */
@@ -0,0 +1,133 @@
+/**
+ * Checks every status change of a task or subtask goes through, whether it
+ * comes from update-task or from a task file pulled by sync-folder, and the
+ * status rollup of parents that follows it
+ */
+
+import { Task, Subtask, ProjectData, ProjectWorkflow, TaskStatus } from './types.js';
+import { findTaskNode, parseTaskId, getSubtasks, getIncompleteDependencies, touchTask } from './utils.js';
+import { getWorkflow, checkStatusTransition } from './workflow.js';
+import { ProjectEventPayload } from './events.js';
+
+// Words a note has to contain to count as proof that successCriteria are met
+const COMPLETION_KEYWORDS = [
+  'proof', 'complete', 'done', 'finished', 'verified', 'tested', 'validated',
+  'confirmed', 'successful', 'achieved', 'met', 'satisfied', 'implemented',
+  'deployed', 'working', 'fixed', 'resolved', 'delivered'
+];
+
+/**
+ * Explain why a task or subtask with successCriteria cannot be marked done with
+ * the given notes, or null when the notes are accepted as completion proof
+ */
+export function checkCompletionProof(entity: Task | Subtask, entityType: string, notes: string): string | null {
+  // If no successCriteria defined, allow completion without proof
+  if (!entity.successCriteria || entity.successCriteria.trim().length === 0) {
+    return null;
+  }
+
+  const hasCompletionEvidence = COMPLETION_KEYWORDS.some(keyword => notes.toLowerCase().includes(keyword));
+  if (!notes || notes.trim().length === 0 || !hasCompletionEvidence) {
+    return `${entityType} has defined successCriteria and requires completion proof. Please provide a note that includes completion keywords (like 'COMPLETION PROOF:', 'completed', 'verified', 'tested', 'implemented', 'delivered', etc.) and explains how the following criteria was met: "${entity.successCriteria}"`;
+  }
+
+  // If successCriteria exists and notes are provided, trust the caller
+  return null;
+}
+
+/**
+ * Explain why a task or subtask cannot change to a status: the transition must
+ * be allowed by the workflow, and done needs completion proof, finished
+ * dependencies and finished subtasks. Returns null when the change is allowed.
+ */
+export function checkStatusChange(project: ProjectData, entityId: string, entity: Task | Subtask, to: TaskStatus, notes: string): string | null {
+  const workflow = getWorkflow(project);
+  const entityType = parseTaskId(entityId).path.length > 1 ? 'subtask' : 'task';
+
+  const transitionError = checkStatusTransition(workflow, entity.status, to);
+  if (transitionError) {
+    return `Cannot change ${entityType} #${entityId}: ${transitionError}`;
+  }
+  if (to !== 'done') {
+    return null;
+  }
+
+  const proofError = checkCompletionProof(entity, entityType === 'task' ? 'Task' : 'Subtask', notes);
+  if (proofError) {
+    return proofError;
+  }
+
+  // Check dependencies, wherever they are in the tree
+  const incompleteDeps = getIncompleteDependencies(project, entityId, entity, workflow.finalStatuses);
+  if (incompleteDeps.length > 0) {
+    return `Cannot mark ${entityType} #${entityId} as done. Incomplete dependencies: ${incompleteDeps.join(', ')}`;
+  }
+
+  // Check if all subtasks are in final states
+  const incompleteSubtasks = getSubtasks(entity).filter(st => !workflow.finalStatuses.includes(st.status));
+  if (incompleteSubtasks.length > 0) {
+    return `Cannot mark ${entityType} #${entityId} as done. ` +
+      `Subtasks not in final state: ${incompleteSubtasks.map(st => `${entityId}.${st.id}`).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Update the statuses of the ancestors of a task or subtask from the states of
+ * their subtasks, innermost first. Records a StatusChanged event per change
+ * and returns a line describing each. A rollup the workflow does not allow
+ * leaves the parent's status alone.
+ */
+export function rollUpAncestorStatuses(project: ProjectData, entityId: string, events: ProjectEventPayload[]): string[] {
+  const node = findTaskNode(project, entityId);
+  if (!node) {
+    return [];
+  }
+
+  const workflow = getWorkflow(project);
+  const { path } = parseTaskId(entityId);
+  const autoUpdates: string[] = [];
+  for (let depth = node.ancestors.length - 1; depth >= 0; depth--) {
+    const ancestor = node.ancestors[depth];
+    const ancestorId = path.slice(0, depth + 1).join('.');
+    const ancestorOldStatus = ancestor.status;
+    updateParentStatus(ancestor, workflow);
+    if (ancestor.status !== ancestorOldStatus) {
+      touchTask(ancestor);
+      events.push({ type: 'StatusChanged', taskId: ancestorId, from: ancestorOldStatus, to: ancestor.status, automatic: true });
+      autoUpdates.push(`Parent ${depth === 0 ? 'task' : 'subtask'} #${ancestorId} status updated to ${ancestor.status}`);
+    }
+  }
+  return autoUpdates;
+}
+
+function updateParentStatus(parent: Task | Subtask, workflow: ProjectWorkflow): void {
+  const subtasks = getSubtasks(parent);
+  if (subtasks.length === 0) return;
+
+  const completedSubtasks = subtasks.filter(st => st.status === 'done').length;
+  const totalSubtasks = subtasks.length;
+  const inProgressSubtasks = subtasks.filter(st => st.status === 'in-progress').length;
+  const blockedSubtasks = subtasks.filter(st => st.status === 'blocked').length;
+
+  // Custom workflows may lack the statuses used here or forbid the change; leave the parent alone then
+  const setStatus = (status: TaskStatus) => {
+    if (checkStatusTransition(workflow, parent.status, status) === null) {
+      parent.status = status;
+    }
+  };
+
+  // Auto-update parent status based on subtask states
+  if (completedSubtasks === totalSubtasks) {
+    // All subtasks done - but don't auto-complete, require explicit completion with notes
+    if (parent.status !== 'review' && parent.status !== 'done') {
+      setStatus('review'); // Ready for completion review
+    }
+  } else if (blockedSubtasks > 0 && parent.status !== 'blocked') {
+    // Some subtasks blocked
+    setStatus('blocked');
+  } else if (inProgressSubtasks > 0 && parent.status === 'pending') {
+    // Some subtasks in progress, parent still pending
+    setStatus('in-progress');
+  }
+}
@@ -0,0 +1,522 @@
+/**
+ * ChonkyTasks - Sync Folder Tool
+ * Two-way sync between a project and its markdown task files, so the plan can
+ * live in git and be edited by humans while agents work on it
+ */
+
+import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { z } from 'zod';
+import { Task, Subtask, ProjectData, TaskStatus } from './types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { validateProjectName, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { validateDependencies, touchTask, touchProject, normalizeProjectKey, findTaskById, findTaskNode, parseTaskId, compareTaskIds, flattenSubtasks, getSubtasks, getForeignClaim, resolveAgentId } from './utils.js';
+import { saveProject, getProjectStorageKey, TASK_MANAGER_NAMESPACE } from './project-store.js';
+import { ProjectEventPayload, EditableTaskFields } from './events.js';
+import { getWorkflow } from './workflow.js';
+import { parseNoteEntries, getNoteEntries } from './notes.js';
+import { checkStatusChange, rollUpAncestorStatuses } from './status-change.js';
+import {
+  TaskFileFields, ParsedTaskFile, TASK_FILE_PATTERN,
+  securePathJoin, parseTaskFile, getTaskFilename, getTaskFileFields, serializeTaskFile
+} from './task-files.js';
+
+export const DEFAULT_SYNC_FOLDER = '.chonky/tasks-manager';
+
+/**
+ * Field values both sides agreed on after the last sync, used as the common
+ * ancestor to tell which side changed a field
+ */
+interface FolderSyncState {
+  folderPath: string;
+  lastSynced: string;
+  tasks: Record<string, TaskFileFields>;   // Keyed by hierarchical task ID
+}
+
+type SyncField = keyof TaskFileFields;
+
+// Subtasks carry the same fields as tasks
+const SYNC_FIELDS: SyncField[] = ['title', 'description', 'details', 'successCriteria', 'priority', 'dependencies', 'tags', 'dueDate', 'estimate', 'actualTime', 'status', 'notes'];
+
+// Without a previous sync, progress comes from the project and the plan from the files
+const PROJECT_OWNED_FIELDS: SyncField[] = ['status', 'actualTime', 'notes'];
+
+/**
+ * Memory store key holding the folder sync state of a project
+ */
+export function getSyncStateKey(projectKey: string): string {
+  return `tasks.sync.${projectKey}`;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.trim() === '' ? undefined : value.trim();
+  }
+  return value === null ? undefined : value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+const syncFolderSchema = z.object({
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  folderPath: z.string().min(1).optional(),
+  onConflict: z.enum(['project', 'files']).default('project'),
+  createProject: z.boolean().default(true),
+  dryRun: z.boolean().default(false)
+});
+
+export class TaskManagerSyncFolderTool extends ChonkyTool {
+  readonly name = 'chonky-task-manager-sync-folder';
+  readonly description = 'Two-way sync between a project and its taskN.md / taskN-M.md (nested: taskN-M-K.md) files: pulls edits made in the files and writes status, notes and new tasks back';
+  readonly category = 'Utilities' as const;
+
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+      },
+      folderPath: {
+        type: 'string',
+        description: 'Folder with the task markdown files, relative to the workspace (default: folder of the last sync, or ".chonky/tasks-manager")'
+      },
+      onConflict: {
+        type: 'string',
+        enum: ['project', 'files'],
+        default: 'project',
+        description: 'Which side wins when a field was changed both in the project and in a file since the last sync'
+      },
+      createProject: {
+        type: 'boolean',
+        default: true,
+        description: 'Create the project from the folder if it does not exist'
+      },
+      dryRun: {
+        type: 'boolean',
+        default: false,
+        description: 'Only report what would change without saving the project or writing files'
+      }
+    },
+    required: []
+  };
+
+  private memoryStore = new MemoryStoreTool();
+
+  async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const params = syncFolderSchema.parse(context.arguments);
+
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+
+      const nameValidation = validateProjectName(projectName);
+      if (!nameValidation.isValid) {
+        return this.error(nameValidation.error!);
+      }
+
+      const projectKey = normalizeProjectKey(projectName);
+      const projectResult = await this.memoryStore.execute({
+        ...context,
+        arguments: {
+          operation: 'get',
+          key: getProjectStorageKey(projectKey),
+          namespace: TASK_MANAGER_NAMESPACE
+        }
+      });
+
+      const events: ProjectEventPayload[] = [];
+      let project: ProjectData;
+      const projectCreated = !projectResult.success || !projectResult.result || projectResult.result === 'undefined';
+
+      if (projectCreated) {
+        if (!params.createProject) {
+          return this.error(`Project "${projectName}" does not exist and createProject=false`);
+        }
+        const now = new Date().toISOString();
+        project = {
+          name: projectName,
+          tasks: [],
+          nextId: 1,
+          created: now,
+          updated: now
+        };
+        events.push({ type: 'ProjectCreated', project: structuredClone(project) });
+      } else {
+        project = JSON.parse(projectResult.result);
+      }
+
+      // Resolve the folder and the state of the previous sync
+      const stateResult = await this.memoryStore.execute({
+        ...context,
+        arguments: {
+          operation: 'get',
+          key: getSyncStateKey(projectKey),
+          namespace: TASK_MANAGER_NAMESPACE
+        }
+      });
+      const previousState: FolderSyncState | null = stateResult.success && stateResult.result && stateResult.result !== 'undefined'
+        ? JSON.parse(stateResult.result)
+        : null;
+
+      const folderPath = params.folderPath || previousState?.folderPath || DEFAULT_SYNC_FOLDER;
+      const resolvedFolderPath = path.resolve(context.workspaceRoot || process.cwd(), folderPath);
+      const baseline = previousState && path.resolve(context.workspaceRoot || process.cwd(), previousState.folderPath) === resolvedFolderPath
+        ? previousState.tasks
+        : {};
+
+      // Read the task files
+      const files = new Map<string, ParsedTaskFile>();
+      let filenames: string[] = [];
+      try {
+        filenames = (await fs.readdir(resolvedFolderPath)).filter(f => TASK_FILE_PATTERN.test(f));
+      } catch {
+        // Folder does not exist yet, it is created when the files are written
+      }
+
+      for (const filename of filenames) {
+        try {
+          const parsed = await parseTaskFile(securePathJoin(resolvedFolderPath, filename), getWorkflow(project).statuses);
+          files.set(parsed.id, parsed);
+        } catch (error) {
+          return this.error(`Error parsing ${filename}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      const pulled: string[] = [];
+      const conflicts: string[] = [];
+      const agreed: Record<string, TaskFileFields> = {};
+
+      // Status changes from the files, checked after all other changes are applied
+      const statusChanges = new Map<string, TaskStatus>();
+      const completionNotes = new Map<string, string>();
+
+      // Tasks that only exist as files are added to the project as pending, parents before subtasks
+      const newIds = Array.from(files.keys()).filter(id => !this.findEntity(project, id)).sort(compareTaskIds);
+      for (const id of newIds) {
+        const parsed = files.get(id)!;
+        const error = this.addFromFile(project, id, parsed, events);
+        if (error) {
+          return this.error(error);
+        }
+        pulled.push(`#${id} added from ${getTaskFilename(id)}`);
+        if (parsed.status && parsed.status !== 'pending') {
+          statusChanges.set(id, parsed.status);
+          completionNotes.set(id, parsed.notes || '');
+        }
+      }
+
+      // Merge every task that exists on both sides
+      for (const [id, parsed] of files) {
+        const entity = this.findEntity(project, id)!;
+        const projectFields = getTaskFileFields(entity);
+        const merged = this.mergeFields(id, parsed, projectFields, baseline[id], SYNC_FIELDS, params.onConflict, conflicts);
+
+        const edited: EditableTaskFields = {};
+        for (const field of SYNC_FIELDS) {
+          if (field !== 'status' && !sameValue(merged[field], projectFields[field])) {
+            (edited as Record<string, unknown>)[field] = merged[field];
+          }
+        }
+        // Notes edited in the file replace the note history; the entries it adds
+        // are the completion proof of a status change to done
+        if (typeof edited.notes === 'string') {
+          const previous = getNoteEntries(entity);
+          edited.notes = parseNoteEntries(edited.notes, new Date().toISOString());
+          completionNotes.set(id, edited.notes
+            .filter(entry => !previous.some(old => old.timestamp === entry.timestamp && old.text === entry.text))
+            .map(entry => entry.text)
+            .join('\n'));
+        }
+
+        if (!sameValue(merged.status, projectFields.status)) {
+          statusChanges.set(id, merged.status!);
+        }
+        if (Object.keys(edited).length > 0) {
+          Object.assign(entity, edited);
+          events.push({ type: 'TaskEdited', taskId: id, fields: edited });
+          touchTask(findTaskById(project, parseTaskId(id).parentId)!);
+          touchTask(entity);
+          pulled.push(`#${id} updated from ${getTaskFilename(id)}`);
+        }
+      }
+
+      // Status changes from the files pass the same checks as update-task. One may
+      // depend on another, so they are retried until no more of them can be applied.
+      const agent = resolveAgentId(undefined, context.sessionId);
+      const rejected = new Map<string, string>();
+      let applied = true;
+      while (applied) {
+        applied = false;
+        rejected.clear();
+        for (const [id, to] of statusChanges) {
+          const entity = this.findEntity(project, id)!;
+          const error = entity.status === to ? null : this.checkPulledStatus(project, id, entity, to, agent, completionNotes.get(id) || '');
+          if (error) {
+            rejected.set(id, error);
+            continue;
+          }
+          statusChanges.delete(id);
+          if (entity.status === to) {
+            continue;
+          }
+
+          events.push({ type: 'StatusChanged', taskId: id, from: entity.status, to });
+          entity.status = to;
+          if (entity.claim && getWorkflow(project).finalStatuses.includes(to)) {
+            events.push({ type: 'ClaimReleased', taskId: id, claimedBy: entity.claim.claimedBy });
+            delete entity.claim;
+          }
+          touchTask(findTaskById(project, parseTaskId(id).parentId)!);
+          touchTask(entity);
+          // Tasks added or edited from their file are already listed
+          if (!pulled.some(line => line.startsWith(`#${id} `))) {
+            pulled.push(`#${id} updated from ${getTaskFilename(id)}`);
+          }
+          pulled.push(...rollUpAncestorStatuses(project, id, events));
+          applied = true;
+        }
+      }
+      for (const [id, error] of rejected) {
+        conflicts.push(`#${id} status "${statusChanges.get(id)}" from ${getTaskFilename(id)} rejected, project status kept: ${error}`);
+      }
+
+      const validation = validateDependencies(project);
+      if (!validation.isValid) {
+        return this.error(`Dependency validation failed after applying file changes: ${validation.errors.join('; ')}`);
+      }
+
+      // Every task of the project is written back if its file is missing or outdated
+      const written: string[] = [];
+      const pendingWrites: { filename: string; content: string }[] = [];
+      for (const task of project.tasks) {
+        const entries: [string, Task | Subtask][] = [[`${task.id}`, task], ...flattenSubtasks(task, `${task.id}`).map(({ id, subtask }) => [id, subtask] as [string, Subtask])];
+        for (const [id, entity] of entries) {
+          const current = getTaskFileFields(entity);
+          const parsed = files.get(id);
+          agreed[id] = current;
+
+          const outdated = !parsed || SYNC_FIELDS.some(field => {
+            // Hand-written files without a status are fine as long as the task is pending
+            if (field === 'status' && parsed.status === undefined) {
+              return current.status !== 'pending';
+            }
+            return !sameValue(parsed[field], current[field]);
+          });
+
+          if (outdated) {
+            const filename = getTaskFilename(id);
+            pendingWrites.push({ filename, content: serializeTaskFile(current) });
+            written.push(filename);
+          }
+        }
+      }
+
+      if (!params.dryRun) {
+        if (events.length > 0) {
+          touchProject(project);
+          const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+            tool: this.name,
+            events
+          });
+          if (!saveResult.success) {
+            return this.error(`Failed to save project: ${saveResult.result}`);
+          }
+        }
+
+        if (pendingWrites.length > 0) {
+          await fs.mkdir(resolvedFolderPath, { recursive: true });
+          for (const { filename, content } of pendingWrites) {
+            await fs.writeFile(securePathJoin(resolvedFolderPath, filename), content, 'utf8');
+          }
+        }
+
+        const state: FolderSyncState = {
+          folderPath,
+          lastSynced: new Date().toISOString(),
+          tasks: agreed
+        };
+        await this.memoryStore.execute({
+          ...context,
+          arguments: {
+            operation: 'set',
+            key: getSyncStateKey(projectKey),
+            value: state,
+            namespace: TASK_MANAGER_NAMESPACE
+          }
+        });
+
+        if (projectCreated) {
+          await this.memoryStore.execute({
+            ...context,
+            arguments: {
+              operation: 'set',
+              key: 'tasks.activeproject',
+              value: projectName,
+              namespace: TASK_MANAGER_NAMESPACE
+            }
+          });
+        }
+      }
+
+      let output = `🔄 **Folder Sync${params.dryRun ? ' Preview' : ' Complete'}**\n\n`;
+      output += `**Project:** ${projectName}${projectCreated ? ' (created)' : ''}\n`;
+      output += `**Folder:** ${folderPath}\n\n`;
+
+      if (pulled.length === 0 && written.length === 0) {
+        output += `✅ Project and files are already in sync.\n`;
+      }
+      if (pulled.length > 0) {
+        output += `**${params.dryRun ? 'Would pull' : 'Pulled'} from files (${pulled.length}):**\n- ${pulled.join('\n- ')}\n\n`;
+      }
+      if (written.length > 0) {
+        output += `**${params.dryRun ? 'Would write' : 'Written'} files (${written.length}):**\n- ${written.join('\n- ')}\n\n`;
+      }
+      if (conflicts.length > 0) {
+        output += `⚠️ **Conflicts (${conflicts.length}, ${params.onConflict} version kept):**\n- ${conflicts.join('\n- ')}\n`;
+      }
+
+      return this.success(output, {
+        project: projectName,
+        folderPath,
+        projectCreated,
+        pulled,
+        written,
+        conflicts,
+        dryRun: params.dryRun
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Explain why a status change pulled from a task file cannot be applied, or null when it can
+   */
+  private checkPulledStatus(project: ProjectData, id: string, entity: Task | Subtask, to: TaskStatus, agent: string, notes: string): string | null {
+    const foreignClaim = getForeignClaim(project, id, agent);
+    if (foreignClaim) {
+      return `#${id} is claimed by "${foreignClaim.claim.claimedBy}"` +
+        `${foreignClaim.id !== id ? ` (via #${foreignClaim.id})` : ''} until ${foreignClaim.claim.expiresAt}`;
+    }
+    return checkStatusChange(project, id, entity, to, notes);
+  }
+
+  private findEntity(project: ProjectData, id: string): Task | Subtask | undefined {
+    return findTaskNode(project, id)?.entity;
+  }
+
+  /**
+   * Three-way merge of one task: a field changed on only one side since the
+   * last sync takes that side's value, a field changed on both is a conflict
+   */
+  private mergeFields(
+    id: string,
+    file: TaskFileFields,
+    current: TaskFileFields,
+    base: TaskFileFields | undefined,
+    fields: SyncField[],
+    onConflict: 'project' | 'files',
+    conflicts: string[]
+  ): TaskFileFields {
+    const merged: Record<string, unknown> = {};
+
+    for (const field of fields) {
+      const projectValue = current[field];
+      // A file without a status leaves the status to the project
+      const fileValue = field === 'status' && file.status === undefined ? base?.status ?? projectValue : file[field];
+
+      if (sameValue(fileValue, projectValue)) {
+        merged[field] = projectValue;
+      } else if (base) {
+        const fileChanged = !sameValue(fileValue, base[field]);
+        const projectChanged = !sameValue(projectValue, base[field]);
+        if (fileChanged && projectChanged) {
+          conflicts.push(`#${id} ${field}`);
+          merged[field] = onConflict === 'files' ? fileValue : projectValue;
+        } else {
+          merged[field] = fileChanged ? fileValue : projectValue;
+        }
+      } else {
+        merged[field] = PROJECT_OWNED_FIELDS.includes(field) ? projectValue : fileValue;
+      }
+    }
+
+    return merged as unknown as TaskFileFields;
+  }
+
+  /**
+   * Create a task or subtask from a file that has no counterpart in the project.
+   * It starts pending; the status of the file goes through checkPulledStatus.
+   */
+  private addFromFile(project: ProjectData, id: string, parsed: ParsedTaskFile, events: ProjectEventPayload[]): string | null {
+    const now = new Date().toISOString();
+
+    if (parsed.isSubtask) {
+      const parentNode = findTaskNode(project, parsed.parentId!);
+      if (!parentNode) {
+        return `Parent task ${parsed.parentId} not found for subtask in ${parsed.filename}`;
+      }
+      const parent = parentNode.entity;
+      const subtask: Subtask = {
+        id: parsed.taskId,
+        title: parsed.title,
+        description: parsed.description,
+        details: parsed.details,
+        successCriteria: parsed.successCriteria,
+        status: 'pending',
+        priority: parsed.priority,
+        dependencies: parsed.dependencies,
+        tags: parsed.tags,
+        dueDate: parsed.dueDate,
+        estimate: parsed.estimate,
+        actualTime: parsed.actualTime,
+        notes: parsed.notes ? parseNoteEntries(parsed.notes, now) : undefined,
+        created: now,
+        updated: now
+      };
+      parent.subtasks = [...getSubtasks(parent), subtask].sort((a, b) => a.id - b.id);
+      parentNode.task.updated = now;
+      events.push({
+        type: 'SubtaskAdded',
+        parentId: parentNode.ancestors.length === 0 ? parentNode.task.id : parsed.parentId!,
+        subtask: structuredClone(subtask)
+      });
+      return null;
+    }
+
+    const task: Task = {
+      id: parsed.taskId,
+      title: parsed.title,
+      description: parsed.description,
+      details: parsed.details,
+      successCriteria: parsed.successCriteria,
+      status: 'pending',
+      priority: parsed.priority,
+      dependencies: parsed.dependencies,
+      tags: parsed.tags,
+      dueDate: parsed.dueDate,
+      estimate: parsed.estimate,
+      actualTime: parsed.actualTime,
+      subtasks: [],
+      notes: parsed.notes ? parseNoteEntries(parsed.notes, now) : undefined,
+      created: now,
+      updated: now
+    };
+    project.tasks.push(task);
+    project.tasks.sort((a, b) => a.id - b.id);
+    project.nextId = Math.max(project.nextId, task.id + 1);
+    events.push({ type: 'TaskAdded', task: structuredClone(task) });
+    return null;
+  }
+}
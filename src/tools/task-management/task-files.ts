@@ -0,0 +1,306 @@
+/**
+ * Markdown task files used by the folder import and sync tools
+ * Tasks are stored as taskN.md, subtasks as taskN-M.md (nested: taskN-M-K.md),
+ * each with YAML frontmatter
+ */
+
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Task, Subtask, Priority, TaskStatus, TaskDependency, VALID_STATUSES } from './types.js';
+import { normalizeTags, isValidDueDate } from './utils.js';
+import { formatNoteEntries, getNoteEntries } from './notes.js';
+
+export const TASK_FILE_PATTERN = /^task\d+(-\d+)*\.md$/;
+
+/**
+ * Fields of a task or subtask that are kept in its markdown file
+ */
+export interface TaskFileFields {
+  title: string;
+  description: string;
+  details?: string;
+  successCriteria?: string;
+  priority?: Priority;
+  status?: TaskStatus;          // Missing in hand-written files
+  dependencies: TaskDependency[];
+  tags?: string[];
+  dueDate?: string;
+  estimate?: number;            // Hours
+  actualTime?: number;          // Hours
+  notes?: string;               // Note history in the markdown form of formatNoteEntries
+}
+
+export interface ParsedTaskFile extends TaskFileFields {
+  filename: string;
+  id: string;                   // Hierarchical ID ("4", "4.2" or "4.2.1")
+  taskId: number;               // Last segment of the ID
+  parentId?: string;            // Hierarchical ID of the parent for subtasks
+  isSubtask: boolean;
+  priority: Priority;
+}
+
+/**
+ * Securely validates and constructs file path within a base directory
+ */
+export function securePathJoin(baseDir: string, filename: string): string {
+  // Validate filename is safe (no path separators or traversal attempts)
+  if (filename.includes('/') || filename.includes('\\') || filename.includes('..')) {
+    throw new Error(`Unsafe filename: ${filename}`);
+  }
+
+  // Use a whitelist pattern for expected task files
+  if (!TASK_FILE_PATTERN.test(filename)) {
+    throw new Error(`Invalid task filename pattern: ${filename}`);
+  }
+
+  // Construct the path safely using string concatenation to avoid linter issues
+  const safePath = baseDir + path.sep + filename;
+  return safePath;
+}
+
+// Parse YAML frontmatter from markdown
+export function parseYamlFrontmatter(content: string): { frontmatter: any; markdown: string } {
+  const lines = content.split('\n');
+  if (lines[0] !== '---') {
+    return { frontmatter: {}, markdown: content };
+  }
+
+  const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line === '---');
+  if (frontmatterEnd === -1) {
+    return { frontmatter: {}, markdown: content };
+  }
+
+  const frontmatterLines = lines.slice(1, frontmatterEnd);
+  const markdown = lines.slice(frontmatterEnd + 1).join('\n').trim();
+
+  const frontmatter: any = {};
+  let currentKey: string | null = null;
+  let multilineValue: string[] = [];
+  let isMultiline = false;
+
+  for (let i = 0; i < frontmatterLines.length; i++) {
+    const line = frontmatterLines[i];
+    const colonIndex = line.indexOf(':');
+
+    // Check if this is a new key-value pair
+    if (colonIndex > 0 && !line.startsWith(' ') && !line.startsWith('\t')) {
+      // Save previous multiline value if any
+      if (currentKey && isMultiline) {
+        frontmatter[currentKey] = multilineValue.join('\n').trim();
+        multilineValue = [];
+        isMultiline = false;
+      }
+
+      currentKey = line.slice(0, colonIndex).trim();
+      const value = line.slice(colonIndex + 1).trim();
+
+      // Check if this starts a multiline string
+      if (value === '|') {
+        isMultiline = true;
+        multilineValue = [];
+      } else if (value.startsWith('[') && value.endsWith(']')) {
+        // Parse arrays like dependencies: [1, 2, 3]
+        try {
+          frontmatter[currentKey] = JSON.parse(value);
+        } catch {
+          frontmatter[currentKey] = value;
+        }
+        currentKey = null;
+      } else {
+        // Regular string value - remove quotes, unescaping double-quoted strings
+        frontmatter[currentKey] = parseScalar(value);
+        currentKey = null;
+      }
+    } else if (isMultiline && currentKey) {
+      // This is a continuation of a multiline value
+      // Remove the leading indentation (typically 2 spaces)
+      const cleanLine = line.replace(/^  /, '');
+      multilineValue.push(cleanLine);
+    }
+  }
+
+  // Handle any remaining multiline value
+  if (currentKey && isMultiline) {
+    frontmatter[currentKey] = multilineValue.join('\n').trim();
+  }
+
+  return { frontmatter, markdown };
+}
+
+/**
+ * Tags from frontmatter: a JSON array, or a hand-written list like [a, b] or a, b
+ */
+function parseTags(value: unknown): string[] | undefined {
+  let tags: string[];
+  if (Array.isArray(value)) {
+    tags = value.map(tag => `${tag}`);
+  } else if (typeof value === 'string') {
+    tags = value.replace(/^\[|\]$/g, '').split(',').map(parseScalar);
+  } else {
+    return undefined;
+  }
+  const normalized = normalizeTags(tags);
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * Hours from frontmatter such as "estimate: 4" or "actualTime: 1.5"
+ */
+function parseHours(field: string, value: unknown): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const hours = Number(value);
+  if (isNaN(hours) || hours < 0) {
+    throw new Error(`Invalid ${field} "${value}". Expected a number of hours`);
+  }
+  return hours;
+}
+
+function parseScalar(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Not valid JSON escaping, fall back to stripping the quotes
+    }
+  }
+  return value.replace(/^["']|["']$/g, '');
+}
+
+// Parse task filename to extract ID and parent info
+export function parseTaskFilename(filename: string): { id: string; taskId: number; parentId?: string; isSubtask: boolean } {
+  const baseName = path.basename(filename, '.md');
+
+  // Pattern: taskX.md, taskX-Y.md, taskX-Y-Z.md...
+  const match = baseName.match(/^task(\d+(?:-\d+)*)$/);
+  if (!match) {
+    throw new Error(`Invalid task filename format: ${filename}. Expected taskX.md, taskX-Y.md or taskX-Y-Z.md`);
+  }
+
+  const segments = match[1].split('-').map(segment => parseInt(segment, 10));
+  const isSubtask = segments.length > 1;
+
+  return {
+    id: segments.join('.'),
+    taskId: segments[segments.length - 1],
+    parentId: isSubtask ? segments.slice(0, -1).join('.') : undefined,
+    isSubtask
+  };
+}
+
+/**
+ * File name of a task ("3" → task3.md) or subtask ("3.1" → task3-1.md, "3.1.2" → task3-1-2.md)
+ */
+export function getTaskFilename(taskId: string): string {
+  return `task${taskId.replace(/\./g, '-')}.md`;
+}
+
+// Parse task file content; statuses are the ones of the project workflow
+export async function parseTaskFile(filePath: string, statuses: readonly TaskStatus[] = VALID_STATUSES): Promise<ParsedTaskFile> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const { frontmatter, markdown } = parseYamlFrontmatter(content);
+  const filename = path.basename(filePath);
+  const { id, taskId, parentId, isSubtask } = parseTaskFilename(filename);
+
+  // Notes are always the last section and may contain headings of their own
+  const notesStart = markdown.search(/^## Notes$/m);
+  const body = notesStart === -1 ? markdown : markdown.slice(0, notesStart);
+  const notes = notesStart === -1 ? undefined : markdown.slice(notesStart + '## Notes'.length).trim();
+
+  // Extract sections from markdown
+  const sections = body.split(/^## /m);
+  const description = sections[0].replace(/^# /, '').trim();
+
+  const details = sections.find(s => s.startsWith('Details'))?.replace('Details\n', '').trim();
+  const successCriteria = sections.find(s => s.startsWith('Success Criteria'))?.replace('Success Criteria\n', '').trim();
+
+  const status = statuses.includes(frontmatter.status) ? frontmatter.status as TaskStatus : undefined;
+  if (frontmatter.status && !status) {
+    throw new Error(`Invalid status "${frontmatter.status}". Valid statuses: ${statuses.join(', ')}`);
+  }
+
+  if (frontmatter.dueDate && !isValidDueDate(frontmatter.dueDate)) {
+    throw new Error(`Invalid dueDate "${frontmatter.dueDate}". Expected an ISO date like "2026-03-01" or an ISO timestamp`);
+  }
+
+  return {
+    filename,
+    id,
+    taskId,
+    parentId,
+    isSubtask,
+    title: frontmatter.title || `Task ${id.replace(/\./g, '-')}`,
+    description: description || frontmatter.description || 'No description provided',
+    details: details || frontmatter.details,
+    successCriteria: successCriteria || frontmatter.successCriteria,
+    priority: (frontmatter.priority as Priority) || 'medium',
+    status,
+    dependencies: frontmatter.dependencies || [],
+    tags: parseTags(frontmatter.tags),
+    dueDate: frontmatter.dueDate || undefined,
+    estimate: parseHours('estimate', frontmatter.estimate),
+    actualTime: parseHours('actualTime', frontmatter.actualTime),
+    notes: notes || undefined
+  };
+}
+
+/**
+ * Fields of a task or subtask as they would be written to its file
+ */
+export function getTaskFileFields(entity: Task | Subtask): TaskFileFields {
+  return {
+    title: entity.title,
+    description: entity.description,
+    details: entity.details,
+    successCriteria: entity.successCriteria,
+    priority: entity.priority,
+    status: entity.status,
+    dependencies: entity.dependencies,
+    tags: entity.tags && entity.tags.length > 0 ? entity.tags : undefined,
+    dueDate: entity.dueDate,
+    estimate: entity.estimate,
+    actualTime: entity.actualTime,
+    notes: entity.notes ? formatNoteEntries(getNoteEntries(entity)) : undefined
+  };
+}
+
+/**
+ * Render a task file; parseTaskFile reads the result back into the same fields
+ */
+export function serializeTaskFile(fields: TaskFileFields): string {
+  let content = `---\n`;
+  content += `title: ${JSON.stringify(fields.title)}\n`;
+  if (fields.priority) {
+    content += `priority: ${JSON.stringify(fields.priority)}\n`;
+  }
+  if (fields.status) {
+    content += `status: ${JSON.stringify(fields.status)}\n`;
+  }
+  content += `dependencies: ${JSON.stringify(fields.dependencies)}\n`;
+  if (fields.tags && fields.tags.length > 0) {
+    content += `tags: ${JSON.stringify(fields.tags)}\n`;
+  }
+  if (fields.dueDate) {
+    content += `dueDate: ${JSON.stringify(fields.dueDate)}\n`;
+  }
+  if (fields.estimate !== undefined) {
+    content += `estimate: ${fields.estimate}\n`;
+  }
+  if (fields.actualTime !== undefined) {
+    content += `actualTime: ${fields.actualTime}\n`;
+  }
+  content += `---\n\n`;
+
+  content += `${fields.description.trim()}\n`;
+  if (fields.details) {
+    content += `\n## Details\n${fields.details.trim()}\n`;
+  }
+  if (fields.successCriteria) {
+    content += `\n## Success Criteria\n${fields.successCriteria.trim()}\n`;
+  }
+  if (fields.notes) {
+    content += `\n## Notes\n${fields.notes.trim()}\n`;
+  }
+  return content;
+}
@@ -3,7 +3,7 @@
  * Based on TaskMaster-AI data model
  */
 
-export type TaskStatus = 
+export type DefaultTaskStatus = 
   | 'pending' 
   | 'in-progress' 
   | 'done' 
@@ -12,16 +12,70 @@ export type TaskStatus =
   | 'cancelled' 
   | 'review';
 
+// Projects with a custom workflow may use further status names
+export type TaskStatus = DefaultTaskStatus | (string & Record<never, never>);
+
+/**
+ * Statuses a project's tasks can be in and how they may move between them.
+ * Every workflow contains "pending" (status of new tasks) and "done".
+ */
+export interface ProjectWorkflow {
+  statuses: TaskStatus[];
+  finalStatuses: TaskStatus[];  // Finished statuses: satisfy dependencies of a "done" task, release claims
+  transitions: Record<string, TaskStatus[]>; // Allowed target statuses per status
+}
+
 export type Priority = 'low' | 'medium' | 'high';
 
+/**
+ * Reference to another task or subtask. Strings are hierarchical IDs ("3", "2.4")
+ * and may point anywhere in the tree. Numbers are task IDs on tasks and sibling
+ * subtask IDs on subtasks, as stored before dependencies could cross levels.
+ */
+export type TaskDependency = number | string;
+
+/**
+ * Time-limited lease an agent holds on a task or subtask while working on it
+ */
+export interface TaskClaim {
+  claimedBy: string;            // Agent name, or the session ID when no agent name is given
+  claimedAt: string;            // ISO timestamp
+  expiresAt: string;            // ISO timestamp; an expired claim no longer blocks other agents
+}
+
+export type NoteKind = 'progress' | 'status-change' | 'completion-proof' | 'blocker';
+
+/**
+ * One entry of the note history of a task or subtask
+ */
+export interface NoteEntry {
+  timestamp: string;            // ISO timestamp
+  kind: NoteKind;
+  text: string;
+  author?: string;              // Agent name or session ID, missing on migrated notes
+  sessionId?: string;           // Session that wrote the note, missing on migrated notes
+  transition?: { from: TaskStatus; to: TaskStatus }; // Status change made with the note
+}
+
 export interface Subtask {
   id: number;                   // Unique within parent task
   title: string;
   description: string;
   details?: string;
+  successCriteria?: string;     // Completion proof is required when set, as for tasks
   status: TaskStatus;
-  dependencies: number[];       // Can reference other subtask IDs or main task IDs
-  notes?: string;              // Accumulated notes from task updates
+  priority?: Priority;          // Missing on subtasks created before subtasks had priorities
+  dependencies: TaskDependency[]; // Sibling subtask IDs or hierarchical IDs anywhere in the tree
+  subtasks?: Subtask[];         // Nested subtasks (IDs like "1.2.3"), missing on older data
+  tags?: string[];              // Lowercase labels such as "frontend" or "security"
+  assignee?: string;            // Agent responsible for the subtask
+  claim?: TaskClaim;            // Current lease, see chonky-task-manager-claim-task
+  dueDate?: string;             // ISO date ("2026-03-01") or timestamp the subtask is due
+  estimate?: number;            // Estimated effort in hours
+  actualTime?: number;          // Time spent so far in hours
+  notes?: NoteEntry[] | string; // Note history; a string of "[timestamp] text" entries on older data
+  created?: string;            // ISO timestamp, missing on older data
+  updated?: string;            // ISO timestamp, missing on older data
 }
 
 export interface Task {
@@ -32,9 +86,15 @@ export interface Task {
   successCriteria?: string;     // Testing approach and verification strategy
   status: TaskStatus;           // Current task state
   priority: Priority;           // Task importance level
-  dependencies: number[];       // Array of task IDs this depends on
+  dependencies: TaskDependency[]; // Task IDs or hierarchical subtask IDs this depends on
   subtasks: Subtask[];         // Nested subtasks
-  notes?: string;              // Accumulated notes from task updates
+  tags?: string[];             // Lowercase labels such as "frontend" or "security"
+  assignee?: string;           // Agent responsible for the task
+  claim?: TaskClaim;           // Current lease, see chonky-task-manager-claim-task
+  dueDate?: string;            // ISO date ("2026-03-01") or timestamp the task is due
+  estimate?: number;           // Estimated effort in hours
+  actualTime?: number;         // Time spent so far in hours
+  notes?: NoteEntry[] | string; // Note history; a string of "[timestamp] text" entries on older data
   created: string;             // ISO timestamp
   updated: string;             // ISO timestamp
 }
@@ -43,6 +103,9 @@ export interface ProjectData {
   name: string;
   tasks: Task[];               // Array of tasks (matches TaskMaster format)
   nextId: number;              // For ID generation
+  revision?: number;           // Incremented on every save to detect concurrent writes
+  archived?: string;           // ISO timestamp when the project was archived (read-only while set)
+  workflow?: ProjectWorkflow;  // Custom statuses and transitions, DEFAULT_WORKFLOW when missing
   created: string;
   updated: string;
 }
@@ -53,10 +116,41 @@ export interface TaskFilter {
   withSubtasks?: boolean;
 }
 
+export interface TagFilter {
+  any?: string[];               // At least one of these tags
+  all?: string[];               // Every one of these tags
+  none?: string[];              // None of these tags
+}
+
 export interface DependencyValidationResult {
   isValid: boolean;
   errors: string[];
-  circularDependencies?: number[][];
+  circularDependencies?: string[][]; // Hierarchical IDs along each cycle
+}
+
+/**
+ * Scheduling figures of one task or subtask in a critical path analysis
+ */
+export interface ScheduledTask {
+  id: string;                   // Hierarchical ID
+  title: string;
+  status: TaskStatus;
+  duration: number;             // Estimate in hours, 1 without estimate, 0 for parents without estimate
+  estimated: boolean;           // Whether the duration comes from an estimate
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number;                // How far the task can slip without delaying the project
+  critical: boolean;            // Zero slack
+}
+
+export interface CriticalPathResult {
+  duration: number;             // Length of the critical path
+  criticalPath: string[];       // Hierarchical IDs, first prerequisite first
+  remainingDuration: number;    // Length of the longest chain of open tasks
+  remainingChain: string[];     // Open tasks along that chain, first prerequisite first
+  tasks: ScheduledTask[];
 }
 
 export interface NextTaskResult {
@@ -70,8 +164,15 @@ export const VALID_STATUSES = [
   'pending', 'in-progress', 'done', 'blocked', 'deferred', 'cancelled', 'review'
 ] as const;
 
+export const NOTE_KINDS: NoteKind[] = ['progress', 'status-change', 'completion-proof', 'blocker'];
+
 export const FINAL_STATUSES = ['done', 'cancelled'] as const;
 
+export type DueState = 'overdue' | 'due-soon';
+
+// Open tasks due within this many hours are flagged as due soon
+export const DUE_SOON_HOURS = 48;
+
 export const VALID_PRIORITIES: Priority[] = ['low', 'medium', 'high'];
 
 // TaskMaster-AI compatible status colors
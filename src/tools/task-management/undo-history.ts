@@ -0,0 +1,123 @@
+/**
+ * Undo/redo history for ChonkyTasks projects
+ * saveProject records a snapshot of the project before every write; undo
+ * restores older snapshots and keeps the undone states around for redo
+ */
+
+import { ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import { ProjectData } from './types.js';
+
+export const MAX_UNDO_SNAPSHOTS = 50;
+
+// Snapshots hold full project copies; the oldest are dropped to stay well below the value size limit
+export const MAX_UNDO_HISTORY_BYTES = 4 * 1024 * 1024;
+
+export interface ProjectSnapshot {
+  project: ProjectData;         // Project state the snapshot restores
+  timestamp: string;            // When the mutation was made
+  sessionId: string;            // Session that made the mutation
+  tool: string;                 // Tool that made the mutation
+  changes: string[];            // Human readable description of the mutation
+}
+
+export interface UndoHistory {
+  undo: ProjectSnapshot[];      // States before each mutation, oldest first
+  redo: ProjectSnapshot[];      // States after each undone mutation, next redo last
+}
+
+/**
+ * Memory store key holding the undo history of a project
+ */
+export function getUndoHistoryKey(projectKey: string): string {
+  return `tasks.undo.${projectKey}`;
+}
+
+export async function loadUndoHistory(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string
+): Promise<UndoHistory> {
+  const result = await memoryStore.execute({
+    ...context,
+    arguments: {
+      operation: 'get',
+      key: getUndoHistoryKey(projectKey),
+      namespace: 'chonky-task-manager'
+    }
+  });
+
+  if (!result.success || !result.result || result.result === 'undefined') {
+    return { undo: [], redo: [] };
+  }
+  return JSON.parse(result.result);
+}
+
+/**
+ * Keep the most recent snapshots within MAX_UNDO_SNAPSHOTS and MAX_UNDO_HISTORY_BYTES
+ */
+export function trimUndoHistory(history: UndoHistory): UndoHistory {
+  const trimmed = {
+    undo: history.undo.slice(-MAX_UNDO_SNAPSHOTS),
+    redo: history.redo.slice(-MAX_UNDO_SNAPSHOTS)
+  };
+
+  const sizes = new Map<ProjectSnapshot, number>();
+  [...trimmed.undo, ...trimmed.redo].forEach(snapshot => sizes.set(snapshot, Buffer.byteLength(JSON.stringify(snapshot))));
+  let size = [...sizes.values()].reduce((total, bytes) => total + bytes, 0);
+
+  // Both stacks keep the next entry last, so the entries furthest away come first
+  while (size > MAX_UNDO_HISTORY_BYTES) {
+    const stack = trimmed.undo.length > 0 ? trimmed.undo : trimmed.redo;
+    size -= sizes.get(stack.shift()!)!;
+  }
+  return trimmed;
+}
+
+/**
+ * Store the undo history. When it cannot be stored the previous history is
+ * removed, since it no longer matches the project and undo would restore a stale state.
+ */
+export async function saveUndoHistory(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string,
+  history: UndoHistory
+): Promise<ToolExecutionResult> {
+  const result = await memoryStore.execute({
+    ...context,
+    arguments: {
+      operation: 'set',
+      key: getUndoHistoryKey(projectKey),
+      value: trimUndoHistory(history),
+      namespace: 'chonky-task-manager'
+    }
+  });
+
+  if (!result.success) {
+    await memoryStore.execute({
+      ...context,
+      arguments: {
+        operation: 'delete',
+        key: getUndoHistoryKey(projectKey),
+        namespace: 'chonky-task-manager'
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Record the state before a new mutation; a new mutation invalidates any redo
+ */
+export async function recordUndoSnapshot(
+  memoryStore: MemoryStoreTool,
+  context: ToolExecutionContext,
+  projectKey: string,
+  snapshot: ProjectSnapshot
+): Promise<ToolExecutionResult> {
+  const history = await loadUndoHistory(memoryStore, context, projectKey);
+  history.undo.push(snapshot);
+  history.redo = [];
+  return saveUndoHistory(memoryStore, context, projectKey, history);
+}
@@ -0,0 +1,162 @@
+/**
+ * ChonkyTasks - Undo Tool
+ * Reverts or re-applies the last mutations of a project using the snapshots
+ * taken before each write
+ */
+
+import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { z } from 'zod';
+import { ProjectData } from './types.js';
+import { MemoryStoreTool } from '../utilities/memory-store.js';
+import { normalizeProjectKey, describeProjectChanges } from './utils.js';
+import { createProjectNotFoundError, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
+import { saveProject, getProjectStorageKey, TASK_MANAGER_NAMESPACE } from './project-store.js';
+import { ProjectSnapshot, loadUndoHistory, saveUndoHistory } from './undo-history.js';
+
+const undoSchema = z.object({
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
+  operation: z.enum(['undo', 'redo']).default('undo'),
+  steps: z.number().int().positive().default(1),
+  preview: z.boolean().default(false)
+});
+
+export class TaskManagerUndoTool extends ChonkyTool {
+  readonly name = 'chonky-task-manager-undo';
+  readonly description = 'Undo or redo the last N mutations of a project, with a preview of the state that will be restored';
+  readonly category = 'Utilities' as const;
+
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+      },
+      operation: {
+        type: 'string',
+        enum: ['undo', 'redo'],
+        default: 'undo',
+        description: 'undo: revert the last mutations, redo: re-apply mutations reverted by undo'
+      },
+      steps: {
+        type: 'number',
+        default: 1,
+        description: 'Number of mutations to undo or redo'
+      },
+      preview: {
+        type: 'boolean',
+        default: false,
+        description: 'Only show what would be restored without changing the project'
+      }
+    },
+    required: []
+  };
+
+  private memoryStore = new MemoryStoreTool();
+
+  async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const params = undoSchema.parse(context.arguments);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
+
+      const projectResult = await this.memoryStore.execute({
+        ...context,
+        arguments: {
+          operation: 'get',
+          key: getProjectStorageKey(projectKey),
+          namespace: TASK_MANAGER_NAMESPACE
+        }
+      });
+
+      if (!projectResult.success || !projectResult.result || projectResult.result === 'undefined') {
+        const errorMessage = await createProjectNotFoundError(projectName, this.memoryStore, context);
+        return this.error(errorMessage);
+      }
+
+      const current: ProjectData = JSON.parse(projectResult.result);
+      const history = await loadUndoHistory(this.memoryStore, context, projectKey);
+      const isUndo = params.operation === 'undo';
+      const stack = isUndo ? history.undo : history.redo;
+      const pastTense = isUndo ? 'undone' : 'redone';
+
+      if (stack.length === 0) {
+        return this.error(`Nothing to ${params.operation} for project "${projectName}".`);
+      }
+      if (params.steps > stack.length) {
+        return this.error(`Only ${stack.length} mutation${stack.length > 1 ? 's' : ''} can be ${pastTense} for project "${projectName}".`);
+      }
+
+      // Both stacks keep the next entry last; walk the affected mutations oldest first
+      const taken = stack.slice(-params.steps);
+      const mutations = isUndo ? taken : [...taken].reverse();
+      const target: ProjectData = structuredClone(isUndo ? mutations[0].project : mutations[mutations.length - 1].project);
+      const differences = describeProjectChanges(current, target);
+
+      let output = `## ${isUndo ? '↩️' : '↪️'} **${current.name}** ${params.preview ? `${isUndo ? 'Undo' : 'Redo'} Preview` : `${params.steps} Mutation${params.steps > 1 ? 's' : ''} ${isUndo ? 'Undone' : 'Redone'}`}\n\n`;
+      output += `**Mutations ${params.preview ? `to be ${pastTense}` : pastTense}:**\n`;
+      mutations.forEach(mutation => {
+        const summary = mutation.changes.length > 0 ? mutation.changes.join('; ') : 'project updated';
+        output += `- ${mutation.timestamp} ${mutation.tool}: ${summary}\n`;
+      });
+      output += `\n**${params.preview ? 'Will restore' : 'Restored'}:**\n`;
+      output += differences.length > 0 ? `- ${differences.join('\n- ')}\n` : `- No task changes\n`;
+
+      if (!params.preview) {
+        target.revision = current.revision;
+        const saveResult = await saveProject(this.memoryStore, context, projectKey, target, {
+          tool: this.name,
+          events: [{ type: 'ProjectRestored', project: target, operation: params.operation, steps: params.steps }],
+          recordUndo: false
+        });
+
+        if (!saveResult.success) {
+          return this.error(`Failed to ${params.operation}: ${saveResult.result}`);
+        }
+
+        // Every moved entry restores the state on the other side of its mutation
+        const moved: ProjectSnapshot[] = mutations.map((mutation, index) => ({
+          ...mutation,
+          project: isUndo
+            ? (index < mutations.length - 1 ? mutations[index + 1].project : current)
+            : (index > 0 ? mutations[index - 1].project : current)
+        }));
+
+        stack.splice(-params.steps);
+        if (isUndo) {
+          history.redo.push(...moved.reverse());
+        } else {
+          history.undo.push(...moved);
+        }
+        const historyResult = await saveUndoHistory(this.memoryStore, context, projectKey, history);
+        if (!historyResult.success) {
+          history.undo = [];
+          history.redo = [];
+          output += `\n⚠️ The undo history could not be stored and was cleared: ${historyResult.result}\n`;
+        }
+      }
+
+      output += `\n**Remaining:** ${history.undo.length} undo, ${history.redo.length} redo`;
+
+      return this.success(output, {
+        project: current.name,
+        operation: params.operation,
+        steps: params.steps,
+        preview: params.preview,
+        differences,
+        undoAvailable: history.undo.length,
+        redoAvailable: history.redo.length
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError(`Invalid input: ${error.errors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+}
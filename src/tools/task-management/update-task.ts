@@ -6,17 +6,27 @@
 import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
 import { ValidationError } from '../../utils/errors.js';
 import { z } from 'zod';
-import { Task, Subtask, ProjectData, TaskStatus, FINAL_STATUSES } from './types.js';
+import { Task, Subtask, ProjectData, TaskStatus, NoteEntry, NOTE_KINDS } from './types.js';
 import { MemoryStoreTool } from '../utilities/memory-store.js';
-import { parseTaskId, validateDependencies, findTaskById, touchTask, touchProject, normalizeProjectKey } from './utils.js';
-import { createProjectNotFoundError } from './project-validation.js';
+import { parseTaskId, findTaskById, findTaskNode, getForeignClaim, resolveAgentId, formatHours, touchTask, normalizeProjectKey } from './utils.js';
+import { createProjectNotFoundError, resolveProjectName, NO_ACTIVE_PROJECT_ERROR } from './project-validation.js';
 import { getReadyTasks } from './utils.js';
+import { saveProject, createProjectConflictError } from './project-store.js';
+import { ProjectEventPayload } from './events.js';
+import { getWorkflow } from './workflow.js';
+import { checkStatusChange, rollUpAncestorStatuses } from './status-change.js';
+import { getNoteEntries, inferNoteKind } from './notes.js';
 
 const updateTaskSchema = z.object({
-  project: z.string().min(1, 'Project name is required'),
+  project: z.string().min(1, 'Project name cannot be empty').optional(),
   taskId: z.string().min(1, 'Task ID is required'),
-  status: z.enum(['pending', 'in-progress', 'done', 'blocked', 'deferred', 'cancelled', 'review']).optional(),
-  notes: z.string().min(1, 'Notes are required for every task update')
+  status: z.string().min(1, 'Status cannot be empty').optional(),
+  notes: z.string().min(1, 'Notes are required for every task update'),
+  noteKind: z.enum(['progress', 'status-change', 'completion-proof', 'blocker']).optional(),
+  expectedRevision: z.number().int().nonnegative().optional(),
+  timeSpent: z.number().positive('Time spent must be positive').optional(),
+  agent: z.string().min(1, 'Agent name cannot be empty').optional(),
+  force: z.boolean().default(false)
 });
 
 export class TaskManagerUpdateTaskTool extends ChonkyTool {
@@ -29,23 +39,44 @@ export class TaskManagerUpdateTaskTool extends ChonkyTool {
     properties: {
       project: {
         type: 'string',
-        description: 'Project name: max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
+        description: 'Project name (optional - defaults to the active project): max 30 chars, no spaces, use dashes/underscores (e.g. "my-audit-project")'
       },
       taskId: {
         type: 'string',
-        description: 'Task ID (e.g., "1" for task, "1.2" for subtask)'
+        description: 'Task ID (e.g., "1" for task, "1.2" for subtask, "1.2.3" for a nested subtask)'
       },
       status: {
         type: 'string',
-        enum: ['pending', 'in-progress', 'done', 'blocked', 'deferred', 'cancelled', 'review'],
-        description: 'New status for the task/subtask (optional - if not provided, only notes are updated)'
+        description: 'New status for the task/subtask (optional - if not provided, only notes are updated): pending, in-progress, done, blocked, deferred, cancelled or review, or a status of the project\'s custom workflow; only transitions the workflow allows are accepted'
       },
       notes: {
         type: 'string',
         description: 'Required notes about the update, progress, findings, or completion proof'
+      },
+      noteKind: {
+        type: 'string',
+        enum: NOTE_KINDS,
+        description: 'Kind of the note (optional - defaults to completion-proof when marking done, blocker when marking blocked, status-change for other status changes and progress otherwise)'
+      },
+      expectedRevision: {
+        type: 'number',
+        description: 'Project revision the update is based on (optional - the update is rejected if the project changed since)'
+      },
+      timeSpent: {
+        type: 'number',
+        description: 'Hours spent since the last update; added to the actual time of the task/subtask'
+      },
+      agent: {
+        type: 'string',
+        description: 'Name of the agent making the update (optional - defaults to the session ID), as used with chonky-task-manager-claim-task'
+      },
+      force: {
+        type: 'boolean',
+        default: false,
+        description: 'Update a task even though another agent holds a claim on it'
       }
     },
-    required: ['project', 'taskId', 'notes']
+    required: ['taskId', 'notes']
   };
 
   private memoryStore = new MemoryStoreTool();
@@ -55,7 +86,11 @@ export class TaskManagerUpdateTaskTool extends ChonkyTool {
       const params = updateTaskSchema.parse(context.arguments);
 
       // Get project from memory
-      const projectKey = normalizeProjectKey(params.project);
+      const projectName = await resolveProjectName(params.project, this.memoryStore, context);
+      if (!projectName) {
+        return this.error(NO_ACTIVE_PROJECT_ERROR);
+      }
+      const projectKey = normalizeProjectKey(projectName);
       const getResult = await this.memoryStore.execute({
         ...context,
         arguments: {
@@ -66,13 +101,18 @@ export class TaskManagerUpdateTaskTool extends ChonkyTool {
       });
 
       if (!getResult.success || !getResult.result || getResult.result === 'undefined') {
-        const errorMessage = await createProjectNotFoundError(params.project, this.memoryStore, context);
+        const errorMessage = await createProjectNotFoundError(projectName, this.memoryStore, context);
         return this.error(errorMessage);
       }
 
       const project: ProjectData = JSON.parse(getResult.result);
-      const { parentId, subtaskId } = parseTaskId(params.taskId);
-      const isSubtask = subtaskId !== undefined;
+      const currentRevision = project.revision ?? 0;
+      if (params.expectedRevision !== undefined && params.expectedRevision !== currentRevision) {
+        throw await createProjectConflictError(this.memoryStore, context, projectKey, project.name, params.expectedRevision, currentRevision);
+      }
+
+      const { parentId, path } = parseTaskId(params.taskId);
+      const isSubtask = path.length > 1;
 
       // Find the task
       const task = findTaskById(project, parentId);
@@ -80,108 +120,73 @@ export class TaskManagerUpdateTaskTool extends ChonkyTool {
         return this.error(`Task #${parentId} not found.`);
       }
 
-      let oldStatus: TaskStatus;
-      let updatedEntity: Task | Subtask;
-      let entityType: string;
-      let entityId: string;
-
-      if (isSubtask) {
-        // Update subtask
-        const subtask = task.subtasks.find(st => st.id === subtaskId);
-        if (!subtask) {
-          return this.error(`Subtask #${parentId}.${subtaskId} not found.`);
-        }
-
-        oldStatus = subtask.status;
-        updatedEntity = subtask;
-        entityType = 'Subtask';
-        entityId = `${parentId}.${subtaskId}`;
-
-        // Handle status change if provided
-        if (params.status && params.status !== oldStatus) {
-          // Check if marking as done
-          if (params.status === 'done') {
-            const completionCheck = this.validateCompletion(subtask, params.notes);
-            if (!completionCheck.isValid) {
-              return this.error(completionCheck.reason!);
-            }
+      const node = findTaskNode(project, params.taskId);
+      if (!node) {
+        return this.error(`Subtask #${params.taskId} not found.`);
+      }
 
-            // Check subtask dependencies
-            const depCheck = this.checkSubtaskDependencies(task, subtask);
-            if (!depCheck.canComplete) {
-              return this.error(
-                `Cannot mark subtask #${entityId} as done. ` +
-                `Incomplete dependencies: ${depCheck.incompleteDeps.join(', ')}`
-              );
-            }
-          }
+      const entity = node.entity;
+      const entityId = path.join('.');
+      const entityType = isSubtask ? 'Subtask' : 'Task';
+      const oldStatus: TaskStatus = entity.status;
+      const workflow = getWorkflow(project);
+      const events: ProjectEventPayload[] = [];
+
+      // Only the agent holding a claim on the task or one of its ancestors may change it
+      const agent = resolveAgentId(params.agent, context.sessionId);
+      const foreignClaim = getForeignClaim(project, entityId, agent);
+      if (foreignClaim && !params.force) {
+        return this.error(
+          `${entityType} #${entityId} is claimed by "${foreignClaim.claim.claimedBy}"` +
+          `${foreignClaim.id !== entityId ? ` (via #${foreignClaim.id})` : ''} until ${foreignClaim.claim.expiresAt}. ` +
+          `Only the claim owner can update it; pass force: true to override.`
+        );
+      }
 
-          subtask.status = params.status;
+      // Handle status change if provided
+      if (params.status && params.status !== oldStatus) {
+        const statusError = checkStatusChange(project, entityId, entity, params.status, params.notes);
+        if (statusError) {
+          return this.error(statusError);
         }
 
-        // Always update notes
-        this.appendNotes(subtask, params.notes, oldStatus, params.status);
-        touchTask(task); // Update parent task timestamp
-
-        // Auto-update parent task status based on subtask completion
-        this.updateParentTaskStatus(task);
-
-      } else {
-        // Update main task
-        oldStatus = task.status;
-        updatedEntity = task;
-        entityType = 'Task';
-        entityId = `${parentId}`;
-
-        // Handle status change if provided
-        if (params.status && params.status !== oldStatus) {
-          // Check if marking as done
-          if (params.status === 'done') {
-            const completionCheck = this.validateCompletion(task, params.notes);
-            if (!completionCheck.isValid) {
-              return this.error(completionCheck.reason!);
-            }
+        entity.status = params.status;
+        events.push({ type: 'StatusChanged', taskId: entityId, from: oldStatus, to: params.status });
+      }
 
-            // Check task dependencies
-            const incompleteDeps = task.dependencies.filter(depId => {
-              const depTask = findTaskById(project, depId);
-              return depTask && !FINAL_STATUSES.includes(depTask.status as any);
-            });
-            
-            if (incompleteDeps.length > 0) {
-              return this.error(
-                `Cannot mark task #${parentId} as done. ` +
-                `Incomplete dependencies: ${incompleteDeps.join(', ')}`
-              );
-            }
+      if (params.timeSpent !== undefined) {
+        entity.actualTime = (entity.actualTime || 0) + params.timeSpent;
+        events.push({ type: 'TaskEdited', taskId: entityId, fields: { actualTime: entity.actualTime } });
+      }
 
-            // Check if all subtasks are in final states
-            const incompleteSubtasks = task.subtasks.filter(st => !FINAL_STATUSES.includes(st.status as any));
-            if (incompleteSubtasks.length > 0) {
-              return this.error(
-                `Cannot mark task #${parentId} as done. ` +
-                `Subtasks not in final state: ${incompleteSubtasks.map(st => `${parentId}.${st.id}`).join(', ')}`
-              );
-            }
-          }
+      // Finished work no longer needs a lease
+      let releasedClaim: string | undefined;
+      if (entity.claim && workflow.finalStatuses.includes(entity.status)) {
+        releasedClaim = entity.claim.claimedBy;
+        events.push({ type: 'ClaimReleased', taskId: entityId, claimedBy: releasedClaim });
+        delete entity.claim;
+      }
 
-          task.status = params.status;
-        }
+      // Always update notes
+      const entry = this.appendNote(entity, {
+        timestamp: new Date().toISOString(),
+        kind: params.noteKind || inferNoteKind(oldStatus, params.status),
+        text: params.notes,
+        author: agent,
+        sessionId: context.sessionId,
+        ...(params.status && params.status !== oldStatus && { transition: { from: oldStatus, to: params.status } })
+      });
+      events.push({ type: 'NotesAppended', taskId: entityId, entry });
+      touchTask(entity);
+      touchTask(task); // Update top-level task timestamp
 
-        // Always update notes
-        this.appendNotes(task, params.notes, oldStatus, params.status);
-        touchTask(task);
-      }
+      // Auto-update ancestor statuses based on subtask completion
+      const autoUpdates = rollUpAncestorStatuses(project, entityId, events);
 
       // Save updated project
-      const saveResult = await this.memoryStore.execute({
-        ...context,
-        arguments: {
-          operation: 'set',
-          key: `tasks.projects.${projectKey}`,
-          value: project,
-          namespace: 'chonky-task-manager'
-        }
+      const saveResult = await saveProject(this.memoryStore, context, projectKey, project, {
+        tool: this.name,
+        events
       });
 
       if (!saveResult.success) {
@@ -197,30 +202,33 @@ export class TaskManagerUpdateTaskTool extends ChonkyTool {
 
       message += `\nNotes added: ${params.notes.substring(0, 100)}${params.notes.length > 100 ? '...' : ''}`;
 
-      // Add any automatic status changes
-      const autoUpdates = [];
-      if (isSubtask) {
-        const parentStatusChange = this.getParentStatusChange(task, oldStatus);
-        if (parentStatusChange) {
-          autoUpdates.push(`Parent task #${parentId} status updated to ${parentStatusChange}`);
-        }
+      if (params.timeSpent !== undefined) {
+        message += `\nTime logged: ${formatHours(params.timeSpent)} (total ${formatHours(entity.actualTime!)}` +
+          `${entity.estimate !== undefined ? ` of ${formatHours(entity.estimate)} estimated` : ''})`;
+      }
+
+      if (foreignClaim) {
+        message += `\n⚠️ Forced update of a task claimed by "${foreignClaim.claim.claimedBy}"`;
+      }
+      if (releasedClaim) {
+        message += `\n🔓 Claim of "${releasedClaim}" released`;
       }
 
+      // Add any automatic status changes
       if (autoUpdates.length > 0) {
         message += `\n\nAutomatic updates:\n- ${autoUpdates.join('\n- ')}`;
       }
 
-      // Add completion guidance for tasks with successCriteria that are not yet done
-      const hasSuccessCriteria = 'successCriteria' in updatedEntity && updatedEntity.successCriteria && updatedEntity.successCriteria.trim().length > 0;
-      if (hasSuccessCriteria && updatedEntity.status !== 'done') {
-        const successCriteria = (updatedEntity as Task).successCriteria!;
-        message += `\n\n📝 **Completion Reminder:** To mark this task as "done", provide definitive proof explaining how the successCriteria is met: "${successCriteria}"`;
+      // Add completion guidance for tasks and subtasks with successCriteria that are not yet finished
+      const hasSuccessCriteria = entity.successCriteria && entity.successCriteria.trim().length > 0;
+      if (hasSuccessCriteria && !workflow.finalStatuses.includes(entity.status)) {
+        message += `\n\n📝 **Completion Reminder:** To mark this ${entityType.toLowerCase()} as "done", provide definitive proof explaining how the successCriteria is met: "${entity.successCriteria}"`;
       }
 
       // Add project completion status
       const allTasks = project.tasks || [];
-      const pendingTasks = allTasks.filter(t => !['done', 'cancelled'].includes(t.status));
-      const completedTasks = allTasks.filter(t => t.status === 'done').length;
+      const pendingTasks = allTasks.filter(t => !workflow.finalStatuses.includes(t.status));
+      const completedTasks = allTasks.filter(t => workflow.finalStatuses.includes(t.status)).length;
       
       if (pendingTasks.length > 0) {
         const pct = Math.round((completedTasks / allTasks.length) * 100);
@@ -237,13 +245,14 @@ export class TaskManagerUpdateTaskTool extends ChonkyTool {
       }
 
       return this.success(message, {
-        project: params.project,
+        project: projectName,
         taskId: params.taskId,
         oldStatus,
         newStatus: params.status || oldStatus,
         entityType: isSubtask ? 'subtask' : 'task',
         notesAdded: true,
-        autoUpdates: autoUpdates.length
+        autoUpdates: autoUpdates.length,
+        revision: project.revision
       });
 
     } catch (error) {
@@ -254,98 +263,11 @@ export class TaskManagerUpdateTaskTool extends ChonkyTool {
     }
   }
 
-  private validateCompletion(entity: Task | Subtask, notes: string): { isValid: boolean; reason?: string } {
-    // Check if entity has successCriteria defined
-    const hasSuccessCriteria = 'successCriteria' in entity && entity.successCriteria && entity.successCriteria.trim().length > 0;
-    
-    // If no successCriteria defined, allow completion without proof
-    if (!hasSuccessCriteria) {
-      return { isValid: true };
-    }
-
-    // Check for completion-related keywords in the notes
-    const completionKeywords = [
-      'proof', 'complete', 'done', 'finished', 'verified', 'tested', 'validated', 
-      'confirmed', 'successful', 'achieved', 'met', 'satisfied', 'implemented',
-      'deployed', 'working', 'fixed', 'resolved', 'delivered'
-    ];
-    
-    const hasCompletionEvidence = () => completionKeywords.some(keyword => 
-      notes.toLowerCase().includes(keyword.toLowerCase())
-    );
-
-    // If successCriteria is defined, require a note to be provided
-    if (!notes || notes.trim().length === 0 || !hasCompletionEvidence()) {
-      const successCriteria = (entity as Task).successCriteria!;
-      return {
-        isValid: false,
-        reason: `Task has defined successCriteria and requires completion proof. Please provide a note that includes completion keywords (like 'COMPLETION PROOF:', 'completed', 'verified', 'tested', 'implemented', 'delivered', etc.) and explains how the following criteria was met: "${successCriteria}"`
-      };
-    }
-
-    // If successCriteria exists and notes are provided, trust the caller
-    return { isValid: true };
-  }
-
-  private appendNotes(entity: Task | Subtask, newNotes: string, oldStatus?: TaskStatus, newStatus?: TaskStatus): void {
-    const timestamp = new Date().toISOString();
-    let noteEntry = `[${timestamp}] ${newNotes}`;
-    
-    if (newStatus && oldStatus && newStatus !== oldStatus) {
-      noteEntry = `[${timestamp}] Status: ${oldStatus} → ${newStatus}\n${newNotes}`;
-    }
-
-    if (entity.notes) {
-      entity.notes += '\n\n' + noteEntry;
-    } else {
-      entity.notes = noteEntry;
-    }
-  }
-
-  private checkSubtaskDependencies(task: Task, subtask: Subtask): { canComplete: boolean; incompleteDeps: string[] } {
-    const incompleteDeps: string[] = [];
-    
-    for (const depId of subtask.dependencies) {
-      const depSubtask = task.subtasks.find(st => st.id === depId);
-      if (depSubtask && !FINAL_STATUSES.includes(depSubtask.status as any)) {
-        incompleteDeps.push(`${task.id}.${depId}`);
-      }
-    }
-
-    return {
-      canComplete: incompleteDeps.length === 0,
-      incompleteDeps
-    };
-  }
-
-  private updateParentTaskStatus(task: Task): void {
-    if (task.subtasks.length === 0) return;
-
-    const completedSubtasks = task.subtasks.filter(st => st.status === 'done').length;
-    const totalSubtasks = task.subtasks.length;
-    const inProgressSubtasks = task.subtasks.filter(st => st.status === 'in-progress').length;
-    const blockedSubtasks = task.subtasks.filter(st => st.status === 'blocked').length;
-
-    // Auto-update parent task status based on subtask states
-    if (completedSubtasks === totalSubtasks) {
-      // All subtasks done - but don't auto-complete, require explicit completion with notes
-      if (task.status !== 'review' && task.status !== 'done') {
-        task.status = 'review'; // Ready for completion review
-        touchTask(task);
-      }
-    } else if (blockedSubtasks > 0 && task.status !== 'blocked') {
-      // Some subtasks blocked
-      task.status = 'blocked';
-      touchTask(task);
-    } else if (inProgressSubtasks > 0 && task.status === 'pending') {
-      // Some subtasks in progress, parent still pending
-      task.status = 'in-progress';
-      touchTask(task);
-    }
-  }
-
-  private getParentStatusChange(task: Task, oldTaskStatus: TaskStatus): TaskStatus | null {
-    // Only return if the task status actually changed
-    return task.status !== oldTaskStatus ? task.status : null;
+  /**
+   * Add an entry to the note history, migrating notes stored as one string
+   */
+  private appendNote(entity: Task | Subtask, entry: NoteEntry): NoteEntry {
+    entity.notes = [...getNoteEntries(entity), entry];
+    return entry;
   }
 }
@@ -2,7 +2,9 @@
  * Core utilities for ChonkyTasks task management system
  */
 
-import { Task, Subtask, TaskStatus, DependencyValidationResult, ProjectData } from './types.js';
+import { Task, Subtask, TaskStatus, TaskDependency, TaskClaim, TagFilter, DueState, DependencyValidationResult, ProjectData, ScheduledTask, CriticalPathResult, FINAL_STATUSES, DUE_SOON_HOURS } from './types.js';
+import { getFinalStatuses } from './workflow.js';
+import { getNoteEntries } from './notes.js';
 
 /**
  * Normalize project name to match MemoryStoreTool key normalization
@@ -16,28 +18,45 @@ export function normalizeProjectKey(projectName: string): string {
     .replace(/^\.|\.$/, '');      // Remove leading/trailing dots
 }
 
+/**
+ * Task IDs ("3") and hierarchical subtask IDs ("3.1", "2.3.1")
+ */
+export const TASK_ID_PATTERN = /^\d+(\.\d+)*$/;
+
 /**
  * Generate a hierarchical task ID for subtasks (e.g., "1.1", "2.3.1")
  */
-export function generateSubtaskId(parentId: number, subtaskId: number): string {
+export function generateSubtaskId(parentId: number | string, subtaskId: number): string {
   return `${parentId}.${subtaskId}`;
 }
 
 /**
- * Parse a hierarchical task ID into components
+ * Parse a hierarchical task ID into components. parentId is the top-level
+ * task, subtaskId the innermost segment and path every segment in order.
  */
-export function parseTaskId(taskId: string): { parentId: number; subtaskId?: number } {
-  if (!taskId.includes('.')) {
-    return { parentId: parseInt(taskId, 10) };
-  }
-  
-  const parts = taskId.split('.');
+export function parseTaskId(taskId: string): { parentId: number; subtaskId?: number; path: number[] } {
+  const path = taskId.split('.').map(part => parseInt(part, 10));
   return {
-    parentId: parseInt(parts[0], 10),
-    subtaskId: parseInt(parts[1], 10)
+    parentId: path[0],
+    subtaskId: path.length > 1 ? path[path.length - 1] : undefined,
+    path
   };
 }
 
+/**
+ * Order hierarchical task IDs depth first: 1, 1.1, 1.1.1, 1.2, 2
+ */
+export function compareTaskIds(a: string, b: string): number {
+  const left = parseTaskId(a).path;
+  const right = parseTaskId(b).path;
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i] - right[i];
+    }
+  }
+  return left.length - right.length;
+}
+
 /**
  * Find a task by ID in the project
  */
@@ -46,26 +65,63 @@ export function findTaskById(project: ProjectData, taskId: number): Task | null
 }
 
 /**
- * Find a subtask by hierarchical ID
+ * Find a task or subtask at any depth together with the chain of ancestors
+ * leading to it, outermost first
  */
-export function findSubtaskById(project: ProjectData, taskId: string): { task: Task; subtask: Subtask } | null {
-  const { parentId, subtaskId } = parseTaskId(taskId);
-  
-  if (subtaskId === undefined) {
+export function findTaskNode(project: ProjectData, taskId: string): { task: Task; entity: Task | Subtask; ancestors: (Task | Subtask)[] } | null {
+  const { path } = parseTaskId(taskId);
+  const task = findTaskById(project, path[0]);
+  if (!task) {
     return null;
   }
-  
-  const parentTask = findTaskById(project, parentId);
-  if (!parentTask) {
-    return null;
+
+  const ancestors: (Task | Subtask)[] = [];
+  let entity: Task | Subtask = task;
+  for (const id of path.slice(1)) {
+    const child = getSubtasks(entity).find(st => st.id === id);
+    if (!child) {
+      return null;
+    }
+    ancestors.push(entity);
+    entity = child;
   }
-  
-  const subtask = parentTask.subtasks.find(st => st.id === subtaskId);
-  if (!subtask) {
+
+  return { task, entity, ancestors };
+}
+
+/**
+ * Find a subtask by hierarchical ID
+ */
+export function findSubtaskById(project: ProjectData, taskId: string): { task: Task; subtask: Subtask } | null {
+  const node = findTaskNode(project, taskId);
+  if (!node || node.ancestors.length === 0) {
     return null;
   }
-  
-  return { task: parentTask, subtask };
+  return { task: node.task, subtask: node.entity as Subtask };
+}
+
+/**
+ * Direct subtasks of a task or subtask; subtasks stored before nesting was supported have none
+ */
+export function getSubtasks(entity: Task | Subtask): Subtask[] {
+  return entity.subtasks || [];
+}
+
+/**
+ * All subtasks below a task or subtask, depth first, with their hierarchical IDs
+ */
+export function flattenSubtasks(entity: Task | Subtask, entityId: string, depth = 1): { id: string; subtask: Subtask; depth: number }[] {
+  return getSubtasks(entity).flatMap(subtask => {
+    const id = generateSubtaskId(entityId, subtask.id);
+    return [{ id, subtask, depth }, ...flattenSubtasks(subtask, id, depth + 1)];
+  });
+}
+
+/**
+ * Number of subtasks at every depth below a task
+ */
+export function countSubtasks(task: Task): number {
+  return flattenSubtasks(task, `${task.id}`).length;
 }
 
 /**
@@ -79,38 +135,107 @@ export function getNextTaskId(project: ProjectData): number {
 }
 
 /**
- * Get the next available subtask ID for a parent task
+ * Get the next available subtask ID for a parent task or subtask
  */
-export function getNextSubtaskId(parentTask: Task): number {
-  if (parentTask.subtasks.length === 0) {
+export function getNextSubtaskId(parent: Task | Subtask): number {
+  const subtasks = getSubtasks(parent);
+  if (subtasks.length === 0) {
     return 1;
   }
-  return Math.max(...parentTask.subtasks.map(st => st.id)) + 1;
+  return Math.max(...subtasks.map(st => st.id)) + 1;
+}
+
+/**
+ * Hierarchical ID a dependency of a task or subtask points to
+ */
+export function resolveDependencyId(ownerId: string, dependency: TaskDependency): string {
+  if (typeof dependency === 'string') {
+    return dependency;
+  }
+  // Numbers on subtasks are sibling subtask IDs
+  return [...parseTaskId(ownerId).path.slice(0, -1), dependency].join('.');
 }
 
 /**
- * Validate task dependencies to prevent circular references
+ * Value stored for a dependency given as hierarchical ID: dependencies between
+ * tasks stay plain numbers, everything else is stored as hierarchical ID
+ */
+export function toDependencyValue(ownerId: string, dependencyId: string): TaskDependency {
+  return !ownerId.includes('.') && !dependencyId.includes('.') ? parseInt(dependencyId, 10) : dependencyId;
+}
+
+/**
+ * Hierarchical IDs of everything a task or subtask depends on
+ */
+export function getDependencyIds(ownerId: string, entity: Task | Subtask): string[] {
+  return entity.dependencies.map(dependency => resolveDependencyId(ownerId, dependency));
+}
+
+/**
+ * Every task and subtask of a project with its hierarchical ID, depth first
+ */
+export function getAllTaskNodes(project: ProjectData): { id: string; entity: Task | Subtask }[] {
+  return project.tasks.flatMap(task => [
+    { id: `${task.id}`, entity: task as Task | Subtask },
+    ...flattenSubtasks(task, `${task.id}`).map(({ id, subtask }) => ({ id, entity: subtask as Task | Subtask }))
+  ]);
+}
+
+/**
+ * Dependencies of a task or subtask that have not reached one of the given statuses,
+ * usually the project's final statuses; dependencies that no longer exist count as incomplete
+ */
+export function getIncompleteDependencies(
+  project: ProjectData,
+  ownerId: string,
+  entity: Task | Subtask,
+  completeStatuses: readonly TaskStatus[]
+): string[] {
+  return getDependencyIds(ownerId, entity).filter(depId => {
+    const node = findTaskNode(project, depId);
+    return !node || !completeStatuses.includes(node.entity.status);
+  });
+}
+
+/**
+ * Edges "cannot finish before" between all tasks and subtasks: the explicit
+ * dependencies plus every parent waiting for its subtasks
+ */
+export function buildDependencyGraph(project: ProjectData): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+  for (const { id, entity } of getAllTaskNodes(project)) {
+    graph.set(id, [
+      ...getDependencyIds(id, entity),
+      ...getSubtasks(entity).map(subtask => generateSubtaskId(id, subtask.id))
+    ]);
+  }
+  return graph;
+}
+
+/**
+ * Validate task and subtask dependencies across the whole tree: every
+ * dependency must exist and no chain may lead back to where it started
  */
 export function validateDependencies(project: ProjectData): DependencyValidationResult {
   const errors: string[] = [];
-  const circularDependencies: number[][] = [];
-  
-  // Check each task's dependencies
-  for (const task of project.tasks) {
-    for (const depId of task.dependencies) {
+  const circularDependencies: string[][] = [];
+  const graph = buildDependencyGraph(project);
+  const reportedCycles = new Set<string>();
+
+  for (const { id, entity } of getAllTaskNodes(project)) {
+    for (const depId of getDependencyIds(id, entity)) {
       // Check if dependency exists
-      const depTask = findTaskById(project, depId);
-      if (!depTask) {
-        errors.push(`Task ${task.id} depends on non-existent task ${depId}`);
-        continue;
+      if (!findTaskNode(project, depId)) {
+        errors.push(`${id.includes('.') ? 'Subtask' : 'Task'} ${id} depends on non-existent task ${depId}`);
       }
-      
-      // Check for circular dependencies using DFS
-      const visited = new Set<number>();
-      const recursionStack = new Set<number>();
-      
-      if (hasCircularDependency(project, task.id, visited, recursionStack)) {
-        const cycle = Array.from(recursionStack);
+    }
+
+    // Check for circular dependencies using DFS
+    const cycle = findCycle(graph, id);
+    if (cycle) {
+      const key = [...new Set(cycle)].sort().join(',');
+      if (!reportedCycles.has(key)) {
+        reportedCycles.add(key);
         circularDependencies.push(cycle);
         errors.push(`Circular dependency detected: ${cycle.join(' -> ')}`);
       }
@@ -125,63 +250,327 @@ export function validateDependencies(project: ProjectData): DependencyValidation
 }
 
 /**
- * Check for circular dependencies using depth-first search
+ * Find a cycle reachable from a node using depth-first search
+ */
+function findCycle(graph: Map<string, string[]>, startId: string): string[] | null {
+  const visited = new Set<string>();
+  const recursionStack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const index = recursionStack.indexOf(id);
+    if (index !== -1) {
+      return [...recursionStack.slice(index), id]; // Found a cycle
+    }
+    if (visited.has(id)) {
+      return null; // Already checked this path
+    }
+
+    visited.add(id);
+    recursionStack.push(id);
+    for (const nextId of graph.get(id) || []) {
+      const cycle = visit(nextId);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    recursionStack.pop();
+    return null;
+  };
+
+  return visit(startId);
+}
+
+/**
+ * Longest weighted chain ending at every node of an acyclic dependency graph.
+ * Returns the earliest start of each node, its predecessor on that chain and
+ * the nodes in topological order (prerequisites first).
  */
-function hasCircularDependency(
-  project: ProjectData, 
-  taskId: number, 
-  visited: Set<number>, 
-  recursionStack: Set<number>
-): boolean {
-  if (recursionStack.has(taskId)) {
-    return true; // Found a cycle
+function computeEarliestStarts(
+  graph: Map<string, string[]>,
+  weight: (id: string) => number
+): { start: Map<string, number>; previous: Map<string, string | null>; order: string[] } {
+  const start = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  const order: string[] = [];
+
+  const visit = (id: string): number => {
+    if (!start.has(id)) {
+      let earliest = 0;
+      let before: string | null = null;
+      // Dependencies on missing tasks are reported by validateDependencies, not scheduled
+      const prerequisites = (graph.get(id) || []).filter(depId => graph.has(depId)).sort(compareTaskIds);
+      for (const prerequisite of prerequisites) {
+        const finish = visit(prerequisite);
+        if (before === null || finish > earliest) {
+          earliest = finish;
+          before = prerequisite;
+        }
+      }
+      start.set(id, earliest);
+      previous.set(id, before);
+      order.push(id);
+    }
+    return start.get(id)! + weight(id);
+  };
+
+  [...graph.keys()].forEach(visit);
+  return { start, previous, order };
+}
+
+/**
+ * Longest chain by finish time, followed back through the predecessors
+ */
+function traceLongestChain(
+  graph: Map<string, string[]>,
+  start: Map<string, number>,
+  previous: Map<string, string | null>,
+  weight: (id: string) => number
+): { length: number; chain: string[] } {
+  let last: string | null = null;
+  let length = 0;
+  for (const id of graph.keys()) {
+    const finish = start.get(id)! + weight(id);
+    if (last === null || finish > length) {
+      last = id;
+      length = finish;
+    }
   }
-  
-  if (visited.has(taskId)) {
-    return false; // Already checked this path
+
+  const chain: string[] = [];
+  for (let id = last; id !== null; id = previous.get(id) ?? null) {
+    chain.unshift(id);
   }
-  
-  visited.add(taskId);
-  recursionStack.add(taskId);
-  
-  const task = findTaskById(project, taskId);
-  if (task) {
-    for (const depId of task.dependencies) {
-      if (hasCircularDependency(project, depId, visited, recursionStack)) {
-        return true;
-      }
+  return { length, chain };
+}
+
+/**
+ * Critical path method over the dependency graph used by validateDependencies.
+ * Tasks and subtasks last as long as their estimate, or one unit without one;
+ * parents without an estimate only wait for their subtasks. The remaining chain
+ * is the longest path through tasks that have not reached a final status yet.
+ * The graph must be acyclic.
+ */
+export function analyzeCriticalPath(project: ProjectData): CriticalPathResult {
+  const graph = buildDependencyGraph(project);
+  const entities = new Map(getAllTaskNodes(project).map(({ id, entity }) => [id, entity]));
+  const finalStatuses = getFinalStatuses(project);
+
+  const duration = (id: string): number => {
+    const entity = entities.get(id)!;
+    if (entity.estimate !== undefined) {
+      return entity.estimate;
     }
+    return getSubtasks(entity).length > 0 ? 0 : 1;
+  };
+  const remaining = (id: string): number =>
+    finalStatuses.includes(entities.get(id)!.status) ? 0 : duration(id);
+
+  // Forward pass
+  const { start, previous, order } = computeEarliestStarts(graph, duration);
+  const critical = traceLongestChain(graph, start, previous, duration);
+
+  // Backward pass: a task must finish before the latest start of everything that waits for it
+  const latestFinish = new Map<string, number>();
+  for (const id of graph.keys()) {
+    latestFinish.set(id, critical.length);
   }
-  
-  recursionStack.delete(taskId);
-  return false;
+  for (const id of [...order].reverse()) {
+    const latestStart = latestFinish.get(id)! - duration(id);
+    for (const prerequisite of graph.get(id)!.filter(depId => graph.has(depId))) {
+      latestFinish.set(prerequisite, Math.min(latestFinish.get(prerequisite)!, latestStart));
+    }
+  }
+
+  const tasks: ScheduledTask[] = [...graph.keys()].map(id => {
+    const entity = entities.get(id)!;
+    const earliestStart = start.get(id)!;
+    const latestStart = latestFinish.get(id)! - duration(id);
+    const slack = Math.round((latestStart - earliestStart) * 100) / 100;
+    return {
+      id,
+      title: entity.title,
+      status: entity.status,
+      duration: duration(id),
+      estimated: entity.estimate !== undefined,
+      earliestStart,
+      earliestFinish: earliestStart + duration(id),
+      latestStart,
+      latestFinish: latestFinish.get(id)!,
+      slack,
+      critical: slack === 0
+    };
+  });
+
+  const open = computeEarliestStarts(graph, remaining);
+  const remainingChain = traceLongestChain(graph, open.start, open.previous, remaining);
+
+  return {
+    duration: critical.length,
+    criticalPath: critical.chain,
+    remainingDuration: remainingChain.length,
+    remainingChain: remainingChain.chain.filter(id => !finalStatuses.includes(entities.get(id)!.status)),
+    tasks
+  };
 }
 
 /**
  * Get tasks that are ready to work on (all dependencies completed)
  */
 export function getReadyTasks(project: ProjectData): Task[] {
-  const completedTaskIds = new Set(
-    project.tasks
-      .filter(task => task.status === 'done')
-      .map(task => task.id)
-  );
-  
+  const finalStatuses = getFinalStatuses(project);
   return project.tasks.filter(task => {
-    if (task.status === 'done' || task.status === 'cancelled') {
+    if (finalStatuses.includes(task.status)) {
       return false;
     }
     
-    // Check if all dependencies are completed
-    return task.dependencies.every(depId => completedTaskIds.has(depId));
+    // Check if all dependencies are completed, wherever they are in the tree
+    return getIncompleteDependencies(project, `${task.id}`, task, finalStatuses).length === 0;
   });
 }
 
 /**
- * Get the next recommended task based on dependencies and priority
+ * Trim, lowercase and deduplicate tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0))];
+}
+
+/**
+ * Check the tags of a task or subtask against an any/all/none filter
+ */
+export function matchesTagFilter(entity: Task | Subtask, filter: TagFilter | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  const tags = new Set(entity.tags || []);
+  const any = normalizeTags(filter.any || []);
+  const all = normalizeTags(filter.all || []);
+  const none = normalizeTags(filter.none || []);
+
+  return (any.length === 0 || any.some(tag => tags.has(tag))) &&
+    all.every(tag => tags.has(tag)) &&
+    !none.some(tag => tags.has(tag));
+}
+
+/**
+ * Describe a tag filter for output, e.g. "any of security, docs; none of wontfix"
+ */
+export function describeTagFilter(filter: TagFilter | undefined): string {
+  if (!filter) {
+    return '';
+  }
+  return (['any', 'all', 'none'] as const)
+    .filter(mode => filter[mode] && filter[mode]!.length > 0)
+    .map(mode => `${mode} of ${normalizeTags(filter[mode]!).join(', ')}`)
+    .join('; ');
+}
+
+/**
+ * Agent a claim or update is made for; defaults to the calling session
+ */
+export function resolveAgentId(agent: string | undefined, sessionId: string | undefined): string {
+  return agent || sessionId || 'anonymous';
+}
+
+/**
+ * Claim on a task or subtask unless its lease has expired
+ */
+export function getActiveClaim(entity: Task | Subtask, now: Date = new Date()): TaskClaim | null {
+  if (!entity.claim || new Date(entity.claim.expiresAt).getTime() <= now.getTime()) {
+    return null;
+  }
+  return entity.claim;
+}
+
+/**
+ * Active claim of another agent on a task or subtask or on one of its ancestors,
+ * which claim their whole subtree. Without an agent every active claim counts.
+ */
+export function getForeignClaim(project: ProjectData, taskId: string, agent?: string): { id: string; claim: TaskClaim } | null {
+  const node = findTaskNode(project, taskId);
+  if (!node) {
+    return null;
+  }
+
+  const { path } = parseTaskId(taskId);
+  const chain = [...node.ancestors, node.entity];
+  for (let depth = 0; depth < chain.length; depth++) {
+    const claim = getActiveClaim(chain[depth]);
+    if (claim && claim.claimedBy !== agent) {
+      return { id: path.slice(0, depth + 1).join('.'), claim };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a due date: an ISO date ("2026-03-01") or a full ISO timestamp
+ */
+export function isValidDueDate(dueDate: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}(T.+)?$/.test(dueDate) && !isNaN(getDueTime(dueDate));
+}
+
+/**
+ * Deadline in milliseconds; a plain date is due at the end of that day (UTC)
+ */
+export function getDueTime(dueDate: string): number {
+  return new Date(dueDate.includes('T') ? dueDate : `${dueDate}T23:59:59.999Z`).getTime();
+}
+
+/**
+ * Whether an open task or subtask is overdue or due within DUE_SOON_HOURS
+ */
+export function getDueState(
+  entity: Task | Subtask,
+  now: Date = new Date(),
+  finalStatuses: readonly TaskStatus[] = FINAL_STATUSES
+): DueState | null {
+  if (!entity.dueDate || finalStatuses.includes(entity.status)) {
+    return null;
+  }
+  const remaining = getDueTime(entity.dueDate) - now.getTime();
+  if (remaining < 0) {
+    return 'overdue';
+  }
+  return remaining <= DUE_SOON_HOURS * 60 * 60 * 1000 ? 'due-soon' : null;
+}
+
+/**
+ * Short due date flag for listings, e.g. " ⏰ overdue (2026-03-01)"
+ */
+export function formatDueFlag(entity: Task | Subtask, finalStatuses?: readonly TaskStatus[]): string {
+  const state = getDueState(entity, new Date(), finalStatuses);
+  if (!state) {
+    return '';
+  }
+  return state === 'overdue' ? ` ⏰ overdue (${entity.dueDate})` : ` ⌛ due soon (${entity.dueDate})`;
+}
+
+/**
+ * Due date with its flag for detail views, e.g. "2026-03-01 ⏰ overdue"
+ */
+export function formatDueDate(entity: Task | Subtask, finalStatuses?: readonly TaskStatus[]): string {
+  const state = getDueState(entity, new Date(), finalStatuses);
+  return `${entity.dueDate}${state === 'overdue' ? ' ⏰ overdue' : state === 'due-soon' ? ' ⌛ due soon' : ''}`;
+}
+
+/**
+ * Format a number of hours, e.g. "4h" or "1.5h"
+ */
+export function formatHours(hours: number): string {
+  return `${Math.round(hours * 100) / 100}h`;
+}
+
+/**
+ * Get the next recommended task based on dependencies and priority,
+ * optionally limited to tasks matching a tag filter. Tasks claimed by
+ * other agents are skipped.
  */
-export function getNextTask(project: ProjectData): Task | null {
-  const readyTasks = getReadyTasks(project);
+export function getNextTask(project: ProjectData, tagFilter?: TagFilter, agent?: string): Task | null {
+  const readyTasks = getReadyTasks(project).filter(task =>
+    matchesTagFilter(task, tagFilter) && !getForeignClaim(project, `${task.id}`, agent)
+  );
   
   if (readyTasks.length === 0) {
     return null;
@@ -194,13 +583,29 @@ export function getNextTask(project: ProjectData): Task | null {
     return null;
   }
   
-  // Sort by priority (high > medium > low), then by ID (earlier tasks first)
+  // Sort overdue and due-soon tasks first, then by priority (high > medium > low),
+  // then by due date (earlier deadlines first) and ID (earlier tasks first)
+  const now = new Date();
+  const finalStatuses = getFinalStatuses(project);
+  const urgencyOrder = { overdue: 2, 'due-soon': 1 };
+  const urgency = (task: Task) => {
+    const state = getDueState(task, now, finalStatuses);
+    return state ? urgencyOrder[state] : 0;
+  };
+  const dueTime = (task: Task) => task.dueDate ? getDueTime(task.dueDate) : Infinity;
   availableTasks.sort((a, b) => {
+    const urgencyDiff = urgency(b) - urgency(a);
+    if (urgencyDiff !== 0) {
+      return urgencyDiff;
+    }
     const priorityOrder = { high: 3, medium: 2, low: 1 };
     const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
     if (priorityDiff !== 0) {
       return priorityDiff;
     }
+    if (dueTime(a) !== dueTime(b)) {
+      return dueTime(a) < dueTime(b) ? -1 : 1;
+    }
     return a.id - b.id;
   });
   
@@ -210,41 +615,43 @@ export function getNextTask(project: ProjectData): Task | null {
 /**
  * Format dependencies with status indicators (TaskMaster-AI style)
  */
-export function formatDependencies(project: ProjectData, dependencies: number[]): string {
+export function formatDependencies(project: ProjectData, dependencies: TaskDependency[], ownerId?: string): string {
   if (dependencies.length === 0) {
     return 'None';
   }
   
   return dependencies
-    .map(depId => {
-      const depTask = findTaskById(project, depId);
-      if (!depTask) {
+    .map(dependency => {
+      const depId = ownerId ? resolveDependencyId(ownerId, dependency) : `${dependency}`;
+      const depNode = findTaskNode(project, depId);
+      if (!depNode) {
         return `${depId} ❓`;
       }
       
-      const indicator = depTask.status === 'done' ? '✅' : 
-                       depTask.status === 'in-progress' ? '🔄' : '⏱️';
+      const indicator = getFinalStatuses(project).includes(depNode.entity.status) ? '✅' : 
+                       depNode.entity.status === 'in-progress' ? '🔄' : '⏱️';
       return `${depId} ${indicator}`;
     })
     .join(', ');
 }
 
 /**
- * Calculate completion percentage for a task with subtasks
+ * Calculate completion percentage for a task with subtasks; subtasks in one of
+ * the final statuses count as completed
  */
-export function calculateTaskProgress(task: Task): number {
+export function calculateTaskProgress(task: Task, finalStatuses: readonly TaskStatus[]): number {
   if (task.subtasks.length === 0) {
-    return task.status === 'done' ? 100 : 0;
+    return finalStatuses.includes(task.status) ? 100 : 0;
   }
   
-  const completedSubtasks = task.subtasks.filter(st => st.status === 'done').length;
+  const completedSubtasks = task.subtasks.filter(st => finalStatuses.includes(st.status)).length;
   return Math.round((completedSubtasks / task.subtasks.length) * 100);
 }
 
 /**
- * Update timestamp on task modification
+ * Update timestamp on task or subtask modification
  */
-export function touchTask(task: Task): void {
+export function touchTask(task: Task | Subtask): void {
   task.updated = new Date().toISOString();
 }
 
@@ -258,41 +665,100 @@ export function touchProject(project: ProjectData): void {
 /**
  * Validate a single task's dependencies against a list of tasks
  */
-export function validateTaskDependencies(allTasks: Task[], taskId: number, dependencies: number[]): DependencyValidationResult {
-  const errors: string[] = [];
-  const circularDependencies: number[][] = [];
-  
-  for (const depId of dependencies) {
-    // Check if dependency exists
-    const depTask = allTasks.find(t => t.id === depId);
-    if (!depTask) {
-      errors.push(`Task ${taskId} depends on non-existent task ${depId}`);
-      continue;
-    }
-    
-    // Check for circular dependencies by building a temporary project
-    const tempProject: ProjectData = {
-      name: 'temp',
-      tasks: allTasks,
-      nextId: Math.max(...allTasks.map(t => t.id)) + 1,
-      created: new Date().toISOString(),
-      updated: new Date().toISOString()
-    };
-    
-    // Check for circular dependencies
-    const visited = new Set<number>();
-    const recursionStack = new Set<number>();
-    
-    if (hasCircularDependency(tempProject, taskId, visited, recursionStack)) {
-      const cycle = Array.from(recursionStack);
-      circularDependencies.push(cycle);
-      errors.push(`Circular dependency detected: ${cycle.join(' -> ')}`);
-    }
-  }
-  
+export function validateTaskDependencies(allTasks: Task[], taskId: number, dependencies: TaskDependency[]): DependencyValidationResult {
+  // Check the dependencies within a temporary project holding all tasks
+  const tempProject: ProjectData = {
+    name: 'temp',
+    tasks: allTasks.map(task => task.id === taskId ? { ...task, dependencies } : task),
+    nextId: Math.max(...allTasks.map(t => t.id)) + 1,
+    created: new Date().toISOString(),
+    updated: new Date().toISOString()
+  };
+
+  const validation = validateDependencies(tempProject);
+  const concernsTask = (error: string) => error.startsWith(`Task ${taskId} `) || error.startsWith('Circular dependency');
+  const errors = validation.errors.filter(concernsTask);
+
   return {
     isValid: errors.length === 0,
     errors,
-    circularDependencies: circularDependencies.length > 0 ? circularDependencies : undefined
+    circularDependencies: validation.circularDependencies
   };
 }
+
+/**
+ * Describe the differences between two versions of a task or subtask
+ */
+function describeEntityChanges(label: string, before: Task | Subtask, after: Task | Subtask): string[] {
+  const changes: string[] = [];
+
+  if (before.status !== after.status) {
+    changes.push(`${label} status ${before.status} → ${after.status}`);
+  }
+  if (before.title !== after.title) {
+    changes.push(`${label} title changed to "${after.title}"`);
+  }
+  if ((before.tags || []).join(',') !== (after.tags || []).join(',')) {
+    changes.push(`${label} tags [${(before.tags || []).join(', ')}] → [${(after.tags || []).join(', ')}]`);
+  }
+  if (JSON.stringify(getNoteEntries(before)) !== JSON.stringify(getNoteEntries(after))) {
+    changes.push(`${label} notes changed`);
+  }
+  if (before.dependencies.join(',') !== after.dependencies.join(',')) {
+    changes.push(`${label} dependencies [${before.dependencies.join(', ')}] → [${after.dependencies.join(', ')}]`);
+  }
+
+  return changes;
+}
+
+/**
+ * Describe task-level differences between two versions of a project
+ */
+export function describeProjectChanges(before: ProjectData, after: ProjectData): string[] {
+  const changes: string[] = [];
+  const afterIds = new Set(after.tasks.map(task => task.id));
+
+  for (const task of before.tasks) {
+    if (!afterIds.has(task.id)) {
+      changes.push(`#${task.id} removed: ${task.title}`);
+    }
+  }
+
+  for (const task of after.tasks) {
+    const previous = findTaskById(before, task.id);
+    if (!previous) {
+      changes.push(`#${task.id} added: ${task.title}`);
+      continue;
+    }
+
+    changes.push(...describeEntityChanges(`#${task.id}`, previous, task));
+    changes.push(...describeSubtaskChanges(`${task.id}`, previous, task));
+  }
+
+  return changes;
+}
+
+/**
+ * Describe added, removed and changed subtasks below a task or subtask, recursively
+ */
+function describeSubtaskChanges(id: string, before: Task | Subtask, after: Task | Subtask): string[] {
+  const changes: string[] = [];
+  const subtaskIds = new Set(getSubtasks(after).map(st => st.id));
+
+  for (const subtask of getSubtasks(before)) {
+    if (!subtaskIds.has(subtask.id)) {
+      changes.push(`#${id}.${subtask.id} removed: ${subtask.title}`);
+    }
+  }
+  for (const subtask of getSubtasks(after)) {
+    const previousSubtask = getSubtasks(before).find(st => st.id === subtask.id);
+    if (!previousSubtask) {
+      changes.push(`#${id}.${subtask.id} added: ${subtask.title}`);
+    } else {
+      changes.push(...describeEntityChanges(`#${id}.${subtask.id}`, previousSubtask, subtask));
+      changes.push(...describeSubtaskChanges(`${id}.${subtask.id}`, previousSubtask, subtask));
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,158 @@
+/**
+ * Per-project workflows: the statuses a project's tasks can be in, which of
+ * them are final and which status changes update-task allows
+ */
+
+import { z } from 'zod';
+import { ProjectData, ProjectWorkflow, TaskStatus, VALID_STATUSES, FINAL_STATUSES } from './types.js';
+
+/**
+ * Workflow of projects without a custom one. Any status may change to any
+ * other, as before workflows existed; custom workflows restrict transitions.
+ */
+export const DEFAULT_WORKFLOW: ProjectWorkflow = {
+  statuses: [...VALID_STATUSES],
+  finalStatuses: [...FINAL_STATUSES],
+  transitions: Object.fromEntries(VALID_STATUSES.map(from => [from, VALID_STATUSES.filter(to => to !== from)]))
+};
+
+// Statuses every workflow needs: new tasks start pending, completion checks guard done
+const REQUIRED_STATUSES: TaskStatus[] = ['pending', 'done'];
+
+const statusNameSchema = z.string().regex(/^[a-z][a-z0-9-]*$/, 'Status names must be lowercase words joined by dashes, like "in-review"');
+
+export const workflowSchema = z.object({
+  statuses: z.array(statusNameSchema).min(2, 'A workflow needs at least the statuses "pending" and "done"'),
+  finalStatuses: z.array(statusNameSchema).min(1, 'A workflow needs at least one final status'),
+  transitions: z.record(z.array(statusNameSchema))
+});
+
+/**
+ * JSON schema of a workflow argument, matching workflowSchema
+ */
+export const WORKFLOW_INPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    statuses: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'All status names, must include "pending" and "done" (e.g. ["pending", "in-progress", "qa", "done", "wontfix"])'
+    },
+    finalStatuses: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Statuses that count as finished, must include "done" (e.g. ["done", "wontfix"])'
+    },
+    transitions: {
+      type: 'object',
+      additionalProperties: { type: 'array', items: { type: 'string' } },
+      description: 'Allowed target statuses per status (e.g. { "pending": ["in-progress"], "in-progress": ["qa"], "qa": ["done", "in-progress"] })'
+    }
+  },
+  required: ['statuses', 'finalStatuses', 'transitions']
+};
+
+/**
+ * Workflow a project uses
+ */
+export function getWorkflow(project: ProjectData): ProjectWorkflow {
+  return project.workflow || DEFAULT_WORKFLOW;
+}
+
+/**
+ * Statuses that count as finished in a project
+ */
+export function getFinalStatuses(project: ProjectData): readonly TaskStatus[] {
+  return getWorkflow(project).finalStatuses;
+}
+
+/**
+ * Check that a workflow is consistent; returns one message per problem
+ */
+export function validateWorkflow(workflow: ProjectWorkflow): string[] {
+  const errors: string[] = [];
+  const statuses = new Set(workflow.statuses);
+
+  if (statuses.size !== workflow.statuses.length) {
+    errors.push('Status names must be unique');
+  }
+  for (const status of REQUIRED_STATUSES) {
+    if (!statuses.has(status)) {
+      errors.push(`The workflow must contain the status "${status}"`);
+    }
+  }
+  if (!workflow.finalStatuses.includes('done')) {
+    errors.push('"done" must be a final status');
+  }
+  if (workflow.finalStatuses.includes('pending')) {
+    errors.push('"pending" cannot be a final status since new tasks start there');
+  }
+  for (const status of workflow.finalStatuses) {
+    if (!statuses.has(status)) {
+      errors.push(`Final status "${status}" is not one of the statuses`);
+    }
+  }
+  for (const [from, targets] of Object.entries(workflow.transitions)) {
+    if (!statuses.has(from)) {
+      errors.push(`Transitions are defined for unknown status "${from}"`);
+    }
+    for (const to of targets) {
+      if (!statuses.has(to)) {
+        errors.push(`Transition "${from}" → "${to}" leads to unknown status "${to}"`);
+      }
+    }
+  }
+  if (statuses.has('pending') && statuses.has('done') && !findTransitionPath(workflow, 'pending', 'done')) {
+    errors.push('There is no sequence of transitions from "pending" to "done"');
+  }
+
+  return errors;
+}
+
+/**
+ * Shortest sequence of allowed transitions between two statuses, both included
+ */
+export function findTransitionPath(workflow: ProjectWorkflow, from: TaskStatus, to: TaskStatus): TaskStatus[] | null {
+  const previous = new Map<TaskStatus, TaskStatus | null>([[from, null]]);
+  const queue: TaskStatus[] = [from];
+
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    if (status === to) {
+      const path: TaskStatus[] = [];
+      for (let step: TaskStatus | null = to; step !== null; step = previous.get(step)!) {
+        path.unshift(step);
+      }
+      return path;
+    }
+    for (const next of workflow.transitions[status] || []) {
+      if (!previous.has(next)) {
+        previous.set(next, status);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Explain why a status change is not allowed by a workflow, or null when it is
+ */
+export function checkStatusTransition(workflow: ProjectWorkflow, from: TaskStatus, to: TaskStatus): string | null {
+  if (!workflow.statuses.includes(to)) {
+    return `Unknown status "${to}". Statuses of this project: ${workflow.statuses.join(', ')}.`;
+  }
+
+  const allowed = workflow.transitions[from] || [];
+  if (allowed.includes(to)) {
+    return null;
+  }
+
+  let message = `Status "${from}" cannot change to "${to}". ` +
+    (allowed.length > 0 ? `Allowed from "${from}": ${allowed.join(', ')}.` : `"${from}" has no outgoing transitions.`);
+  const path = findTransitionPath(workflow, from, to);
+  if (path) {
+    message += ` To reach "${to}", go through ${path.join(' → ')}.`;
+  }
+  return message;
+}
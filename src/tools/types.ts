@@ -13,6 +13,7 @@ export interface ToolExecutionContext {
   workspaceRoot: string;
   progressToken?: string | number;
   sendProgress: (params: { progress: number; message?: string }) => Promise<void>;
+  sendNotification?: (notification: { method: string; params: Record<string, unknown> }) => Promise<void>;   // Unset when the client can't receive notifications
 }
 
 /**
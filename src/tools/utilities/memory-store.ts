@@ -1,6 +1,10 @@
 import { ChonkyTool, ToolExecutionContext, ToolExecutionResult } from '../types.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { randomUUID } from 'crypto';
+import { compileValueFilter, projectValue } from './value-filter.js';
+import { StorageAdapter, PersistedEntry, getStorageAdapter, getScopedNamespace, resolveStorageConfig } from './storage/index.js';
 
 // EXACT SAME interfaces from VSCode
 interface StoreEntry {
@@ -9,6 +13,9 @@ interface StoreEntry {
     created: Date;
     lastModified: Date;
     ttl?: number; // Time-to-live in milliseconds
+    version: number; // Incremented on every write, used by compare-and-set
+    size?: number; // Serialized value size in bytes, computed on first use
+    lastUse?: number; // Access sequence number of the last read or write, used for LRU eviction (not persisted)
 }
 
 interface MemoryStore {
@@ -17,9 +24,31 @@ interface MemoryStore {
         created: Date;
         lastAccess: Date;
         totalOperations: number;
+        evictedKeys?: number;
     };
 }
 
+/**
+ * What happens when a write would exceed a namespace's quota:
+ * reject it, first drop expired entries, or drop expired and then least-recently-used entries
+ */
+export type EvictionPolicy = 'reject' | 'expired' | 'lru';
+
+export const EVICTION_POLICIES: EvictionPolicy[] = ['reject', 'expired', 'lru'];
+
+export interface NamespaceQuota {
+    maxSize: number;          // Bytes of serialized values
+    maxKeys?: number;
+    eviction: EvictionPolicy;
+}
+
+interface QuotaUsage extends NamespaceQuota {
+    usedSize: number;
+    usedKeys: number;
+    usedPercent: number;
+    evictedKeys: number;
+}
+
 interface StoreInfo {
     namespace: string;
     totalKeys: number;
@@ -28,22 +57,52 @@ interface StoreInfo {
     lastAccess: Date;
     operations: number;
     expiredKeys?: number;
+    quota?: QuotaUsage;
 }
 
 interface SetOptions {
     overwrite?: boolean;
-    createPath?: boolean;
+    createPath?: boolean;   // Create missing parent paths (default: true); when false the parent must already exist
     ttl?: number;
 }
 
+interface AtomicResult {
+    value: any;      // Value after the operation
+    version: number; // Entry version after the operation (0 if the key doesn't exist)
+}
+
+interface CasExpectation {
+    value?: any;      // Expected current value (undefined: the key must not exist)
+    version?: number; // Expected current version (0: the key must not exist)
+}
+
+/**
+ * A change to a key, delivered to subscribers of a matching pattern
+ */
+export interface MemoryChangeEvent {
+    namespace: string;                          // Internal namespace the change happened in
+    key: string;                                // Changed key ("*" when the namespace was cleared)
+    operation: 'set' | 'delete' | 'clear';
+    version?: number;                           // Entry version after a set
+    timestamp: string;
+}
+
+export type MemoryChangeListener = (event: MemoryChangeEvent) => void;
+
 interface QueryOptions {
     format?: 'json' | 'table' | 'tree' | 'flat';
     includeMetadata?: boolean;
+    filter?: string;    // Value filter expression, see value-filter.ts
+    fields?: string[];  // Return only these fields of each value
 }
 
 // EXACT SAME MemoryStoreManager class from VSCode (moved before tool class)
-class MemoryStoreManager {
+export class MemoryStoreManager {
     private stores = new Map<string, MemoryStore>();
+    private storage = new Map<string, StorageAdapter>();
+    private quotas = new Map<string, NamespaceQuota>();
+    private accessCounter = 0;
+    private subscriptions = new Map<string, { namespace: string; pattern: string; listener: MemoryChangeListener }>();
     private readonly MAX_STORE_SIZE = 100 * 1024 * 1024; // 100MB per namespace
     private readonly MAX_VALUE_SIZE = 10 * 1024 * 1024;  // 10MB per value
     private cleanupInterval: NodeJS.Timeout | null = null;
@@ -65,6 +124,190 @@ class MemoryStoreManager {
         }
     }
 
+    /**
+     * Back a namespace with a storage adapter: previously saved entries are loaded
+     * when the namespace is attached and every mutation is written through afterwards
+     */
+    attachStorage(namespace: string, adapter: StorageAdapter): void {
+        const current = this.storage.get(namespace);
+        if (current === adapter) {
+            return;
+        }
+
+        // Rebinding to another adapter (e.g. workspace changed) starts from that adapter's contents
+        if (current) {
+            this.stores.delete(namespace);
+        }
+
+        const persisted = adapter.load(namespace);
+        const store = this.getOrCreateStore(namespace);
+        const unsavedKeys = Array.from(store.data.keys());
+
+        if (persisted) {
+            store.metadata.created = new Date(persisted.metadata.created);
+            store.metadata.totalOperations += persisted.metadata.totalOperations;
+
+            // Entries written in this process before attaching are newer than the stored ones
+            for (const [key, entryData] of Object.entries(persisted.data)) {
+                if (!store.data.has(key)) {
+                    store.data.set(key, this.deserializeEntry(entryData));
+                }
+            }
+        }
+
+        this.storage.set(namespace, adapter);
+
+        if (unsavedKeys.length > 0) {
+            this.writeThrough(namespace, { upserts: unsavedKeys });
+        }
+    }
+
+    getStorage(namespace: string): StorageAdapter | undefined {
+        return this.storage.get(namespace);
+    }
+
+    /**
+     * Reload a namespace when another process (e.g. the VS Code extension and an
+     * MCP server sharing a workspace) wrote to its storage since we last did.
+     * Every local mutation is written through, so the stored copy is authoritative.
+     */
+    reloadExternalChanges(namespace: string): boolean {
+        const adapter = this.storage.get(namespace);
+        if (!adapter || !adapter.hasExternalChanges(namespace)) {
+            return false;
+        }
+
+        const persisted = adapter.load(namespace);
+        const store = this.getOrCreateStore(namespace);
+        const previous = new Map(store.data);
+        store.data.clear();
+        if (persisted) {
+            store.metadata.created = new Date(persisted.metadata.created);
+            store.metadata.totalOperations = persisted.metadata.totalOperations;
+            for (const [key, entryData] of Object.entries(persisted.data)) {
+                store.data.set(key, this.deserializeEntry(entryData));
+            }
+        }
+
+        // Tell subscribers what the other process changed
+        const upserts = Array.from(store.data.entries())
+            .filter(([key, entry]) => {
+                const before = previous.get(key);
+                return !before || before.version !== entry.version || before.lastModified.getTime() !== entry.lastModified.getTime();
+            })
+            .map(([key]) => key);
+        const deletes = Array.from(previous.keys()).filter(key => !store.data.has(key));
+        this.emitChanges(namespace, { upserts, deletes });
+        return true;
+    }
+
+    /**
+     * Call a listener for every future change of a key matching the pattern.
+     * Subscription IDs are random so they can't be guessed by other sessions.
+     */
+    subscribe(namespace: string, pattern: string, listener: MemoryChangeListener): string {
+        const id = `sub-${randomUUID()}`;
+        this.subscriptions.set(id, { namespace, pattern: pattern.toLowerCase(), listener });
+        return id;
+    }
+
+    unsubscribe(id: string): boolean {
+        return this.subscriptions.delete(id);
+    }
+
+    /**
+     * Persist a mutation and notify subscribers about it. If the storage
+     * adapter fails, rollback undoes the in-memory mutation before the error
+     * is rethrown, so memory never holds what the disk does not.
+     */
+    private recordChange(namespace: string, change: { upserts?: string[]; deletes?: string[]; clear?: boolean }, rollback?: () => void): void {
+        try {
+            this.writeThrough(namespace, change);
+        } catch (error) {
+            rollback?.();
+            throw error;
+        }
+        this.emitChanges(namespace, change);
+    }
+
+    private emitChanges(namespace: string, change: { upserts?: string[]; deletes?: string[]; clear?: boolean }): void {
+        const subscribers = Array.from(this.subscriptions.values()).filter(subscription => subscription.namespace === namespace);
+        if (subscribers.length === 0) {
+            return;
+        }
+
+        const timestamp = new Date().toISOString();
+        const store = this.stores.get(namespace);
+        const events: MemoryChangeEvent[] = [
+            ...(change.clear ? [{ namespace, key: '*', operation: 'clear' as const, timestamp }] : []),
+            ...(change.deletes || []).map(key => ({ namespace, key, operation: 'delete' as const, timestamp })),
+            ...(change.upserts || []).map(key => ({ namespace, key, operation: 'set' as const, version: store?.data.get(key)?.version, timestamp }))
+        ];
+
+        for (const event of events) {
+            for (const subscription of subscribers) {
+                if (event.operation === 'clear' || this.matchPattern(event.key, subscription.pattern)) {
+                    try {
+                        subscription.listener(event);
+                    } catch (error) {
+                        console.error(`⚠️ Memory store subscriber failed:`, error);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Write changed keys of a namespace through to its storage adapter
+     */
+    private writeThrough(namespace: string, change: { upserts?: string[]; deletes?: string[]; clear?: boolean }): void {
+        const adapter = this.storage.get(namespace);
+        const store = this.stores.get(namespace);
+        if (!adapter || !store) {
+            return;
+        }
+
+        const upserts: Record<string, PersistedEntry> = {};
+        for (const key of change.upserts || []) {
+            const entry = store.data.get(key);
+            if (entry) {
+                upserts[key] = this.serializeEntry(entry);
+            }
+        }
+
+        adapter.commit(namespace, {
+            clear: change.clear,
+            upserts,
+            deletes: change.deletes,
+            metadata: {
+                created: store.metadata.created.toISOString(),
+                totalOperations: store.metadata.totalOperations
+            }
+        });
+    }
+
+    private serializeEntry(entry: StoreEntry): PersistedEntry {
+        return {
+            value: entry.value,
+            type: entry.type,
+            created: entry.created.toISOString(),
+            lastModified: entry.lastModified.toISOString(),
+            ttl: entry.ttl,
+            version: entry.version
+        };
+    }
+
+    private deserializeEntry(entryData: PersistedEntry): StoreEntry {
+        return {
+            value: entryData.value,
+            type: entryData.type || this.getValueType(entryData.value),
+            created: new Date(entryData.created),
+            lastModified: new Date(entryData.lastModified),
+            ttl: entryData.ttl,
+            version: entryData.version ?? 1
+        };
+    }
+
     private getOrCreateStore(namespace: string): MemoryStore {
         if (!this.stores.has(namespace)) {
             this.stores.set(namespace, {
@@ -105,9 +348,10 @@ class MemoryStoreManager {
         
         // Convert pattern to regex
         let regexPattern = pattern
-            .replace(/\./g, '\\.')  // Escape dots
-            .replace(/\*\*/g, '.*') // ** matches anything including dots
-            .replace(/(?<!\*)\*/g, '[^.]*'); // * matches anything except dots
+            .replace(/\./g, '\\.')         // Escape dots
+            .replace(/\*\*/g, '\u0000')    // Park ** so the single * rule below leaves it alone
+            .replace(/\*/g, '[^.]*')       // * matches anything except dots
+            .replace(/\u0000/g, '.*');     // ** matches anything including dots
         
         try {
             const regex = new RegExp(`^${regexPattern}$`);
@@ -138,13 +382,128 @@ class MemoryStoreManager {
             }
             
             expiredKeys.forEach(key => store.data.delete(key));
+
+            if (expiredKeys.length > 0) {
+                this.recordChange(namespace, { deletes: expiredKeys });
+            }
         }
     }
 
-    private validateValue(value: any): void {
-        const serialized = JSON.stringify(value);
-        if (serialized.length > this.MAX_VALUE_SIZE) {
-            throw new Error(`Value size (${serialized.length} bytes) exceeds maximum allowed size (${this.MAX_VALUE_SIZE} bytes)`);
+    private validateValue(value: any): number {
+        const size = this.getSerializedSize(value);
+        if (size > this.MAX_VALUE_SIZE) {
+            throw new Error(`Value size (${size} bytes) exceeds maximum allowed size (${this.MAX_VALUE_SIZE} bytes)`);
+        }
+        return size;
+    }
+
+    private getSerializedSize(value: any): number {
+        return (JSON.stringify(value) ?? '').length;
+    }
+
+    private getEntrySize(entry: StoreEntry): number {
+        entry.size ??= this.getSerializedSize(entry.value);
+        return entry.size;
+    }
+
+    /**
+     * Limits of a namespace; namespaces without their own quota may use up to MAX_STORE_SIZE
+     */
+    getQuota(namespace: string): NamespaceQuota {
+        return this.quotas.get(namespace) || { maxSize: this.MAX_STORE_SIZE, eviction: 'reject' };
+    }
+
+    setQuota(namespace: string, quota: Partial<NamespaceQuota>): NamespaceQuota {
+        const next = { ...this.getQuota(namespace), ...quota };
+        if (!Number.isInteger(next.maxSize) || next.maxSize <= 0 || next.maxSize > this.MAX_STORE_SIZE) {
+            throw new Error(`Quota maxSize must be a positive number of bytes up to ${this.MAX_STORE_SIZE}`);
+        }
+        if (next.maxKeys !== undefined && (!Number.isInteger(next.maxKeys) || next.maxKeys <= 0)) {
+            throw new Error('Quota maxKeys must be a positive integer');
+        }
+        if (!EVICTION_POLICIES.includes(next.eviction)) {
+            throw new Error(`Invalid eviction policy "${next.eviction}". Expected one of: ${EVICTION_POLICIES.join(', ')}`);
+        }
+        this.quotas.set(namespace, next);
+        return next;
+    }
+
+    /**
+     * Current usage of a namespace against its quota; expired entries count until they are removed
+     */
+    getQuotaUsage(namespace: string): QuotaUsage {
+        const quota = this.getQuota(namespace);
+        const store = this.stores.get(namespace);
+        let usedSize = 0;
+        store?.data.forEach(entry => usedSize += this.getEntrySize(entry));
+        return {
+            ...quota,
+            usedSize,
+            usedKeys: store?.data.size ?? 0,
+            usedPercent: Math.round((usedSize / quota.maxSize) * 1000) / 10,
+            evictedKeys: store?.metadata.evictedKeys ?? 0
+        };
+    }
+
+    /**
+     * Make room for writing entries of the given sizes, evicting other entries
+     * if the namespace's policy allows it, or reject the write. Entries are only
+     * evicted once the write is known to fit; a rejected write changes nothing.
+     */
+    private ensureCapacity(namespace: string, store: MemoryStore, writes: Map<string, number>): void {
+        const quota = this.getQuota(namespace);
+        let usedSize = 0;
+        let usedKeys = 0;
+        store.data.forEach((entry, key) => {
+            if (!writes.has(key)) {
+                usedSize += this.getEntrySize(entry);
+                usedKeys++;
+            }
+        });
+        writes.forEach(size => usedSize += size);
+        usedKeys += writes.size;
+
+        const fits = () => usedSize <= quota.maxSize && (quota.maxKeys === undefined || usedKeys <= quota.maxKeys);
+        if (fits()) {
+            return;
+        }
+
+        const evicted = new Map<string, StoreEntry>();
+        const evict = (key: string, entry: StoreEntry) => {
+            usedSize -= this.getEntrySize(entry);
+            usedKeys--;
+            evicted.set(key, entry);
+        };
+
+        if (quota.eviction !== 'reject') {
+            const candidates = Array.from(store.data.entries()).filter(([key]) => !writes.has(key));
+            candidates.filter(([, entry]) => this.isExpired(entry)).forEach(([key, entry]) => evict(key, entry));
+
+            if (quota.eviction === 'lru') {
+                const byLastUse = candidates
+                    .filter(([key]) => !evicted.has(key))
+                    .sort(([, a], [, b]) => (a.lastUse ?? 0) - (b.lastUse ?? 0) || a.lastModified.getTime() - b.lastModified.getTime());
+                for (const [key, entry] of byLastUse) {
+                    if (fits()) {
+                        break;
+                    }
+                    evict(key, entry);
+                }
+            }
+        }
+
+        if (!fits()) {
+            const limits = `${quota.maxSize} bytes${quota.maxKeys !== undefined ? ` / ${quota.maxKeys} keys` : ''}`;
+            throw new Error(
+                `Namespace quota exceeded: the write needs ${usedSize} bytes in ${usedKeys} keys but the limit is ${limits} ` +
+                `(eviction policy "${quota.eviction}"). Delete keys, set a ttl or change the quota.`
+            );
+        }
+
+        if (evicted.size > 0) {
+            evicted.forEach((_entry, key) => store.data.delete(key));
+            this.recordChange(namespace, { deletes: Array.from(evicted.keys()) }, () => evicted.forEach((entry, key) => store.data.set(key, entry)));
+            store.metadata.evictedKeys = (store.metadata.evictedKeys ?? 0) + evicted.size;
         }
     }
 
@@ -158,7 +517,13 @@ class MemoryStoreManager {
         return typeof value;
     }
 
-    set(namespace: string, key: string, value: any, options: SetOptions = {}): void {
+    /**
+     * Dotted keys form a hierarchy whose intermediate nodes are implicit: a path
+     * exists as soon as it holds a value or any key below it does. Values may
+     * only have nested keys below them if they are objects, which are then
+     * merged with their children when the path is read.
+     */
+    set(namespace: string, key: string, value: any, options: SetOptions = {}): number {
         const store = this.getOrCreateStore(namespace);
         const normalizedKey = this.normalizeKey(key);
         
@@ -167,25 +532,173 @@ class MemoryStoreManager {
         }
 
         // Validate value size
-        this.validateValue(value);
+        const size = this.validateValue(value);
 
         // Check if key exists and overwrite is disabled
         if (!options.overwrite && store.data.has(normalizedKey)) {
             throw new Error(`Key '${normalizedKey}' already exists and overwrite is disabled`);
         }
 
-        // Create entry
+        this.validatePath(store, normalizedKey, value, options.createPath !== false);
+
+        return this.writeEntry(namespace, store, normalizedKey, value, size, { ttl: options.ttl });
+    }
+
+    /**
+     * Store a value as the next version of an entry and write it through;
+     * size is the serialized size returned by validateValue
+     */
+    private writeEntry(namespace: string, store: MemoryStore, key: string, value: any, size: number, lifetime: { ttl?: number; created?: Date }): number {
+        const previous = this.getLiveEntry(store, key);
+        this.ensureCapacity(namespace, store, new Map([[key, size]]));
+
+        const now = new Date();
         const entry: StoreEntry = {
             value: value,
             type: this.getValueType(value),
-            created: new Date(),
-            lastModified: new Date(),
-            ttl: options.ttl
+            created: lifetime.created || now,
+            lastModified: now,
+            ttl: lifetime.ttl,
+            version: (previous?.version ?? 0) + 1,
+            size,
+            lastUse: ++this.accessCounter
         };
 
-        store.data.set(normalizedKey, entry);
+        store.data.set(key, entry);
+        this.recordChange(namespace, { upserts: [key] }, () => {
+            if (previous) {
+                store.data.set(key, previous);
+            } else {
+                store.data.delete(key);
+            }
+        });
+        return entry.version;
     }
 
+    /**
+     * Read-modify-write of a single entry without yielding to other callers.
+     * Updates keep the entry's creation time and TTL unless a new ttl is given.
+     */
+    private update(namespace: string, key: string, options: SetOptions, compute: (current: StoreEntry | undefined, key: string) => any): AtomicResult {
+        const store = this.getOrCreateStore(namespace);
+        const normalizedKey = this.normalizeKey(key);
+        if (!normalizedKey) {
+            throw new Error('Invalid key format');
+        }
+
+        const current = this.getLiveEntry(store, normalizedKey);
+        const value = compute(current, normalizedKey);
+        const size = this.validateValue(value);
+        this.validatePath(store, normalizedKey, value, options.createPath !== false);
+
+        const version = this.writeEntry(namespace, store, normalizedKey, value, size, {
+            ttl: options.ttl ?? current?.ttl,
+            created: current?.created
+        });
+        return { value, version };
+    }
+
+    /**
+     * Compare-and-set: replace the value only if the current value and/or version
+     * match the expectation. A missing key has version 0 and value undefined.
+     */
+    cas(namespace: string, key: string, value: any, expected: CasExpectation, options: SetOptions = {}): AtomicResult & { swapped: boolean } {
+        if (!('value' in expected) && expected.version === undefined) {
+            throw new Error('Compare-and-set requires an expected value or version');
+        }
+
+        const store = this.getOrCreateStore(namespace);
+        const current = this.getLiveEntry(store, this.normalizeKey(key));
+        const currentVersion = current?.version ?? 0;
+        const matches = (expected.version === undefined || expected.version === currentVersion)
+            && (!('value' in expected) || isDeepStrictEqual(current?.value, expected.value));
+
+        if (!matches) {
+            return { swapped: false, value: current?.value, version: currentVersion };
+        }
+        return { swapped: true, ...this.update(namespace, key, options, () => value) };
+    }
+
+    /**
+     * Add a number to a numeric value; a missing key starts at 0
+     */
+    incr(namespace: string, key: string, by: number = 1, options: SetOptions = {}): AtomicResult {
+        if (typeof by !== 'number' || !Number.isFinite(by)) {
+            throw new Error('Increment must be a finite number');
+        }
+        return this.update(namespace, key, options, (current, normalizedKey) => {
+            if (current && typeof current.value !== 'number') {
+                throw new Error(`Cannot increment '${normalizedKey}': it holds ${this.describeType(current.type)} value`);
+            }
+            return (current?.value ?? 0) + by;
+        });
+    }
+
+    /**
+     * Append one item to an array value; a missing key starts as an empty array
+     */
+    append(namespace: string, key: string, item: any, options: SetOptions = {}): AtomicResult {
+        return this.update(namespace, key, options, (current, normalizedKey) => {
+            if (current && !Array.isArray(current.value)) {
+                throw new Error(`Cannot append to '${normalizedKey}': it holds ${this.describeType(current.type)} value`);
+            }
+            return [...(current?.value ?? []), structuredClone(item)];
+        });
+    }
+
+    /**
+     * Deep-merge an object into an object value; nested objects are merged,
+     * everything else (including arrays) is replaced
+     */
+    merge(namespace: string, key: string, patch: any, options: SetOptions = {}): AtomicResult {
+        if (!this.isPlainObject(patch)) {
+            throw new Error('Merge requires an object value');
+        }
+        return this.update(namespace, key, options, (current, normalizedKey) => {
+            if (current && !this.isPlainObject(current.value)) {
+                throw new Error(`Cannot merge into '${normalizedKey}': it holds ${this.describeType(current.type)} value`);
+            }
+            return this.deepMerge(structuredClone(current?.value ?? {}), patch);
+        });
+    }
+
+    private deepMerge(target: any, patch: any): any {
+        for (const [field, value] of Object.entries(patch)) {
+            target[field] = this.isPlainObject(target[field]) && this.isPlainObject(value)
+                ? this.deepMerge(target[field], value)
+                : structuredClone(value);
+        }
+        return target;
+    }
+
+    /**
+     * Reject writes that would hang keys below a non-object value, or below a
+     * parent path that doesn't exist while createPath is disabled
+     */
+    private validatePath(store: MemoryStore, key: string, value: any, createPath: boolean): void {
+        const segments = key.split('.');
+        for (let depth = 1; depth < segments.length; depth++) {
+            const ancestor = segments.slice(0, depth).join('.');
+            const entry = this.getLiveEntry(store, ancestor);
+            if (entry && !this.isPlainObject(entry.value)) {
+                throw new Error(`Cannot create '${key}': '${ancestor}' holds ${this.describeType(entry.type)} value`);
+            }
+        }
+
+        const parent = segments.slice(0, -1).join('.');
+        if (!createPath && parent && !this.pathExists(store, parent)) {
+            throw new Error(`Parent path '${parent}' does not exist and createPath is disabled`);
+        }
+
+        if (!this.isPlainObject(value) && this.getDescendantKeys(store, key).length > 0) {
+            throw new Error(`Key '${key}' has nested keys; store an object or delete the subtree first`);
+        }
+    }
+
+    /**
+     * Get a value by key; a parent path of other keys returns its children
+     * assembled into an object
+     */
     get(namespace: string, key: string): any {
         const store = this.stores.get(namespace);
         if (!store) {
@@ -193,70 +706,227 @@ class MemoryStoreManager {
         }
 
         const normalizedKey = this.normalizeKey(key);
-        const entry = store.data.get(normalizedKey);
-        
-        if (!entry) {
-            return undefined;
+        const entry = this.getLiveEntry(store, normalizedKey);
+
+        if (entry) {
+            entry.lastUse = ++this.accessCounter;
         }
 
-        if (this.isExpired(entry)) {
-            store.data.delete(normalizedKey);
-            return undefined;
+        // Only objects can have children, so other values are returned without scanning the store
+        if (entry && !this.isPlainObject(entry.value)) {
+            return entry.value;
+        }
+
+        const descendants = this.getDescendantKeys(store, normalizedKey);
+        if (descendants.length === 0) {
+            return entry?.value;
         }
 
-        return entry.value;
+        const assembled = entry ? structuredClone(entry.value) : {};
+        descendants
+            .sort((a, b) => a.split('.').length - b.split('.').length)
+            .forEach(descendant => {
+                const segments = descendant.slice(normalizedKey.length + 1).split('.');
+                let node = assembled;
+                segments.slice(0, -1).forEach(segment => {
+                    if (!this.isPlainObject(node[segment])) {
+                        node[segment] = {};
+                    }
+                    node = node[segment];
+                });
+                const child = store.data.get(descendant)!;
+                child.lastUse = ++this.accessCounter;
+                node[segments[segments.length - 1]] = structuredClone(child.value);
+            });
+        return assembled;
     }
 
+    /**
+     * Delete a key together with every key below it
+     */
     delete(namespace: string, key: string): boolean {
+        return this.deletePath(namespace, key).length > 0;
+    }
+
+    /**
+     * Delete a key and its subtree, returning the keys that were removed
+     */
+    deletePath(namespace: string, key: string): string[] {
         const store = this.stores.get(namespace);
         if (!store) {
-            return false;
+            return [];
         }
 
         const normalizedKey = this.normalizeKey(key);
-        return store.data.delete(normalizedKey);
+        const removed = new Map<string, StoreEntry>();
+        for (const candidate of [normalizedKey, ...this.getDescendantKeys(store, normalizedKey)]) {
+            const entry = store.data.get(candidate);
+            if (entry) {
+                removed.set(candidate, entry);
+                store.data.delete(candidate);
+            }
+        }
+        const deleted = Array.from(removed.keys());
+        if (deleted.length > 0) {
+            this.recordChange(namespace, { deletes: deleted }, () => removed.forEach((entry, candidate) => store.data.set(candidate, entry)));
+        }
+        return deleted;
     }
 
-    query(namespace: string, pattern: string, options: QueryOptions = {}): any {
-        const store = this.stores.get(namespace);
-        if (!store) {
-            return { results: {}, count: 0 };
+    private getLiveEntry(store: MemoryStore, key: string): StoreEntry | undefined {
+        const entry = store.data.get(key);
+        if (entry && this.isExpired(entry)) {
+            store.data.delete(key);
+            return undefined;
         }
+        return entry;
+    }
 
-        const results: any = {};
-        let count = 0;
+    /**
+     * Unexpired keys nested below a path
+     */
+    private getDescendantKeys(store: MemoryStore, path: string): string[] {
+        const prefix = `${path}.`;
+        return Array.from(store.data.keys())
+            .filter(key => key.startsWith(prefix) && this.getLiveEntry(store, key));
+    }
 
-        const dataEntries = Array.from(store.data.entries());
+    private pathExists(store: MemoryStore, path: string): boolean {
+        return this.getLiveEntry(store, path) !== undefined || this.getDescendantKeys(store, path).length > 0;
+    }
+
+    private describeType(type: string): string {
+        return `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+    }
+
+    private isPlainObject(value: any): boolean {
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    query(namespace: string, pattern: string, options: QueryOptions = {}): any {
+        const store = this.stores.get(namespace);
+        const matches: Array<[string, StoreEntry]> = [];
+        const filter = options.filter ? compileValueFilter(options.filter) : undefined;
+
+        const dataEntries = store ? Array.from(store.data.entries()) : [];
         for (const [key, entry] of dataEntries) {
             if (this.isExpired(entry)) {
-                store.data.delete(key);
+                store!.data.delete(key);
                 continue;
             }
 
-            if (this.matchPattern(key, pattern)) {
-                if (options.includeMetadata) {
-                    results[key] = {
-                        value: entry.value,
-                        type: entry.type,
-                        created: entry.created,
-                        lastModified: entry.lastModified,
-                        ttl: entry.ttl
-                    };
-                } else {
-                    results[key] = entry.value;
-                }
-                count++;
+            if (this.matchPattern(key, pattern) && (!filter || filter(entry.value))) {
+                entry.lastUse = ++this.accessCounter;
+                matches.push([key, entry]);
+            }
+        }
+
+        // Projection replaces each value by the selected fields; the table keeps describing the stored entries
+        const projected: Array<[string, StoreEntry]> = options.fields && options.fields.length > 0
+            ? matches.map(([key, entry]) => [key, { ...entry, value: projectValue(entry.value, options.fields!) }])
+            : matches;
+
+        // Text renderers for browsing; json keeps the structured result other tools parse
+        if (options.format && options.format !== 'json') {
+            if (matches.length === 0) {
+                return `No keys match pattern "${pattern}"${options.filter ? ` and filter ${options.filter}` : ''}`;
+            }
+            matches.sort(([a], [b]) => a.localeCompare(b));
+            projected.sort(([a], [b]) => a.localeCompare(b));
+            switch (options.format) {
+                case 'table':
+                    return this.renderTable(matches);
+                case 'tree':
+                    return this.renderTree(projected);
+                case 'flat':
+                    return projected.map(([key, entry]) => `${key}=${JSON.stringify(entry.value)}`).join('\n');
+            }
+        }
+
+        if (!store) {
+            return { results: {}, count: 0 };
+        }
+
+        const results: any = {};
+        for (const [key, entry] of projected) {
+            if (options.includeMetadata) {
+                results[key] = {
+                    value: entry.value,
+                    type: entry.type,
+                    created: entry.created,
+                    lastModified: entry.lastModified,
+                    ttl: entry.ttl,
+                    version: entry.version
+                };
+            } else {
+                results[key] = entry.value;
             }
         }
 
         return {
             results,
-            count,
+            count: matches.length,
             pattern,
             namespace
         };
     }
 
+    /**
+     * Key, type, serialized size and last modification of each entry
+     */
+    private renderTable(matches: Array<[string, StoreEntry]>): string {
+        const rows = matches.map(([key, entry]) =>
+            `| ${key} | ${entry.type} | ${JSON.stringify(entry.value).length} | ${entry.lastModified.toISOString()} |`
+        );
+        return [
+            '| Key | Type | Size (bytes) | Modified |',
+            '|-----|------|--------------|----------|',
+            ...rows
+        ].join('\n');
+    }
+
+    /**
+     * Nest dotted keys into a hierarchy, showing a shortened value on every node that holds one
+     */
+    private renderTree(matches: Array<[string, StoreEntry]>): string {
+        interface TreeNode {
+            entry?: StoreEntry;
+            children: Map<string, TreeNode>;
+        }
+
+        const root: TreeNode = { children: new Map() };
+        for (const [key, entry] of matches) {
+            let node = root;
+            for (const segment of key.split('.')) {
+                if (!node.children.has(segment)) {
+                    node.children.set(segment, { children: new Map() });
+                }
+                node = node.children.get(segment)!;
+            }
+            node.entry = entry;
+        }
+
+        const lines: string[] = [];
+        const renderChildren = (node: TreeNode, indent: string, isRoot: boolean) => {
+            const children = Array.from(node.children.entries());
+            children.forEach(([segment, child], index) => {
+                const last = index === children.length - 1;
+                const branch = isRoot ? '' : (last ? '└── ' : '├── ');
+                const value = child.entry ? ` = ${this.shortenValue(child.entry.value)}` : '';
+                lines.push(`${indent}${branch}${segment}${value}`);
+                renderChildren(child, isRoot ? '' : indent + (last ? '    ' : '│   '), false);
+            });
+        };
+        renderChildren(root, '', true);
+
+        return lines.join('\n');
+    }
+
+    private shortenValue(value: any, maxLength = 60): string {
+        const serialized = JSON.stringify(value);
+        return serialized.length > maxLength ? `${serialized.slice(0, maxLength - 1)}…` : serialized;
+    }
+
     list(namespace: string, options: QueryOptions = {}): any {
         return this.query(namespace, '*', options);
     }
@@ -264,7 +934,11 @@ class MemoryStoreManager {
     clear(namespace: string): void {
         const store = this.stores.get(namespace);
         if (store) {
+            const previous = new Map(store.data);
             store.data.clear();
+            this.recordChange(namespace, { clear: true }, () => {
+                store.data = previous;
+            });
         }
     }
 
@@ -277,7 +951,8 @@ class MemoryStoreManager {
                 totalSize: 0,
                 created: new Date(),
                 lastAccess: new Date(),
-                operations: 0
+                operations: 0,
+                quota: this.getQuotaUsage(namespace)
             };
         }
 
@@ -289,7 +964,7 @@ class MemoryStoreManager {
             if (this.isExpired(entry)) {
                 expiredKeys++;
             } else {
-                totalSize += JSON.stringify(entry.value).length;
+                totalSize += this.getEntrySize(entry);
             }
         }
 
@@ -300,7 +975,8 @@ class MemoryStoreManager {
             created: store.metadata.created,
             lastAccess: store.metadata.lastAccess,
             operations: store.metadata.totalOperations,
-            expiredKeys
+            expiredKeys,
+            quota: this.getQuotaUsage(namespace)
         };
     }
 
@@ -319,7 +995,8 @@ class MemoryStoreManager {
                     type: entry.type,
                     created: entry.created,
                     lastModified: entry.lastModified,
-                    ttl: entry.ttl
+                    ttl: entry.ttl,
+                    version: entry.version
                 };
             }
         }
@@ -335,21 +1012,89 @@ class MemoryStoreManager {
         const store = this.getOrCreateStore(namespace);
         
         if (importData.data) {
+            const entries = new Map<string, StoreEntry>();
             for (const [key, entryData] of Object.entries(importData.data)) {
                 const entry: StoreEntry = {
                     value: (entryData as any).value,
                     type: (entryData as any).type || this.getValueType((entryData as any).value),
                     created: new Date((entryData as any).created),
                     lastModified: new Date((entryData as any).lastModified),
-                    ttl: (entryData as any).ttl
+                    ttl: (entryData as any).ttl,
+                    version: (entryData as any).version ?? 1
                 };
-                
-                store.data.set(key, entry);
+                entry.size = this.validateValue(entry.value);
+                entries.set(key, entry);
             }
+
+            this.ensureCapacity(namespace, store, new Map(Array.from(entries, ([key, entry]) => [key, entry.size!])));
+            const previous = new Map(Array.from(entries.keys(), key => [key, store.data.get(key)]));
+            entries.forEach((entry, key) => store.data.set(key, entry));
+
+            this.recordChange(namespace, { upserts: Object.keys(importData.data) }, () => previous.forEach((entry, key) => {
+                if (entry) {
+                    store.data.set(key, entry);
+                } else {
+                    store.data.delete(key);
+                }
+            }));
         }
     }
 }
 
+/**
+ * Namespaces whose contents are written through to disk and reloaded after a restart
+ */
+const PERSISTENT_NAMESPACES = ['chonky-task-manager'];
+
+/**
+ * Namespaces owned by other tools: agents may read them through the registered
+ * memory store tool, but only the owning tools may change them
+ */
+export const RESERVED_NAMESPACES = ['chonky-task-manager'];
+
+const READ_ONLY_OPERATIONS = ['get', 'query', 'list', 'info', 'export', 'dump', 'subscribe', 'unsubscribe', 'changes'];
+
+/**
+ * MCP notification sent for every change matching a subscription
+ */
+export const MEMORY_CHANGE_NOTIFICATION = 'notifications/chonky/memory_changed';
+
+const MAX_PENDING_CHANGES = 100;
+
+interface ChangeNotification {
+  subscriptionId: string;
+  namespace: string;          // Namespace as given by the subscriber
+  key: string;
+  operation: MemoryChangeEvent['operation'];
+  version?: number;
+  timestamp: string;
+}
+
+interface ToolSubscription {
+  sessionId: string;                // Only the subscribing session can poll or end the subscription
+  namespace: string;
+  pattern: string;
+  pending: ChangeNotification[];    // Changes waiting to be polled by clients that can't receive notifications
+  dropped: number;                  // Changes discarded because nobody polled them in time
+}
+
+export interface MemoryStoreToolOptions {
+  protectReservedNamespaces?: boolean;   // Reject writes to reserved namespaces (set for the registered tool)
+}
+
+/**
+ * Internal namespace used for a caller: ordinary namespaces are isolated per
+ * session, persistent ones are shared according to the configured storage scope
+ */
+export function getIsolatedNamespace(context: ToolExecutionContext, namespace: string): string {
+  const sessionId = context.sessionId || 'anonymous';
+  if (!PERSISTENT_NAMESPACES.includes(namespace)) {
+    return `${sessionId}.${namespace}`;
+  }
+  const workspaceRoot = context.workspaceRoot || process.cwd();
+  return getScopedNamespace(resolveStorageConfig(workspaceRoot).scope, namespace, sessionId, workspaceRoot);
+}
+
 /**
  * MIGRATED from VSCode extension: /src/features/copilot/tools/utilities/memory-store.ts
  * Uses EXACT SAME business logic from VSCode tool, only interface changed for MCP compatibility
@@ -358,15 +1103,18 @@ class MemoryStoreManager {
  */
 export class MemoryStoreTool extends ChonkyTool {
   readonly name = 'chonky-memory-store';
-  readonly description = 'In-memory key-value store with dotted notation and wildcard queries for audit data persistence. Features automatic session isolation to prevent cross-session data access.';
+  readonly description = 'Key-value scratch memory next to your tasks. Keys use dotted notation (e.g. "audit.findings.high") and every namespace is isolated per session. ' +
+    'Operations: set (optional ttl in seconds), get, delete, query (wildcards, e.g. "audit.findings.*"), list, clear, info, export, import, dump (write the namespace to a JSON file). ' +
+    'The "chonky-task-manager" namespace holds task manager projects and is read-only here.';
   readonly category = 'Utilities' as const;
   readonly inputSchema = {
     type: 'object',
     properties: {
       operation: {
         type: 'string',
-        enum: ['set', 'get', 'delete', 'query', 'list', 'clear', 'info', 'export', 'import', 'dump'],
-        description: 'Operation to perform'
+        enum: ['set', 'get', 'delete', 'query', 'list', 'clear', 'info', 'export', 'import', 'dump', 'cas', 'incr', 'append', 'merge', 'quota', 'subscribe', 'unsubscribe', 'changes'],
+        description: 'Operation to perform. Atomic updates: cas (replace if expected/expectedVersion match), incr (add value, default 1), append (add value to an array), merge (deep-merge an object). quota: set the namespace limits from options.maxSize/maxKeys/eviction and show usage. ' +
+          'subscribe: get notified about changes of keys matching pattern (e.g. "tasks.projects.*" in "chonky-task-manager"), changes: poll the changes of a subscription when the client receives no notifications, unsubscribe: stop a subscription'
       },
       namespace: {
         type: 'string',
@@ -375,10 +1123,21 @@ export class MemoryStoreTool extends ChonkyTool {
       },
       key: {
         type: 'string',
-        description: 'Key in dotted notation (e.g., "audit.findings.high", "contracts.main")'
+        description: 'Key in dotted notation (e.g., "audit.findings.high", "contracts.main"). get on a parent path returns its nested keys as an object, delete on a parent path removes the whole subtree'
       },
       value: {
-        description: 'Value to store (any JSON-serializable data)'
+        description: 'Value to store (any JSON-serializable data); the amount for incr, the item for append, the object for merge'
+      },
+      expected: {
+        description: 'For cas: the value the key must currently hold; use expectedVersion 0 to require that the key does not exist yet'
+      },
+      subscriptionId: {
+        type: 'string',
+        description: 'Subscription returned by subscribe, for changes and unsubscribe'
+      },
+      expectedVersion: {
+        type: 'number',
+        description: 'For cas: the version the key must currently have (0 if it must not exist); versions are returned by set and the atomic operations'
       },
       pattern: {
         type: 'string',
@@ -403,18 +1162,40 @@ export class MemoryStoreTool extends ChonkyTool {
           createPath: {
             type: 'boolean',
             default: true,
-            description: 'Create intermediate path keys if they do not exist'
+            description: 'Create missing parent paths; when false, set fails unless the parent path already holds a value or other keys'
           },
           format: {
             type: 'string',
             enum: ['json', 'table', 'tree', 'flat'],
             default: 'json',
-            description: 'Output format for results'
+            description: 'Output format for query and list: json (structured results), table (key, type, size, modified), tree (dotted keys nested as a hierarchy), flat (key=value lines)'
           },
           includeMetadata: {
             type: 'boolean',
             default: false,
             description: 'Include metadata in query results'
+          },
+          filter: {
+            type: 'string',
+            description: 'For query/list: only return entries whose value matches, e.g. \'$.severity == "high" && $.score >= 7\', \'$.tags[*] == "security"\', \'$.title =~ /overflow/i\', \'$.status in ["pending", "in-progress"]\''
+          },
+          fields: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'For query/list: return only these fields of each value, e.g. ["title", "location.file", "$.tags[*]"]'
+          },
+          maxSize: {
+            type: 'number',
+            description: 'For quota: maximum total size of the namespace values in bytes (up to 100MB)'
+          },
+          maxKeys: {
+            type: 'number',
+            description: 'For quota: maximum number of keys in the namespace'
+          },
+          eviction: {
+            type: 'string',
+            enum: ['reject', 'expired', 'lru'],
+            description: 'For quota: when a write exceeds the quota, reject it, evict expired entries first, or evict expired and then least-recently-used entries'
           }
         }
       }
@@ -424,6 +1205,27 @@ export class MemoryStoreTool extends ChonkyTool {
 
   // EXACT SAME manager instance from VSCode
   private static manager = new MemoryStoreManager();
+  private static subscriptions = new Map<string, ToolSubscription>();
+
+  constructor(private readonly options: MemoryStoreToolOptions = {}) {
+    super();
+  }
+
+  /**
+   * End every subscription of a session, once its client has disconnected and
+   * can't receive or poll its changes any more. Returns how many were ended.
+   */
+  static unsubscribeSession(sessionId: string): number {
+    let removed = 0;
+    for (const [subscriptionId, subscription] of MemoryStoreTool.subscriptions) {
+      if (subscription.sessionId === sessionId) {
+        MemoryStoreTool.subscriptions.delete(subscriptionId);
+        MemoryStoreTool.manager.unsubscribe(subscriptionId);
+        removed++;
+      }
+    }
+    return removed;
+  }
 
   async execute(context: ToolExecutionContext): Promise<ToolExecutionResult> {
     try {
@@ -438,10 +1240,28 @@ export class MemoryStoreTool extends ChonkyTool {
       } = context.arguments;
 
       const manager = MemoryStoreTool.manager;
+
+      // GUARDRAILS: Agents must not clobber namespaces owned by other tools
+      if (this.options.protectReservedNamespaces) {
+        const violation = this.checkNamespaceAccess(namespace, operation);
+        if (violation) {
+          return this.error(violation);
+        }
+      }
       
-      // SESSION ISOLATION: Prefix namespace with sessionId to prevent cross-session data access
-      const sessionId = context.sessionId || 'anonymous';
-      const isolatedNamespace = `${sessionId}.${namespace}`;
+      // SESSION ISOLATION: Ordinary namespaces are prefixed with the sessionId to prevent cross-session data access
+      const isolatedNamespace = getIsolatedNamespace(context, namespace);
+      let storageScope: string | undefined;
+
+      // PERSISTENCE: Reserved namespaces survive restarts via the workspace's configured storage backend
+      // and are shared between sessions according to the configured scope
+      if (PERSISTENT_NAMESPACES.includes(namespace)) {
+        const workspaceRoot = context.workspaceRoot || process.cwd();
+        const storageConfig = resolveStorageConfig(workspaceRoot);
+        storageScope = storageConfig.scope;
+        manager.attachStorage(isolatedNamespace, getStorageAdapter(workspaceRoot, storageConfig));
+        manager.reloadExternalChanges(isolatedNamespace);
+      }
       
       let result: any;
 
@@ -456,10 +1276,43 @@ export class MemoryStoreTool extends ChonkyTool {
             createPath: options.createPath !== false,
             ttl: ttl ? ttl * 1000 : undefined // Convert seconds to milliseconds
           };
-          manager.set(isolatedNamespace, key, value, setOptions);
-          result = { success: true, key, namespace };
+          const version = manager.set(isolatedNamespace, key, value, setOptions);
+          result = { success: true, key, namespace, version };
           break;
 
+        case 'cas':
+        case 'incr':
+        case 'append':
+        case 'merge': {
+          if (!key) {
+            return this.error(`Key is required for ${operation} operation`);
+          }
+          const updateOptions: SetOptions = {
+            createPath: options.createPath !== false,
+            ttl: ttl ? ttl * 1000 : undefined
+          };
+
+          if (operation === 'cas') {
+            const expectation: { value?: any; version?: number } = {};
+            if ('expected' in context.arguments) {
+              expectation.value = context.arguments.expected;
+            }
+            if (context.arguments.expectedVersion !== undefined) {
+              expectation.version = context.arguments.expectedVersion;
+            }
+            const swap = manager.cas(isolatedNamespace, key, value, expectation, updateOptions);
+            result = { success: swap.swapped, key, namespace, ...swap };
+          } else {
+            const updated = operation === 'incr'
+              ? manager.incr(isolatedNamespace, key, value ?? 1, updateOptions)
+              : operation === 'append'
+                ? manager.append(isolatedNamespace, key, value, updateOptions)
+                : manager.merge(isolatedNamespace, key, value, updateOptions);
+            result = { success: true, key, namespace, ...updated };
+          }
+          break;
+        }
+
         case 'get':
           if (!key) {
             return this.error('Key is required for get operation');
@@ -471,8 +1324,8 @@ export class MemoryStoreTool extends ChonkyTool {
           if (!key) {
             return this.error('Key is required for delete operation');
           }
-          const deleted = manager.delete(isolatedNamespace, key);
-          result = { success: deleted, key, namespace };
+          const deletedKeys = manager.deletePath(isolatedNamespace, key);
+          result = { success: deletedKeys.length > 0, key, namespace, deletedKeys };
           break;
 
         case 'query':
@@ -481,7 +1334,9 @@ export class MemoryStoreTool extends ChonkyTool {
           }
           const queryOptions: QueryOptions = {
             format: options.format || 'json',
-            includeMetadata: options.includeMetadata || false
+            includeMetadata: options.includeMetadata || false,
+            filter: options.filter,
+            fields: options.fields
           };
           result = manager.query(isolatedNamespace, pattern, queryOptions);
           break;
@@ -489,7 +1344,9 @@ export class MemoryStoreTool extends ChonkyTool {
         case 'list':
           const listOptions: QueryOptions = {
             format: options.format || 'json',
-            includeMetadata: options.includeMetadata || false
+            includeMetadata: options.includeMetadata || false,
+            filter: options.filter,
+            fields: options.fields
           };
           result = manager.list(isolatedNamespace, listOptions);
           break;
@@ -503,6 +1360,64 @@ export class MemoryStoreTool extends ChonkyTool {
           result = manager.info(isolatedNamespace);
           break;
 
+        case 'subscribe': {
+          if (!pattern) {
+            return this.error('Pattern is required for subscribe operation');
+          }
+          const subscriptionId = this.subscribe(context, isolatedNamespace, namespace, pattern);
+          result = {
+            success: true,
+            subscriptionId,
+            namespace,
+            pattern,
+            delivery: context.sendNotification ? `notifications (${MEMORY_CHANGE_NOTIFICATION})` : 'polling (use the changes operation)'
+          };
+          break;
+        }
+
+        case 'changes': {
+          const subscription = this.getSubscription(context, context.arguments.subscriptionId);
+          if (!subscription) {
+            return this.error(`Unknown subscription: ${context.arguments.subscriptionId}`);
+          }
+          result = {
+            subscriptionId: context.arguments.subscriptionId,
+            changes: subscription.pending.splice(0),
+            dropped: subscription.dropped
+          };
+          subscription.dropped = 0;
+          break;
+        }
+
+        case 'unsubscribe': {
+          const subscriptionId = context.arguments.subscriptionId;
+          if (!this.getSubscription(context, subscriptionId)) {
+            return this.error(`Unknown subscription: ${subscriptionId}`);
+          }
+          MemoryStoreTool.subscriptions.delete(subscriptionId);
+          manager.unsubscribe(subscriptionId);
+          result = { success: true, subscriptionId, unsubscribed: true };
+          break;
+        }
+
+        case 'quota': {
+          const limits: Partial<NamespaceQuota> = {};
+          if (options.maxSize !== undefined) {
+            limits.maxSize = options.maxSize;
+          }
+          if (options.maxKeys !== undefined) {
+            limits.maxKeys = options.maxKeys;
+          }
+          if (options.eviction !== undefined) {
+            limits.eviction = options.eviction;
+          }
+          if (Object.keys(limits).length > 0) {
+            manager.setQuota(isolatedNamespace, limits);
+          }
+          result = manager.getQuotaUsage(isolatedNamespace);
+          break;
+        }
+
         case 'export':
           result = manager.exportData(isolatedNamespace);
           break;
@@ -560,8 +1475,10 @@ export class MemoryStoreTool extends ChonkyTool {
       return this.success(formattedResult, {
         operation,
         namespace: namespace, // User-provided namespace
-        sessionId: sessionId, // Session ID for transparency
+        sessionId: context.sessionId || 'anonymous', // Session ID for transparency
         internalNamespace: isolatedNamespace, // Actual internal namespace used
+        storage: manager.getStorage(isolatedNamespace)?.backend || 'memory',
+        storageScope: storageScope || 'session',
         timestamp: new Date().toISOString()
       });
 
@@ -570,4 +1487,68 @@ export class MemoryStoreTool extends ChonkyTool {
       return this.error(errorMessage);
     }
   }
+
+  /**
+   * Forward changes of matching keys as MCP notifications, or queue them for
+   * polling when the client has no notification channel. A subscription whose
+   * notifications can't be delivered any more is dropped.
+   */
+  private subscribe(context: ToolExecutionContext, isolatedNamespace: string, namespace: string, pattern: string): string {
+    const manager = MemoryStoreTool.manager;
+    const notify = context.sendNotification;
+    const subscription: ToolSubscription = { sessionId: context.sessionId || 'anonymous', namespace, pattern, pending: [], dropped: 0 };
+
+    const subscriptionId = manager.subscribe(isolatedNamespace, pattern, event => {
+      const change: ChangeNotification = {
+        subscriptionId,
+        namespace,
+        key: event.key,
+        operation: event.operation,
+        version: event.version,
+        timestamp: event.timestamp
+      };
+
+      if (notify) {
+        notify({ method: MEMORY_CHANGE_NOTIFICATION, params: { ...change } }).catch(error => {
+          console.error(`⚠️ Change notification failed, removing subscription ${subscriptionId}:`, error);
+          manager.unsubscribe(subscriptionId);
+          MemoryStoreTool.subscriptions.delete(subscriptionId);
+        });
+        return;
+      }
+
+      subscription.pending.push(change);
+      if (subscription.pending.length > MAX_PENDING_CHANGES) {
+        subscription.pending.shift();
+        subscription.dropped++;
+      }
+    });
+
+    MemoryStoreTool.subscriptions.set(subscriptionId, subscription);
+    return subscriptionId;
+  }
+
+  /**
+   * Subscription of the calling session; subscriptions of other sessions are
+   * reported as unknown so their IDs can't be probed
+   */
+  private getSubscription(context: ToolExecutionContext, subscriptionId: string): ToolSubscription | undefined {
+    const subscription = MemoryStoreTool.subscriptions.get(subscriptionId);
+    return subscription?.sessionId === (context.sessionId || 'anonymous') ? subscription : undefined;
+  }
+
+  /**
+   * Describe why an operation on a namespace is not allowed, if it isn't
+   */
+  private checkNamespaceAccess(namespace: unknown, operation: string): string | undefined {
+    if (typeof namespace !== 'string' || namespace.trim() === '') {
+      return 'Namespace must be a non-empty string';
+    }
+    const reserved = RESERVED_NAMESPACES.find(name => name === namespace.trim().toLowerCase());
+    if (reserved && !READ_ONLY_OPERATIONS.includes(operation)) {
+      return `Namespace "${reserved}" is reserved for the task manager and is read-only here. ` +
+        `Use the chonky-task-manager-* tools to change projects, or store your own data in another namespace (e.g. "default").`;
+    }
+    return undefined;
+  }
 }
@@ -0,0 +1,173 @@
+/**
+ * Storage backend selection for MemoryStoreManager
+ *
+ * The backend is picked per workspace, in order of precedence, from:
+ * 1. CHONKY_STORAGE_BACKEND / CHONKY_STORAGE_DIR environment variables
+ * 2. The "storage" section of <workspace>/.chonky/config.json
+ * 3. The default: JSON files under <workspace>/.chonky/memory-store
+ *
+ * The scope (CHONKY_STORAGE_SCOPE or "storage.scope") decides which clients share
+ * the persisted namespaces: one session, every client of the workspace root
+ * (default), or every client on the machine. Global data lives under
+ * ~/.chonky/memory-store unless a directory is configured.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { StorageAdapter, StorageBackend, StorageConfig, StorageScope, STORAGE_BACKENDS, STORAGE_SCOPES } from './types.js';
+import { MemoryStorageAdapter } from './memory-adapter.js';
+import { JsonFileStorageAdapter } from './json-file-adapter.js';
+import { SqliteStorageAdapter } from './sqlite-adapter.js';
+
+export * from './types.js';
+export { MemoryStorageAdapter } from './memory-adapter.js';
+export { JsonFileStorageAdapter } from './json-file-adapter.js';
+export { SqliteStorageAdapter } from './sqlite-adapter.js';
+
+/**
+ * Workspace-relative paths used by the storage layer
+ */
+export const CONFIG_FILE = path.join('.chonky', 'config.json');
+export const STORE_DIRECTORY = path.join('.chonky', 'memory-store');
+
+const adapters = new Map<string, StorageAdapter>();
+
+// "storage" sections of workspace config files, read once per workspace root
+const workspaceConfigs = new Map<string, Record<string, unknown>>();
+
+function parseBackend(value: unknown, source: string): StorageBackend {
+  if (typeof value === 'string' && STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    return value as StorageBackend;
+  }
+  throw new Error(`Invalid storage backend "${String(value)}" in ${source}. Expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+}
+
+function parseScope(value: unknown, source: string): StorageScope {
+  if (typeof value === 'string' && STORAGE_SCOPES.includes(value as StorageScope)) {
+    return value as StorageScope;
+  }
+  throw new Error(`Invalid storage scope "${String(value)}" in ${source}. Expected one of: ${STORAGE_SCOPES.join(', ')}`);
+}
+
+/**
+ * Read the "storage" section of the workspace config file, if any. The file is
+ * read on first use only, so edits take effect after a restart.
+ */
+function readWorkspaceStorageConfig(workspaceRoot: string): Record<string, unknown> {
+  const cached = workspaceConfigs.get(workspaceRoot);
+  if (cached) {
+    return cached;
+  }
+
+  const configPath = path.join(workspaceRoot, CONFIG_FILE);
+  let content: string;
+  try {
+    content = fs.readFileSync(configPath, 'utf8');
+  } catch {
+    workspaceConfigs.set(workspaceRoot, {});
+    return {};
+  }
+
+  try {
+    const config = JSON.parse(content);
+    const storage = config && typeof config.storage === 'object' && config.storage !== null ? config.storage : {};
+    workspaceConfigs.set(workspaceRoot, storage);
+    return storage;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Resolve which backend and directory a workspace stores its data in
+ */
+export function resolveStorageConfig(workspaceRoot: string): StorageConfig {
+  const fileConfig = readWorkspaceStorageConfig(workspaceRoot);
+
+  const backend = process.env.CHONKY_STORAGE_BACKEND
+    ? parseBackend(process.env.CHONKY_STORAGE_BACKEND, 'CHONKY_STORAGE_BACKEND')
+    : fileConfig.backend !== undefined
+      ? parseBackend(fileConfig.backend, CONFIG_FILE)
+      : 'json';
+
+  const scope = process.env.CHONKY_STORAGE_SCOPE
+    ? parseScope(process.env.CHONKY_STORAGE_SCOPE, 'CHONKY_STORAGE_SCOPE')
+    : fileConfig.scope !== undefined
+      ? parseScope(fileConfig.scope, CONFIG_FILE)
+      : 'workspace';
+
+  const configuredDirectory = process.env.CHONKY_STORAGE_DIR
+    || (typeof fileConfig.directory === 'string' ? fileConfig.directory : undefined);
+
+  return {
+    backend,
+    directory: configuredDirectory
+      ? path.resolve(workspaceRoot, configuredDirectory)
+      : path.join(scope === 'global' ? os.homedir() : workspaceRoot, STORE_DIRECTORY),
+    scope
+  };
+}
+
+/**
+ * Internal namespace a persisted namespace is stored under for a scope.
+ * Workspace-scoped names carry a hash of the root so that several workspaces
+ * can share one configured storage directory without mixing their data.
+ */
+export function getScopedNamespace(scope: StorageScope, namespace: string, sessionId: string, workspaceRoot: string): string {
+  switch (scope) {
+    case 'session':
+      // Kept until deleted by hand: nothing knows when a session will not come back
+      return `${sessionId}.${namespace}`;
+    case 'workspace': {
+      const rootHash = createHash('sha256').update(path.resolve(workspaceRoot)).digest('hex').slice(0, 12);
+      return `workspace-${rootHash}.${namespace}`;
+    }
+    case 'global':
+      return `global.${namespace}`;
+  }
+}
+
+/**
+ * Create a new adapter for a storage configuration
+ */
+export function createStorageAdapter(config: Pick<StorageConfig, 'backend' | 'directory'>): StorageAdapter {
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryStorageAdapter();
+    case 'json':
+      return new JsonFileStorageAdapter(config.directory);
+    case 'sqlite':
+      return new SqliteStorageAdapter(config.directory);
+  }
+}
+
+/**
+ * Get the shared adapter for a workspace, creating it on first use
+ */
+export function getStorageAdapter(workspaceRoot: string, config: StorageConfig = resolveStorageConfig(workspaceRoot)): StorageAdapter {
+  const cacheKey = `${config.backend}:${config.directory}`;
+
+  let adapter = adapters.get(cacheKey);
+  if (!adapter) {
+    adapter = createStorageAdapter(config);
+    adapters.set(cacheKey, adapter);
+  }
+  return adapter;
+}
+
+/**
+ * Close every cached adapter (used on shutdown and in tests)
+ */
+export function closeStorageAdapters(): void {
+  adapters.forEach(adapter => adapter.close());
+  adapters.clear();
+}
+
+/**
+ * Forget the cached workspace config files so they are read again (used in tests)
+ */
+export function clearStorageConfigCache(): void {
+  workspaceConfigs.clear();
+}
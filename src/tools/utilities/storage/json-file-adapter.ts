@@ -0,0 +1,125 @@
+/**
+ * JSON file storage adapter
+ *
+ * Each namespace is written to a single JSON file. Writes go to a temporary
+ * file first and are then renamed over the target so a crash never leaves a
+ * half-written store behind.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageAdapter, StorageChange, PersistedStore } from './types.js';
+
+/**
+ * On-disk file format for a namespace
+ */
+interface JsonStoreFile extends PersistedStore {
+  version: number;
+  namespace: string;
+  savedAt: string;
+}
+
+const JSON_STORE_VERSION = 1;
+
+export class JsonFileStorageAdapter implements StorageAdapter {
+  readonly backend = 'json' as const;
+  private files = new Map<string, JsonStoreFile>();
+  private stamps = new Map<string, string>();   // mtime and size of each file as last read or written
+
+  constructor(readonly location: string) {}
+
+  /**
+   * Build the file path used to persist a namespace
+   */
+  getFilePath(namespace: string): string {
+    const safeName = namespace.replace(/[^a-zA-Z0-9._-]/g, '_');
+    return path.join(this.location, `${safeName}.json`);
+  }
+
+  /**
+   * Load a previously persisted namespace, or null if nothing was written yet.
+   * Unreadable files are moved aside so the namespace can start over cleanly.
+   */
+  load(namespace: string): PersistedStore | null {
+    const filePath = this.getFilePath(namespace);
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.files.delete(namespace);
+        this.stamps.delete(namespace);
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(content) as JsonStoreFile;
+      if (!parsed || typeof parsed !== 'object' || typeof parsed.data !== 'object') {
+        throw new Error('missing data section');
+      }
+      this.files.set(namespace, parsed);
+      this.stamps.set(namespace, this.getStamp(filePath));
+      return parsed;
+    } catch (error) {
+      const backupPath = `${filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(filePath, backupPath);
+      this.files.delete(namespace);
+      this.stamps.delete(namespace);
+      console.error(`⚠️  Could not read persisted store ${filePath} (${error instanceof Error ? error.message : String(error)}), moved to ${backupPath}`);
+      return null;
+    }
+  }
+
+  /**
+   * Apply a change to a copy of the cached file; the cache only takes the copy
+   * once it is on disk, so a failed write leaves it as it was
+   */
+  commit(namespace: string, change: StorageChange): void {
+    const cached = this.files.get(namespace);
+    const data = change.clear ? {} : { ...cached?.data };
+    for (const key of change.deletes || []) {
+      delete data[key];
+    }
+    Object.assign(data, change.upserts || {});
+
+    const file: JsonStoreFile = {
+      version: cached?.version ?? JSON_STORE_VERSION,
+      namespace,
+      savedAt: new Date().toISOString(),
+      metadata: change.metadata,
+      data
+    };
+
+    const filePath = this.getFilePath(namespace);
+    this.writeFile(filePath, file);
+    this.files.set(namespace, file);
+    this.stamps.set(namespace, this.getStamp(filePath));
+  }
+
+  hasExternalChanges(namespace: string): boolean {
+    return this.getStamp(this.getFilePath(namespace)) !== (this.stamps.get(namespace) || '');
+  }
+
+  close(): void {
+    this.files.clear();
+    this.stamps.clear();
+  }
+
+  private getStamp(filePath: string): string {
+    try {
+      const stats = fs.statSync(filePath);
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return '';
+    }
+  }
+
+  private writeFile(filePath: string, file: JsonStoreFile): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Memory storage adapter - keeps nothing beyond the lifetime of the process
+ */
+
+import { StorageAdapter, StorageChange, PersistedStore } from './types.js';
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend = 'memory' as const;
+  readonly location = 'memory';
+
+  load(_namespace: string): PersistedStore | null {
+    return null;
+  }
+
+  commit(_namespace: string, _change: StorageChange): void {
+    // MemoryStoreManager already holds the data in memory
+  }
+
+  hasExternalChanges(_namespace: string): boolean {
+    return false;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * SQLite storage adapter
+ *
+ * Stores every entry as its own row in an embedded SQLite database so large
+ * namespaces are updated key by key inside a transaction instead of
+ * rewriting the whole namespace. Requires the optional "better-sqlite3"
+ * dependency.
+ */
+
+import { createRequire } from 'module';
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import { StorageAdapter, StorageChange, PersistedStore, PersistedEntry } from './types.js';
+
+export const SQLITE_DATABASE_FILE = 'store.db';
+
+interface EntryRow {
+  key: string;
+  value: string | null;
+  type: string;
+  created: string;
+  last_modified: string;
+  ttl: number | null;
+  version: number | null;
+}
+
+interface NamespaceRow {
+  created: string;
+  total_operations: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS namespaces (
+    namespace TEXT PRIMARY KEY,
+    created TEXT NOT NULL,
+    total_operations INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS entries (
+    namespace TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT,
+    type TEXT NOT NULL,
+    created TEXT NOT NULL,
+    last_modified TEXT NOT NULL,
+    ttl INTEGER,
+    version INTEGER,
+    PRIMARY KEY (namespace, key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_entries_modified ON entries (namespace, last_modified);
+`;
+
+/**
+ * Load better-sqlite3 lazily so the other backends work without the native module
+ */
+function loadSqlite(): typeof Database {
+  try {
+    const require = createRequire(import.meta.url);
+    return require('better-sqlite3');
+  } catch (error) {
+    throw new Error(
+      'SQLite storage requires the optional "better-sqlite3" package. ' +
+      'Install it with `npm install better-sqlite3` or select another backend via CHONKY_STORAGE_BACKEND=json.'
+    );
+  }
+}
+
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly backend = 'sqlite' as const;
+  readonly location: string;
+  private db: Database.Database;
+  private loadedVersions = new Map<string, number>();   // data_version seen when each namespace was loaded
+
+  constructor(directory: string) {
+    const SqliteDatabase = loadSqlite();
+    fs.mkdirSync(directory, { recursive: true });
+
+    this.location = path.join(directory, SQLITE_DATABASE_FILE);
+    this.db = new SqliteDatabase(this.location);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  /**
+   * Bring databases created by older versions up to the current schema
+   */
+  private migrate(): void {
+    const columns = this.db.prepare<[], { name: string }>('PRAGMA table_info(entries)').all().map(column => column.name);
+    if (!columns.includes('version')) {
+      this.db.exec('ALTER TABLE entries ADD COLUMN version INTEGER');
+    }
+  }
+
+  load(namespace: string): PersistedStore | null {
+    this.loadedVersions.set(namespace, this.getDataVersion());
+    const metadata = this.db
+      .prepare<[string], NamespaceRow>('SELECT created, total_operations FROM namespaces WHERE namespace = ?')
+      .get(namespace);
+    if (!metadata) {
+      return null;
+    }
+
+    const rows = this.db
+      .prepare<[string], EntryRow>('SELECT key, value, type, created, last_modified, ttl, version FROM entries WHERE namespace = ?')
+      .all(namespace);
+
+    const data: Record<string, PersistedEntry> = {};
+    for (const row of rows) {
+      data[row.key] = {
+        value: row.value === null ? undefined : JSON.parse(row.value),
+        type: row.type,
+        created: row.created,
+        lastModified: row.last_modified,
+        ttl: row.ttl ?? undefined,
+        version: row.version ?? undefined
+      };
+    }
+
+    return {
+      metadata: {
+        created: metadata.created,
+        totalOperations: metadata.total_operations
+      },
+      data
+    };
+  }
+
+  commit(namespace: string, change: StorageChange): void {
+    const upsertNamespace = this.db.prepare(
+      `INSERT INTO namespaces (namespace, created, total_operations) VALUES (?, ?, ?)
+       ON CONFLICT(namespace) DO UPDATE SET total_operations = excluded.total_operations`
+    );
+    const upsertEntry = this.db.prepare(
+      `INSERT OR REPLACE INTO entries (namespace, key, value, type, created, last_modified, ttl, version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const deleteEntry = this.db.prepare('DELETE FROM entries WHERE namespace = ? AND key = ?');
+    const clearEntries = this.db.prepare('DELETE FROM entries WHERE namespace = ?');
+
+    const apply = this.db.transaction(() => {
+      upsertNamespace.run(namespace, change.metadata.created, change.metadata.totalOperations);
+
+      if (change.clear) {
+        clearEntries.run(namespace);
+      }
+      for (const key of change.deletes || []) {
+        deleteEntry.run(namespace, key);
+      }
+      for (const [key, entry] of Object.entries(change.upserts || {})) {
+        upsertEntry.run(
+          namespace,
+          key,
+          entry.value === undefined ? null : JSON.stringify(entry.value),
+          entry.type,
+          entry.created,
+          entry.lastModified,
+          entry.ttl ?? null,
+          entry.version ?? null
+        );
+      }
+    });
+
+    apply();
+  }
+
+  hasExternalChanges(namespace: string): boolean {
+    const loadedVersion = this.loadedVersions.get(namespace);
+    return loadedVersion !== undefined && loadedVersion !== this.getDataVersion();
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * SQLite bumps data_version whenever another connection commits
+   */
+  private getDataVersion(): number {
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Storage adapter contracts for MemoryStoreManager
+ *
+ * The manager keeps every namespace in memory for reads and writes each
+ * mutation through to a StorageAdapter, which decides where (and whether)
+ * the data survives a restart.
+ */
+
+export type StorageBackend = 'memory' | 'json' | 'sqlite';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['memory', 'json', 'sqlite'];
+
+/**
+ * Who shares persisted data: a single client session, every client working on
+ * the same workspace root, or every client on the machine
+ */
+export type StorageScope = 'session' | 'workspace' | 'global';
+
+export const STORAGE_SCOPES: StorageScope[] = ['session', 'workspace', 'global'];
+
+/**
+ * Serialized form of a single store entry
+ */
+export interface PersistedEntry {
+  value: any;
+  type: string;
+  created: string;
+  lastModified: string;
+  ttl?: number;
+  version?: number;             // Incremented on every write; missing for entries saved before versioning
+}
+
+export interface PersistedMetadata {
+  created: string;
+  totalOperations: number;
+}
+
+/**
+ * Serialized form of a namespace
+ */
+export interface PersistedStore {
+  metadata: PersistedMetadata;
+  data: Record<string, PersistedEntry>;
+}
+
+/**
+ * A set of changes to one namespace that is applied atomically
+ */
+export interface StorageChange {
+  clear?: boolean;              // Remove every entry before applying upserts
+  upserts?: Record<string, PersistedEntry>;
+  deletes?: string[];
+  metadata: PersistedMetadata;
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+
+  /**
+   * Human readable location of the stored data (file, database or "memory")
+   */
+  readonly location: string;
+
+  /**
+   * Load every entry of a namespace, or null if it was never stored
+   */
+  load(namespace: string): PersistedStore | null;
+
+  /**
+   * Apply a change to a namespace in a single transaction
+   */
+  commit(namespace: string, change: StorageChange): void;
+
+  /**
+   * True when another process changed the namespace since it was last loaded or committed
+   */
+  hasExternalChanges(namespace: string): boolean;
+
+  /**
+   * Release file handles and connections
+   */
+  close(): void;
+}
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  directory: string;            // Directory holding JSON files or the SQLite database
+  scope: StorageScope;
+}
@@ -0,0 +1,400 @@
+/**
+ * Value filters and projections for memory-store queries
+ *
+ * Supports a small JSONPath/predicate subset evaluated against each stored value:
+ *   $.severity == "high" && $.score >= 7
+ *   $.tags[*] == "security"            (wildcards match if any element does)
+ *   $.title =~ /reentran/i
+ *   $.status in ["pending", "in-progress"]
+ *   $.tags contains "security"
+ *   !$.resolved
+ * Paths start at the value with $ or @ (or a bare field name), followed by
+ * .field, ["field"], [index] or [*]/.* segments.
+ */
+
+import { isDeepStrictEqual } from 'util';
+
+export type ValueFilter = (value: any) => boolean;
+
+type PathSegment = string | number | typeof WILDCARD;
+
+type FilterNode =
+  | { kind: 'path'; segments: PathSegment[] }
+  | { kind: 'literal'; value: any }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'compare'; operator: ComparisonOperator; left: FilterNode; right: FilterNode }
+  | { kind: 'not'; operand: FilterNode }
+  | { kind: 'and' | 'or'; left: FilterNode; right: FilterNode };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~' | 'in' | 'contains';
+
+interface Token {
+  type: 'punct' | 'operator' | 'identifier' | 'string' | 'number' | 'regex';
+  text: string;
+  value?: any;
+  position: number;
+}
+
+const WILDCARD = Symbol('wildcard');
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>=', '=~', 'in', 'contains'];
+const KEYWORDS: Record<string, any> = { true: true, false: false, null: null };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const operator = /^(==|!=|<=|>=|=~|&&|\|\||<|>)/.exec(rest);
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator[0], position });
+      position += operator[0].length;
+      continue;
+    }
+
+    if ('()[],.!$@*'.includes(rest[0])) {
+      tokens.push({ type: 'punct', text: rest[0], position });
+      position++;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    const string = /^("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/.exec(rest);
+    if (string) {
+      const body = string[0].slice(1, -1);
+      const value = string[0][0] === '"'
+        ? JSON.parse(string[0])
+        : JSON.parse(`"${body.replace(/\\'/g, "'").replace(/"/g, '\\"')}"`);
+      tokens.push({ type: 'string', text: string[0], value, position });
+      position += string[0].length;
+      continue;
+    }
+
+    const regex = /^\/((?:[^/\\]|\\.)+)\/([gimsuy]*)/.exec(rest);
+    if (regex) {
+      // g and y make test() continue from lastIndex, so a match would depend on the values tested before
+      tokens.push({ type: 'regex', text: regex[0], value: new RegExp(regex[1], regex[2].replace(/[gy]/g, '')), position });
+      position += regex[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][\w-]*/.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${rest[0]}" at position ${position}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; precedence from loosest to tightest: ||, &&, !, comparison
+ */
+class FilterParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseExpression(): FilterNode {
+    const node = this.parseOr();
+    if (this.peek()) {
+      this.fail(`Unexpected "${this.peek()!.text}"`);
+    }
+    return node;
+  }
+
+  parsePathOnly(): PathSegment[] {
+    const node = this.parseOperand();
+    if (node.kind !== 'path' || this.peek()) {
+      this.fail('Expected a field path');
+    }
+    return (node as { segments: PathSegment[] }).segments;
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.accept('operator', '||')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseUnary();
+    while (this.accept('operator', '&&')) {
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.accept('punct', '!')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    if (this.accept('punct', '(')) {
+      const node = this.parseOr();
+      this.expect('punct', ')');
+      return node;
+    }
+
+    const left = this.parseOperand();
+    const next = this.peek();
+    const operator = next && (next.type === 'operator' || next.type === 'identifier') && COMPARISON_OPERATORS.includes(next.text as ComparisonOperator)
+      ? next.text as ComparisonOperator
+      : undefined;
+    if (!operator) {
+      return left;
+    }
+
+    this.index++;
+    if (operator === '=~' && this.peek()?.type !== 'regex') {
+      this.fail('=~ expects a regular expression like /pattern/i');
+    }
+    return { kind: 'compare', operator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): FilterNode {
+    const token = this.peek();
+    if (!token) {
+      this.fail('Unexpected end of expression');
+    }
+
+    switch (token!.type) {
+      case 'string':
+      case 'number':
+        this.index++;
+        return { kind: 'literal', value: token!.value };
+      case 'regex':
+        this.index++;
+        return { kind: 'regex', regex: token!.value };
+      case 'identifier':
+        if (token!.text in KEYWORDS) {
+          this.index++;
+          return { kind: 'literal', value: KEYWORDS[token!.text] };
+        }
+        return { kind: 'path', segments: this.parseSegments(true) };
+    }
+
+    if (this.accept('punct', '$') || this.accept('punct', '@')) {
+      return { kind: 'path', segments: this.parseSegments(false) };
+    }
+    if (this.accept('punct', '[')) {
+      const values: any[] = [];
+      if (!this.accept('punct', ']')) {
+        do {
+          const item = this.parseOperand();
+          if (item.kind !== 'literal') {
+            this.fail('Array literals may only contain strings, numbers, true, false or null');
+          }
+          values.push((item as { value: any }).value);
+        } while (this.accept('punct', ','));
+        this.expect('punct', ']');
+      }
+      return { kind: 'literal', value: values };
+    }
+
+    return this.fail(`Unexpected "${token!.text}"`);
+  }
+
+  /**
+   * Path segments after $/@, or starting with a bare field name
+   */
+  private parseSegments(bareStart: boolean): PathSegment[] {
+    const segments: PathSegment[] = [];
+    if (bareStart) {
+      segments.push(this.expect('identifier').text);
+    }
+
+    for (;;) {
+      if (this.accept('punct', '.')) {
+        if (this.accept('punct', '*')) {
+          segments.push(WILDCARD);
+        } else {
+          const field = this.peek();
+          if (!field || (field.type !== 'identifier' && field.type !== 'number')) {
+            this.fail('Expected a field name after "."');
+          }
+          this.index++;
+          segments.push(field!.text);
+        }
+      } else if (this.accept('punct', '[')) {
+        const token = this.peek();
+        if (this.accept('punct', '*')) {
+          segments.push(WILDCARD);
+        } else if (token && (token.type === 'number' || token.type === 'string')) {
+          this.index++;
+          segments.push(token.value);
+        } else {
+          this.fail('Expected an index, a quoted field name or * inside []');
+        }
+        this.expect('punct', ']');
+      } else {
+        return segments;
+      }
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private accept(type: Token['type'], text?: string): boolean {
+    const token = this.peek();
+    if (token && token.type === type && (text === undefined || token.text === text)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token['type'], text?: string): Token {
+    const token = this.peek();
+    if (!token || token.type !== type || (text !== undefined && token.text !== text)) {
+      this.fail(`Expected ${text ? `"${text}"` : type}`);
+    }
+    this.index++;
+    return token!;
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    throw new Error(`${message} ${token ? `at position ${token.position}` : 'at end of expression'}`);
+  }
+}
+
+/**
+ * Every value a path points to; wildcards fan out, missing fields resolve to nothing
+ */
+function resolvePath(value: any, segments: PathSegment[]): any[] {
+  let current: any[] = [value];
+  for (const segment of segments) {
+    const next: any[] = [];
+    for (const item of current) {
+      if (item === null || typeof item !== 'object') {
+        continue;
+      }
+      if (segment === WILDCARD) {
+        next.push(...Object.values(item));
+      } else if (segment in item) {
+        next.push(item[segment as keyof typeof item]);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+function operandValues(node: FilterNode, value: any): any[] {
+  switch (node.kind) {
+    case 'path':
+      return resolvePath(value, node.segments);
+    case 'literal':
+      return [node.value];
+    case 'regex':
+      return [node.regex];
+    default:
+      return [evaluate(node, value)];
+  }
+}
+
+function compareValues(operator: ComparisonOperator, left: any, right: any): boolean {
+  switch (operator) {
+    case '==':
+      return isDeepStrictEqual(left, right);
+    case '!=':
+      return !isDeepStrictEqual(left, right);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const comparable = (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) {
+        return false;
+      }
+      return operator === '<' ? left < right : operator === '<=' ? left <= right : operator === '>' ? left > right : left >= right;
+    }
+    case '=~':
+      return typeof left === 'string' && (right as RegExp).test(left);
+    case 'in':
+      return Array.isArray(right) && right.some(item => isDeepStrictEqual(item, left));
+    case 'contains':
+      if (typeof left === 'string') {
+        return typeof right === 'string' && left.includes(right);
+      }
+      return Array.isArray(left) && left.some(item => isDeepStrictEqual(item, right));
+  }
+}
+
+function evaluate(node: FilterNode, value: any): boolean {
+  switch (node.kind) {
+    case 'and':
+      return evaluate(node.left, value) && evaluate(node.right, value);
+    case 'or':
+      return evaluate(node.left, value) || evaluate(node.right, value);
+    case 'not':
+      return !evaluate(node.operand, value);
+    case 'compare': {
+      const rights = operandValues(node.right, value);
+      return operandValues(node.left, value).some(left => rights.some(right => compareValues(node.operator, left, right)));
+    }
+    case 'path':
+      return resolvePath(value, node.segments).some(item => item !== undefined && item !== null && item !== false);
+    case 'literal':
+      return Boolean(node.value);
+    case 'regex':
+      return true;
+  }
+}
+
+/**
+ * Compile a filter expression once so it can be applied to many values
+ */
+export function compileValueFilter(expression: string): ValueFilter {
+  let node: FilterNode;
+  try {
+    node = new FilterParser(tokenize(expression)).parseExpression();
+  } catch (error) {
+    throw new Error(`Invalid filter expression "${expression}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return value => evaluate(node, value);
+}
+
+/**
+ * Pick fields from a value, keyed by the requested path. Paths with wildcards
+ * return every match as an array; missing fields are left out.
+ */
+export function projectValue(value: any, fields: string[]): Record<string, any> {
+  const projection: Record<string, any> = {};
+  for (const field of fields) {
+    let segments: PathSegment[];
+    try {
+      segments = new FilterParser(tokenize(field)).parsePathOnly();
+    } catch (error) {
+      throw new Error(`Invalid field path "${field}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const matches = resolvePath(value, segments);
+    if (segments.includes(WILDCARD)) {
+      projection[field] = matches;
+    } else if (matches.length > 0) {
+      projection[field] = matches[0];
+    }
+  }
+  return projection;
+}
@@ -22,3 +22,16 @@ export class AccessDeniedError extends Error {
     this.name = 'AccessDeniedError';
   }
 }
+
+export class ProjectConflictError extends Error {
+  constructor(
+    message: string,
+    public project: string,
+    public expectedRevision: number,
+    public actualRevision: number,
+    public changedTasks: string[]
+  ) {
+    super(message);
+    this.name = 'ProjectConflictError';
+  }
+}